@@ -3,6 +3,17 @@ import { z } from "zod";
 
 config();
 
+const llmProviderSchema = z.enum(["openai", "anthropic", "local", "mock"]);
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 const envSchema = z.object({
   PORT: z.coerce.number().default(3000),
   DATABASE_URL: z.string().min(1),
@@ -12,9 +23,49 @@ const envSchema = z.object({
   META_APP_ID: z.string().default(""),
   META_APP_SECRET: z.string().default(""),
   META_APP_REDIRECT_URI: z.string().default(""),
-  LLM_PROVIDER: z.enum(["openai"]).default("openai"),
-  OPENAI_API_KEY: z.string().min(1),
-  OPENAI_MODEL: z.string().default("gpt-4.1-mini")
+  META_WEBHOOK_VERIFY_TOKEN: z.string().default(""),
+  QUEUE_DRIVER: z.enum(["memory", "postgres"]).default("postgres"),
+  QUEUE_CONCURRENCY: z.coerce.number().int().min(1).default(4),
+  JOB_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+  JOB_BACKOFF_BASE_MS: z.coerce.number().int().min(0).default(1_000),
+  JOB_BACKOFF_MAX_MS: z.coerce.number().int().min(0).default(60_000),
+  SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().min(0).default(25_000),
+  BURST_WINDOW_MS: z.coerce.number().int().min(0).default(0),
+  LLM_PROVIDER: llmProviderSchema.default("openai"),
+  LLM_FALLBACK_PROVIDERS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(llmProviderSchema)),
+  LLM_PROVIDER_TIMEOUT_MS: z.coerce.number().int().min(1).default(20_000),
+  LLM_BREAKER_THRESHOLD: z.coerce.number().int().min(1).default(3),
+  LLM_BREAKER_COOLDOWN_MS: z.coerce.number().int().min(0).default(60_000),
+  OPENAI_API_KEY: z.string().default(""),
+  OPENAI_MODEL: z.string().default("gpt-4.1-mini"),
+  ANTHROPIC_API_KEY: z.string().default(""),
+  ANTHROPIC_MODEL: z.string().default("claude-3-5-haiku-latest"),
+  LOCAL_LLM_BASE_URL: z.string().url().default("http://localhost:11434/v1"),
+  LOCAL_LLM_MODEL: z.string().default("llama3.1"),
+  LOCAL_LLM_API_KEY: z.string().default(""),
+  LOCAL_LLM_TIMEOUT_MS: z.coerce.number().int().min(1).default(60_000),
+  LOCAL_LLM_JSON_MODE: z.enum(["auto", "on", "off"]).default("auto"),
+  MOCK_LLM_FIXTURES: z.string().default("apps/server/fixtures/mock-llm.json"),
+  LLM_HISTORY_MAX_MESSAGES: z.coerce.number().int().min(0).default(10),
+  LLM_HISTORY_MAX_TOKENS: z.coerce.number().int().min(0).default(800),
+  LLM_HISTORY_TRUNCATION: z.enum(["drop_oldest", "clip_oldest"]).default("drop_oldest"),
+  KNOWLEDGE_TOP_K: z.coerce.number().int().min(0).default(3),
+  BUSINESS_NAME: z.string().default(""),
+  BUSINESS_HOURS: z.string().default(""),
+  BUSINESS_TIMEZONE: z
+    .string()
+    .default("UTC")
+    .refine(isTimeZone, { message: "BUSINESS_TIMEZONE must be an IANA time zone" }),
+  ORDER_LOOKUP_URL: z.string().default("")
 });
 
 export type Env = {
@@ -26,12 +77,65 @@ export type Env = {
   metaAppId: string;
   metaAppSecret: string;
   metaAppRedirectUri: string;
-  llmProvider: "openai";
+  metaWebhookVerifyToken: string;
+  queueDriver: "memory" | "postgres";
+  queueConcurrency: number;
+  jobMaxAttempts: number;
+  jobBackoffBaseMs: number;
+  jobBackoffMaxMs: number;
+  shutdownTimeoutMs: number;
+  burstWindowMs: number;
+  llmProvider: LlmProvider;
+  llmFallbackProviders: LlmProvider[];
+  llmProviderTimeoutMs: number;
+  llmBreakerThreshold: number;
+  llmBreakerCooldownMs: number;
   openaiApiKey: string;
   openaiModel: string;
+  anthropicApiKey: string;
+  anthropicModel: string;
+  localLlmBaseUrl: string;
+  localLlmModel: string;
+  localLlmApiKey: string;
+  localLlmTimeoutMs: number;
+  localLlmJsonMode: JsonMode;
+  mockLlmFixtures: string;
+  llmHistoryMaxMessages: number;
+  llmHistoryMaxTokens: number;
+  llmHistoryTruncation: HistoryTruncation;
+  knowledgeTopK: number;
+  businessName: string;
+  businessHours: string;
+  businessTimezone: string;
+  orderLookupUrl: string;
 };
 
-const parsed = envSchema.parse(process.env);
+export type LlmProvider = z.infer<typeof llmProviderSchema>;
+
+export type JsonMode = "auto" | "on" | "off";
+
+export type HistoryTruncation = "drop_oldest" | "clip_oldest";
+
+const parsed = envSchema
+  .superRefine((value, context) => {
+    // Every provider in the failover chain needs its key, not just the primary.
+    for (const provider of new Set([value.LLM_PROVIDER, ...value.LLM_FALLBACK_PROVIDERS])) {
+      const requiredKey =
+        provider === "anthropic"
+          ? "ANTHROPIC_API_KEY"
+          : provider === "openai"
+            ? "OPENAI_API_KEY"
+            : null;
+      if (requiredKey && !value[requiredKey].trim()) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [requiredKey],
+          message: `${requiredKey} is required when ${provider} is in the LLM provider chain`
+        });
+      }
+    }
+  })
+  .parse(process.env);
 
 export const env: Env = {
   port: parsed.PORT,
@@ -42,7 +146,35 @@ export const env: Env = {
   metaAppId: parsed.META_APP_ID,
   metaAppSecret: parsed.META_APP_SECRET,
   metaAppRedirectUri: parsed.META_APP_REDIRECT_URI,
+  metaWebhookVerifyToken: parsed.META_WEBHOOK_VERIFY_TOKEN,
+  queueDriver: parsed.QUEUE_DRIVER,
+  queueConcurrency: parsed.QUEUE_CONCURRENCY,
+  jobMaxAttempts: parsed.JOB_MAX_ATTEMPTS,
+  jobBackoffBaseMs: parsed.JOB_BACKOFF_BASE_MS,
+  jobBackoffMaxMs: parsed.JOB_BACKOFF_MAX_MS,
+  shutdownTimeoutMs: parsed.SHUTDOWN_TIMEOUT_MS,
+  burstWindowMs: parsed.BURST_WINDOW_MS,
   llmProvider: parsed.LLM_PROVIDER,
+  llmFallbackProviders: parsed.LLM_FALLBACK_PROVIDERS,
+  llmProviderTimeoutMs: parsed.LLM_PROVIDER_TIMEOUT_MS,
+  llmBreakerThreshold: parsed.LLM_BREAKER_THRESHOLD,
+  llmBreakerCooldownMs: parsed.LLM_BREAKER_COOLDOWN_MS,
   openaiApiKey: parsed.OPENAI_API_KEY,
-  openaiModel: parsed.OPENAI_MODEL
+  openaiModel: parsed.OPENAI_MODEL,
+  anthropicApiKey: parsed.ANTHROPIC_API_KEY,
+  anthropicModel: parsed.ANTHROPIC_MODEL,
+  localLlmBaseUrl: parsed.LOCAL_LLM_BASE_URL,
+  localLlmModel: parsed.LOCAL_LLM_MODEL,
+  localLlmApiKey: parsed.LOCAL_LLM_API_KEY,
+  localLlmTimeoutMs: parsed.LOCAL_LLM_TIMEOUT_MS,
+  localLlmJsonMode: parsed.LOCAL_LLM_JSON_MODE,
+  mockLlmFixtures: parsed.MOCK_LLM_FIXTURES,
+  llmHistoryMaxMessages: parsed.LLM_HISTORY_MAX_MESSAGES,
+  llmHistoryMaxTokens: parsed.LLM_HISTORY_MAX_TOKENS,
+  llmHistoryTruncation: parsed.LLM_HISTORY_TRUNCATION,
+  knowledgeTopK: parsed.KNOWLEDGE_TOP_K,
+  businessName: parsed.BUSINESS_NAME,
+  businessHours: parsed.BUSINESS_HOURS,
+  businessTimezone: parsed.BUSINESS_TIMEZONE,
+  orderLookupUrl: parsed.ORDER_LOOKUP_URL
 };
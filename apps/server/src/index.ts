@@ -4,13 +4,26 @@ import rawBody from "fastify-raw-body";
 import { env } from "./config/env";
 import { prisma } from "./db/prisma";
 import { InMemoryQueue } from "./queue/inMemoryQueue";
+import { JobQueue } from "./queue/jobQueue";
+import { PrismaJobQueue } from "./queue/prismaQueue";
+import { RetryOptions } from "./queue/retry";
 import { registerAdminRoutes } from "./routes/admin";
 import { registerFrontendRoutes } from "./routes/app";
 import { createWebhookWorker, registerWebhookRoutes } from "./routes/webhook";
+import { isBurstDraftJob } from "./services/bursts";
+import { isCommentJob } from "./services/comments";
 import { InstagramGraphService } from "./services/ig";
+import { recordDeadLetter } from "./services/deadLetters";
 import { createLlmService } from "./services/llm";
-import { KeywordRulesService } from "./services/rules";
-import { ParsedWebhookJob } from "./types/meta";
+import { isMessageEventJob } from "./services/messageEvents";
+import { PrismaIntentTaxonomy } from "./services/intents";
+import { PrismaKnowledgeBase } from "./services/knowledge";
+import { PrismaPayloadHandlerRegistry } from "./services/payloadHandlers";
+import { PrismaRulesService, seedDefaultReplyRules } from "./services/rules";
+import { WebhookJob } from "./types/meta";
+import { isRetryableError } from "./utils/errors";
+
+const WEBHOOK_QUEUE_NAME = "instagram-webhook";
 
 async function bootstrap(): Promise<void> {
   const app = Fastify({ logger: true });
@@ -23,15 +36,74 @@ async function bootstrap(): Promise<void> {
     runFirst: true
   });
 
-  const queue = new InMemoryQueue<ParsedWebhookJob>({
-    concurrency: 1,
-    onError: (error, job) => {
-      app.log.error({ error, job }, "Queue job failed");
-    }
-  });
+  const onJobError = (error: unknown, job: WebhookJob): void => {
+    app.log.error({ error, job }, "Queue job failed");
+  };
+
+  const onDeadLetter = async (
+    job: WebhookJob,
+    error: unknown,
+    attempts: number
+  ): Promise<void> => {
+    const messageId = isMessageEventJob(job)
+      ? job.event.messageId
+      : isCommentJob(job)
+        ? job.commentId
+        : isBurstDraftJob(job)
+          ? job.burstLeaderId
+          : job.messageId;
+    app.log.error({ error, attempts, messageId }, "Queue job dead-lettered");
+    await recordDeadLetter(prisma, {
+      queue: WEBHOOK_QUEUE_NAME,
+      payload: job,
+      attempts,
+      error
+    });
+  };
+
+  // Delayed burst jobs get their own partition so a pending one never blocks
+  // the next DM of the same thread from being stored.
+  const byThread = (job: WebhookJob): string =>
+    isBurstDraftJob(job) ? `${job.threadId}:burst` : job.threadId;
+
+  const retry: RetryOptions = {
+    maxAttempts: env.jobMaxAttempts,
+    baseDelayMs: env.jobBackoffBaseMs,
+    maxDelayMs: env.jobBackoffMaxMs,
+    isRetryable: isRetryableError
+  };
+
+  const queue: JobQueue<WebhookJob> =
+    env.queueDriver === "postgres"
+      ? new PrismaJobQueue<WebhookJob>({
+          prisma,
+          queueName: WEBHOOK_QUEUE_NAME,
+          concurrency: env.queueConcurrency,
+          partitionKey: byThread,
+          retry,
+          onError: onJobError,
+          onDeadLetter,
+          onPollError: (error) => {
+            app.log.error({ error }, "Queue poll failed");
+          }
+        })
+      : new InMemoryQueue<WebhookJob>({
+          concurrency: env.queueConcurrency,
+          partitionKey: byThread,
+          retry,
+          onError: onJobError,
+          onDeadLetter
+        });
 
   const llm = createLlmService(env, app.log);
-  const rules = new KeywordRulesService();
+  const seededRules = await seedDefaultReplyRules(prisma);
+  if (seededRules > 0) {
+    app.log.info({ count: seededRules }, "Seeded default reply rules");
+  }
+  const rules = new PrismaRulesService(prisma);
+  const payloadHandlers = new PrismaPayloadHandlerRegistry(prisma);
+  const knowledge = new PrismaKnowledgeBase(prisma);
+  const intents = new PrismaIntentTaxonomy(prisma);
   const ig = new InstagramGraphService({
     accessToken: env.metaAccessToken,
     businessAccountId: env.metaIgBusinessAccountId,
@@ -57,22 +129,36 @@ async function bootstrap(): Promise<void> {
       prisma,
       llm,
       rules,
-      ig
+      payloadHandlers,
+      knowledge,
+      intents,
+      ig,
+      queue
     })
   );
+  app.log.info(
+    { driver: env.queueDriver, concurrency: env.queueConcurrency },
+    "Webhook queue started"
+  );
 
   app.get("/health", async () => ({ ok: true }));
   app.get("/", async (_request, reply) => reply.redirect("/app-react"));
 
+  let shuttingDown = false;
+
   registerWebhookRoutes(app, {
     env,
     logger: app.log,
-    queue
+    prisma,
+    queue,
+    isShuttingDown: () => shuttingDown
   });
 
   registerFrontendRoutes(app, {
     prisma,
     ig,
+    knowledge,
+    rules,
     env,
     logger: app.log
   });
@@ -80,6 +166,7 @@ async function bootstrap(): Promise<void> {
   registerAdminRoutes(app, {
     prisma,
     ig,
+    queue,
     env,
     logger: app.log
   });
@@ -88,6 +175,45 @@ async function bootstrap(): Promise<void> {
     await prisma.$disconnect();
   });
 
+  const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    app.log.info({ signal, timeoutMs: env.shutdownTimeoutMs }, "Shutdown started");
+
+    try {
+      const result = await queue.stop({ timeoutMs: env.shutdownTimeoutMs });
+
+      if (!result.drained) {
+        app.log.warn({ inFlight: result.inFlight }, "Shutdown deadline hit with jobs in flight");
+      }
+
+      for (const { job, attempts } of result.remaining) {
+        await recordDeadLetter(prisma, {
+          queue: WEBHOOK_QUEUE_NAME,
+          payload: job,
+          attempts,
+          error: `Server shut down (${signal}) before job was processed`
+        });
+      }
+
+      if (result.remaining.length > 0) {
+        app.log.warn(
+          { remaining: result.remaining.length },
+          "Unprocessed queued jobs saved to dead-letter store"
+        );
+      }
+
+      await app.close();
+      process.exit(0);
+    } catch (error) {
+      app.log.error({ error }, "Graceful shutdown failed");
+      process.exit(1);
+    }
+  };
+
+  process.once("SIGTERM", (signal) => void shutdown(signal));
+  process.once("SIGINT", (signal) => void shutdown(signal));
+
   await app.listen({ port: env.port, host: "0.0.0.0" });
   app.log.info({ port: env.port }, "Server started");
 }
@@ -5,6 +5,32 @@ import htm from "https://esm.sh/htm@3.1.1";
 const html = htm.bind(React.createElement);
 
 const SEGMENTS = ["FRIEND", "KNOWN", "STRANGER", "VIP"];
+const LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Spanish" },
+  { code: "pt", label: "Portuguese" }
+];
+const TEMPLATE_VARIABLES = [
+  "contact.name",
+  "segment",
+  "intent",
+  "language",
+  "business.name",
+  "business.hours",
+  "order.lookupUrl"
+];
+const DEFAULT_TEMPLATE_PREVIEW = {
+  template: "",
+  segment: "STRANGER",
+  intent: "general_question",
+  language: "",
+  contactName: ""
+};
+const RULE_TEST_PATHS = {
+  template: "Segment template",
+  rule: "Keyword rule",
+  llm: "LLM draft (no rule matched)"
+};
 const TABS = [
   { id: "overview", label: "Overview" },
   { id: "messages", label: "Message Config" },
@@ -92,12 +118,57 @@ function connectionTone(status) {
   return "warn";
 }
 
+function renderAttachments(attachments) {
+  if (!attachments || attachments.length === 0) return null;
+
+  return html`
+    <div className="row">
+      ${attachments.map((attachment, index) => {
+        const label = `[${attachment.title || attachment.type}]`;
+        return attachment.url
+          ? html`<a key=${index} href=${attachment.url} target="_blank" rel="noopener">${label}</a>`
+          : html`<span key=${index} className="muted">${label}</span>`;
+      })}
+    </div>
+  `;
+}
+
+function formatOverride(value) {
+  if (value === true) return "on";
+  if (value === false) return "off";
+  return "inherit";
+}
+
+function formatRuleMatch(match) {
+  const variant = match.language ? ` (${match.language} keywords)` : "";
+  return `Rule ${match.ruleName} matched "${match.term}" at ${match.index}${variant}`;
+}
+
+function readLanguageFields(form, prefix) {
+  return Object.fromEntries(
+    LANGUAGES.map(({ code }) => [code, String(form.get(`${prefix}_${code}`) || "")])
+  );
+}
+
+function renderStoryBadge(story) {
+  if (!story) return null;
+
+  const label = story.interaction === "MENTION" ? "Story mention" : "Story reply";
+  return story.url
+    ? html`<a href=${story.url} target="_blank" rel="noopener"><span className="status-pill warn">${label}</span></a>`
+    : html`<span className="status-pill warn">${label}</span>`;
+}
+
 function App() {
   const [data, setData] = useState(null);
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState(false);
   const [notice, setNotice] = useState("");
   const [draftReplies, setDraftReplies] = useState({});
+  const [editingRule, setEditingRule] = useState(null);
+  const [ruleTest, setRuleTest] = useState(null);
+  const [previewInput, setPreviewInput] = useState(DEFAULT_TEMPLATE_PREVIEW);
+  const [templatePreview, setTemplatePreview] = useState(null);
   const [activeTab, setActiveTab] = useState(() => {
     const saved = loadStoredValue(STORAGE_KEYS.activeTab, "overview");
     return TABS.some((tab) => tab.id === saved) ? saved : "overview";
@@ -138,6 +209,29 @@ function App() {
     saveStoredValue(STORAGE_KEYS.activeTab, activeTab);
   }, [activeTab]);
 
+  // Re-renders the preview once typing pauses rather than on every keystroke.
+  useEffect(() => {
+    if (!previewInput.template.trim()) {
+      setTemplatePreview(null);
+      return undefined;
+    }
+
+    const timer = setTimeout(() => {
+      requestJSON("/api/app/templates/preview", {
+        method: "POST",
+        body: JSON.stringify(previewInput)
+      })
+        .then(({ rendered }) => setTemplatePreview({ rendered, error: null }))
+        .catch((error) =>
+          setTemplatePreview({
+            rendered: null,
+            error: String(error instanceof Error ? error.message : error)
+          })
+        );
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [previewInput]);
+
   useEffect(() => {
     saveStoredValue(STORAGE_KEYS.settings, settings);
     document.documentElement.setAttribute("data-theme", settings.theme);
@@ -210,6 +304,7 @@ function App() {
               <p><strong>Segment:</strong> ${latestMessage.segment}</p>
               <p><strong>Received:</strong> ${formatTimestamp(latestMessage.receivedAt)}</p>
               <p><strong>Text:</strong> ${latestMessage.text}</p>
+              ${renderAttachments(latestMessage.attachments)}
             </div>
           `
         : html`<p className="muted">No messages yet.</p>`}
@@ -281,7 +376,13 @@ function App() {
                               segment: policy.segment,
                               autoSend: Boolean(form.get("autoSend")),
                               requireHumanApproval: Boolean(form.get("requireHumanApproval")),
-                              template: String(form.get("template") || "")
+                              template: String(form.get("template") || ""),
+                              templateVariants: readLanguageFields(form, "template"),
+                              mediaTemplate: String(form.get("mediaTemplate") || ""),
+                              storyAutoSend: Boolean(form.get("storyAutoSend")),
+                              storyTemplate: String(form.get("storyTemplate") || ""),
+                              commentReplyMode: String(form.get("commentReplyMode") || "PRIVATE"),
+                              approvalIntents: String(form.get("approvalIntents") || "")
                             })
                           }),
                         `${policy.segment} policy updated.`
@@ -301,12 +402,49 @@ function App() {
                         />
                         Require human approval
                       </label>
+                      <label>
+                        <input
+                          type="checkbox"
+                          name="storyAutoSend"
+                          defaultChecked=${policy.storyAutoSend}
+                        />
+                        Auto send story replies
+                      </label>
                     </div>
                     <textarea
                       name="template"
                       defaultValue=${policy.template || ""}
                       placeholder="Optional template"
                     ></textarea>
+                    ${LANGUAGES.map(
+                      ({ code, label }) => html`
+                        <textarea
+                          key=${code}
+                          name=${`template_${code}`}
+                          defaultValue=${policy.templateVariants?.[code] || ""}
+                          placeholder=${`Optional template for messages detected as ${label}`}
+                        ></textarea>
+                      `
+                    )}
+                    <textarea
+                      name="mediaTemplate"
+                      defaultValue=${policy.mediaTemplate || ""}
+                      placeholder="Optional reply to media-only messages"
+                    ></textarea>
+                    <textarea
+                      name="storyTemplate"
+                      defaultValue=${policy.storyTemplate || ""}
+                      placeholder="Optional reply to story replies and mentions"
+                    ></textarea>
+                    <select name="commentReplyMode" defaultValue=${policy.commentReplyMode}>
+                      <option value="PRIVATE">Comments: private reply (DM)</option>
+                      <option value="PUBLIC">Comments: public reply</option>
+                    </select>
+                    <input
+                      name="approvalIntents"
+                      defaultValue=${(policy.approvalIntents || []).join(", ")}
+                      placeholder="Intents that always need approval, e.g. wholesale, collab_request"
+                    />
                     <button className="btn secondary" type="submit" disabled=${busy}>Save Policy</button>
                   </form>
                 </td>
@@ -317,6 +455,393 @@ function App() {
       </table>
     </section>
 
+    <section className="card">
+      <h2>Template Preview</h2>
+      <p className="muted">
+        Templates, rule replies and intent templates can use
+        ${TEMPLATE_VARIABLES.map((variable) => ` {{${variable}}}`).join(",")}. Add a default with
+        {{contact.name | "there"}} and branch with {{#if language == "es"}}...{{else}}...{{/if}}.
+      </p>
+      <form
+        className="stack"
+        onInput=${(event) => {
+          const form = new FormData(event.currentTarget);
+          setPreviewInput({
+            template: String(form.get("template") || ""),
+            segment: String(form.get("segment") || "STRANGER"),
+            intent: String(form.get("intent") || "general_question"),
+            language: String(form.get("language") || ""),
+            contactName: String(form.get("contactName") || "")
+          });
+        }}
+        onSubmit=${(event) => event.preventDefault()}
+      >
+        <textarea
+          name="template"
+          placeholder=${'Hi {{contact.name | "there"}}! {{#if business.hours}}We are open {{business.hours}} today.{{else}}We are closed today.{{/if}}'}
+        ></textarea>
+        <div className="row">
+          <select name="segment" defaultValue="STRANGER">
+            ${SEGMENTS.map((segment) => html`<option key=${segment} value=${segment}>${segment}</option>`)}
+          </select>
+          <select name="intent" defaultValue="general_question">
+            ${data.intents.map((intent) => html`<option key=${intent} value=${intent}>${intent}</option>`)}
+          </select>
+          <select name="language" defaultValue="">
+            <option value="">Language not detected</option>
+            ${LANGUAGES.map(({ code, label }) => html`<option key=${code} value=${code}>${label}</option>`)}
+          </select>
+          <input name="contactName" placeholder="Contact name" />
+        </div>
+      </form>
+      ${templatePreview
+        ? templatePreview.error
+          ? html`<p className="muted">${templatePreview.error}</p>`
+          : html`<p><strong>Renders as:</strong> ${templatePreview.rendered || "(empty, held for a human)"}</p>`
+        : null}
+    </section>
+
+    <section className="card">
+      <h2>Reply Rules</h2>
+      <p className="muted">
+        Keyword rules answer before the LLM. The highest priority match wins; no segments means all.
+        Contains matches whole words and tolerates plurals and typos (swapped letters in short keywords), whole word
+        is exact, and a keyword right after "not", "never", "don't" or a clause-opening "no" (or
+        after one of them and a verb) is ignored unless the verb is get or receive.
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Rule</th>
+            <th>Match</th>
+            <th>Intent</th>
+            <th>Reply</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${data.rules.length === 0
+            ? html`<tr><td colspan="5">No rules yet.</td></tr>`
+            : data.rules.map(
+                (rule) => html`
+                  <tr key=${rule.id}>
+                    <td>
+                      ${rule.name}
+                      <div className="muted">
+                        Priority ${rule.priority}${rule.enabled ? "" : " · disabled"}
+                        ${rule.segments.length > 0 ? ` · ${rule.segments.join(", ")}` : ""}
+                      </div>
+                    </td>
+                    <td>
+                      ${rule.matchType}
+                      <div className="muted">${rule.keywords.join(" | ")}</div>
+                      ${Object.entries(rule.variants || {}).map(
+                        ([code, variant]) => html`
+                          <div key=${code} className="muted">
+                            ${code}: ${variant.keywords.join(" | ") || "no extra keywords"}
+                            ${variant.reply ? " · own reply" : ""}
+                          </div>
+                        `
+                      )}
+                    </td>
+                    <td>${rule.intent} (${rule.confidence.toFixed(2)})</td>
+                    <td>${rule.reply}</td>
+                    <td>
+                      <div className="row">
+                        <button className="btn secondary" onClick=${() => setEditingRule(rule)}>Edit</button>
+                        <button
+                          className="btn secondary"
+                          disabled=${busy}
+                          onClick=${() =>
+                            void doAction(
+                              () =>
+                                requestJSON(`/api/app/rules/${rule.id}/delete`, {
+                                  method: "POST",
+                                  body: JSON.stringify({})
+                                }),
+                              `Rule ${rule.name} deleted.`
+                            )}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                `
+              )}
+        </tbody>
+      </table>
+      <form
+        key=${editingRule?.id || "new"}
+        className="stack"
+        onSubmit=${(event) => {
+          event.preventDefault();
+          const form = new FormData(event.currentTarget);
+          const name = String(form.get("name") || "");
+          // Editing posts to the rule's id so a rename keeps the same rule.
+          const url = editingRule ? `/api/app/rules/${editingRule.id}` : "/api/app/rules";
+          void doAction(async () => {
+            await requestJSON(url, {
+              method: "POST",
+              body: JSON.stringify({
+                name,
+                matchType: String(form.get("matchType") || "CONTAINS"),
+                keywords: String(form.get("keywords") || ""),
+                intent: String(form.get("intent") || ""),
+                confidence: String(form.get("confidence") || ""),
+                priority: String(form.get("priority") || "0"),
+                segments: form.getAll("segments").map(String),
+                enabled: Boolean(form.get("enabled")),
+                reply: String(form.get("reply") || ""),
+                variants: Object.fromEntries(
+                  LANGUAGES.map(({ code }) => [
+                    code,
+                    {
+                      keywords: String(form.get(`keywords_${code}`) || ""),
+                      reply: String(form.get(`reply_${code}`) || "")
+                    }
+                  ])
+                )
+              })
+            });
+            setEditingRule(null);
+          }, `Rule ${name} saved.`);
+        }}
+      >
+        <div className="row">
+          <input name="name" defaultValue=${editingRule?.name || ""} placeholder="Rule name" required />
+          <select name="matchType" defaultValue=${editingRule?.matchType || "CONTAINS"}>
+            <option value="CONTAINS">Contains</option>
+            <option value="WHOLE_WORD">Whole word</option>
+            <option value="REGEX">Regex</option>
+          </select>
+          <select name="intent" defaultValue=${editingRule?.intent || ""}>
+            ${data.intents.map((intent) => html`<option key=${intent} value=${intent}>${intent}</option>`)}
+          </select>
+          <input
+            name="confidence"
+            type="number"
+            min="0"
+            max="1"
+            step="0.01"
+            defaultValue=${editingRule?.confidence ?? 0.9}
+          />
+          <input name="priority" type="number" step="1" defaultValue=${editingRule?.priority ?? 0} />
+        </div>
+        <div className="row">
+          ${SEGMENTS.map(
+            (segment) => html`
+              <label key=${segment}>
+                <input
+                  type="checkbox"
+                  name="segments"
+                  value=${segment}
+                  defaultChecked=${Boolean(editingRule?.segments.includes(segment))}
+                />
+                ${segment}
+              </label>
+            `
+          )}
+          <label>
+            <input type="checkbox" name="enabled" defaultChecked=${editingRule ? editingRule.enabled : true} />
+            Enabled
+          </label>
+        </div>
+        <textarea
+          name="keywords"
+          defaultValue=${editingRule?.keywords.join("\n") || ""}
+          placeholder="One keyword or pattern per line"
+        ></textarea>
+        <textarea name="reply" defaultValue=${editingRule?.reply || ""} placeholder="Reply text"></textarea>
+        ${LANGUAGES.map(
+          ({ code, label }) => html`
+            <div key=${code} className="row">
+              <textarea
+                name=${`keywords_${code}`}
+                defaultValue=${editingRule?.variants?.[code]?.keywords.join("\n") || ""}
+                placeholder=${`${label} keywords, one per line`}
+              ></textarea>
+              <textarea
+                name=${`reply_${code}`}
+                defaultValue=${editingRule?.variants?.[code]?.reply || ""}
+                placeholder=${`${label} reply (defaults to the reply above)`}
+              ></textarea>
+            </div>
+          `
+        )}
+        <div className="row">
+          <button className="btn secondary" type="submit" disabled=${busy}>Save Rule</button>
+          ${editingRule
+            ? html`<button className="btn secondary" type="button" onClick=${() => setEditingRule(null)}>Cancel</button>`
+            : null}
+        </div>
+      </form>
+    </section>
+
+    <section className="card">
+      <h2>Rule Sandbox</h2>
+      <p className="muted">
+        Shows which template, rule and policy would handle a message. Nothing is sent.
+      </p>
+      <form
+        className="stack"
+        onSubmit=${(event) => {
+          event.preventDefault();
+          const form = new FormData(event.currentTarget);
+          setBusy(true);
+          setNotice("");
+          requestJSON("/api/app/rules/test", {
+            method: "POST",
+            body: JSON.stringify({
+              text: String(form.get("text") || ""),
+              segment: String(form.get("segment") || "STRANGER")
+            })
+          })
+            .then(setRuleTest)
+            .catch((error) => setNotice(String(error instanceof Error ? error.message : error)))
+            .finally(() => setBusy(false));
+        }}
+      >
+        <textarea name="text" placeholder="Sample customer message" required></textarea>
+        <div className="row">
+          <select name="segment" defaultValue="STRANGER">
+            ${SEGMENTS.map((segment) => html`<option key=${segment} value=${segment}>${segment}</option>`)}
+          </select>
+          <button className="btn secondary" type="submit" disabled=${busy}>Test</button>
+        </div>
+      </form>
+      ${ruleTest
+        ? html`
+            <div className="stack">
+              <p><strong>Path:</strong> ${RULE_TEST_PATHS[ruleTest.path]}</p>
+              <p><strong>Language:</strong> ${ruleTest.language || "not detected"}</p>
+              ${ruleTest.match ? html`<p>${formatRuleMatch(ruleTest.match)}</p>` : null}
+              <p>
+                <strong>Policy:</strong> ${ruleTest.policy.segment}
+                ${ruleTest.intentPolicy
+                  ? ` · intent override for ${ruleTest.intentPolicy.intent}`
+                  : ""}
+              </p>
+              ${ruleTest.intent
+                ? html`<p><strong>Intent:</strong> ${ruleTest.intent}</p>`
+                : null}
+              ${ruleTest.reply ? html`<p><strong>Reply:</strong> ${ruleTest.reply}</p>` : null}
+              ${ruleTest.wouldSend === null
+                ? null
+                : html`<p className="muted">
+                    ${ruleTest.wouldSend ? "Would auto-send." : `Held: ${ruleTest.skipReason}`}
+                  </p>`}
+            </div>
+          `
+        : null}
+    </section>
+
+    <section className="card">
+      <h2>Intent Routing</h2>
+      <p className="muted">
+        Per intent and segment overrides. Blank fields inherit the segment policy above.
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Intent</th>
+            <th>Segment</th>
+            <th>Auto Send</th>
+            <th>Approval</th>
+            <th>Min Confidence</th>
+            <th>Template</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${data.intentPolicies.length === 0
+            ? html`<tr><td colspan="7">No intent overrides yet.</td></tr>`
+            : data.intentPolicies.map(
+                (intentPolicy) => html`
+                  <tr key=${intentPolicy.id}>
+                    <td>${intentPolicy.intent}</td>
+                    <td>${intentPolicy.segment}</td>
+                    <td>${formatOverride(intentPolicy.autoSend)}</td>
+                    <td>${formatOverride(intentPolicy.requireHumanApproval)}</td>
+                    <td>${intentPolicy.minConfidence ?? "inherit"}</td>
+                    <td>${intentPolicy.template || html`<span className="muted">inherit</span>`}</td>
+                    <td>
+                      <button
+                        className="btn secondary"
+                        disabled=${busy}
+                        onClick=${() =>
+                          void doAction(
+                            () =>
+                              requestJSON(`/api/app/intent-policies/${intentPolicy.id}/delete`, {
+                                method: "POST",
+                                body: JSON.stringify({})
+                              }),
+                            `${intentPolicy.intent} override removed for ${intentPolicy.segment}.`
+                          )}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                `
+              )}
+        </tbody>
+      </table>
+      <form
+        className="stack"
+        onSubmit=${(event) => {
+          event.preventDefault();
+          const form = new FormData(event.currentTarget);
+          const intent = String(form.get("intent") || "");
+          const segment = String(form.get("segment") || "");
+          void doAction(
+            () =>
+              requestJSON("/api/app/intent-policies", {
+                method: "POST",
+                body: JSON.stringify({
+                  intent,
+                  segment,
+                  autoSend: String(form.get("autoSend") || ""),
+                  requireHumanApproval: String(form.get("requireHumanApproval") || ""),
+                  minConfidence: String(form.get("minConfidence") || ""),
+                  template: String(form.get("template") || "")
+                })
+              }),
+            `${intent} override saved for ${segment}.`
+          );
+        }}
+      >
+        <div className="row">
+          <select name="intent">
+            ${data.intents.map((intent) => html`<option key=${intent} value=${intent}>${intent}</option>`)}
+          </select>
+          <select name="segment">
+            ${SEGMENTS.map((segment) => html`<option key=${segment} value=${segment}>${segment}</option>`)}
+          </select>
+          <select name="autoSend" defaultValue="">
+            <option value="">Auto send: inherit</option>
+            <option value="true">Auto send: on</option>
+            <option value="false">Auto send: off</option>
+          </select>
+          <select name="requireHumanApproval" defaultValue="">
+            <option value="">Approval: inherit</option>
+            <option value="true">Approval: required</option>
+            <option value="false">Approval: not required</option>
+          </select>
+          <input
+            name="minConfidence"
+            type="number"
+            min="0"
+            max="1"
+            step="0.05"
+            placeholder="Min confidence (default 0.6)"
+          />
+        </div>
+        <textarea name="template" placeholder="Optional reply template for this intent"></textarea>
+        <button className="btn secondary" type="submit" disabled=${busy}>Save Override</button>
+      </form>
+    </section>
+
     <section className="card">
       <h2>Inbound Inbox</h2>
       <p className="muted">Edit suggested drafts and manually send replies.</p>
@@ -324,7 +849,7 @@ function App() {
         <thead>
           <tr>
             <th>Sender</th>
-            <th>Segment</th>
+            <th>Name / Segment</th>
             <th>Inbound</th>
             <th>Intent / Confidence</th>
             <th>Reply</th>
@@ -338,11 +863,43 @@ function App() {
                   <tr key=${message.id}>
                     <td>${message.senderIgId}</td>
                     <td>${senderSegmentLookup.get(message.senderIgId) || "STRANGER"}</td>
-                    <td>${message.text}</td>
+                    <td>
+                      ${message.deletedAt
+                        ? html`<span className="status-pill err">UNSENT</span>`
+                        : null}
+                      ${renderStoryBadge(message.story)}
+                      ${message.text}
+                      ${message.editedAt ? html` <span className="muted">(edited)</span>` : null}
+                      ${message.coalescedIntoId
+                        ? html`<p className="muted">Answered together with a later message.</p>`
+                        : null}
+                      ${renderAttachments(message.attachments)}
+                      ${message.reactions && message.reactions.length > 0
+                        ? html`<p className="muted">
+                            Reactions: ${message.reactions
+                              .map((reaction) => reaction.emoji || reaction.reaction || "reacted")
+                              .join(" ")}
+                          </p>`
+                        : null}
+                    </td>
                     <td>
                       ${message.intent || "n/a"} (${typeof message.confidence === "number"
                         ? message.confidence.toFixed(2)
                         : "n/a"})
+                      ${message.llmProvider
+                        ? html`<p className="muted">via ${message.llmProvider}</p>`
+                        : null}
+                      ${message.knowledgeArticleIds?.length
+                        ? html`<p className="muted">
+                            Knowledge: ${message.knowledgeArticleIds.length} article(s)
+                          </p>`
+                        : null}
+                      ${message.ruleMatch
+                        ? html`<p className="muted">${formatRuleMatch(message.ruleMatch)}</p>`
+                        : null}
+                      ${message.language
+                        ? html`<p className="muted">Language: ${message.language}</p>`
+                        : null}
                     </td>
                     <td>
                       <form
@@ -375,8 +932,16 @@ function App() {
                               [message.id]: event.target.value
                             }))}
                         ></textarea>
-                        <button className="btn secondary" type="submit" disabled=${busy || !connected}>
-                          ${connected ? "Send Reply" : "Connect Instagram First"}
+                        <button
+                          className="btn secondary"
+                          type="submit"
+                          disabled=${busy || !connected || Boolean(message.deletedAt)}
+                        >
+                          ${message.deletedAt
+                            ? "Unsent by Sender"
+                            : connected
+                              ? "Send Reply"
+                              : "Connect Instagram First"}
                         </button>
                       </form>
                     </td>
@@ -386,6 +951,57 @@ function App() {
         </tbody>
       </table>
     </section>
+
+    <section className="card">
+      <h2>Post Comments</h2>
+      <p className="muted">Comments are answered publicly or by private reply per segment policy.</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Commenter</th>
+            <th>Comment</th>
+            <th>Draft</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${(data.comments || []).length === 0
+            ? html`<tr><td colspan="4">No comments yet.</td></tr>`
+            : data.comments.map(
+                (comment) => html`
+                  <tr key=${comment.id}>
+                    <td>${comment.username ? `@${comment.username}` : comment.senderIgId}</td>
+                    <td>
+                      ${comment.text}
+                      <p className="muted">Media ${comment.mediaId}</p>
+                    </td>
+                    <td>
+                      ${comment.suggestedReply || "n/a"}
+                      ${comment.knowledgeArticleIds?.length
+                        ? html`<p className="muted">
+                            Knowledge: ${comment.knowledgeArticleIds.length} article(s)
+                          </p>`
+                        : null}
+                    </td>
+                    <td>
+                      <span
+                        className=${`status-pill ${comment.replyStatus === "SENT"
+                          ? "ok"
+                          : comment.replyStatus === "ERROR"
+                            ? "err"
+                            : "warn"}`}
+                      >
+                        ${comment.replyStatus || "PENDING"}
+                      </span>
+                      ${comment.replyMode ? html`<p className="muted">${comment.replyMode}</p>` : null}
+                      ${comment.replyError ? html`<p className="muted">${comment.replyError}</p>` : null}
+                    </td>
+                  </tr>
+                `
+              )}
+        </tbody>
+      </table>
+    </section>
   `;
 
   const contactsTab = html`
@@ -402,7 +1018,8 @@ function App() {
                 method: "POST",
                 body: JSON.stringify({
                   senderIgId: String(form.get("senderIgId") || ""),
-                  segment: String(form.get("segment") || "")
+                  segment: String(form.get("segment") || ""),
+                  name: String(form.get("name") || "")
                 })
               }),
             "Contact segment updated."
@@ -410,6 +1027,7 @@ function App() {
         }}
       >
         <input name="senderIgId" placeholder="Instagram sender ID" required />
+        <input name="name" placeholder="Name for {{contact.name}}" />
         <select name="segment">
           ${SEGMENTS.map((segment) => html`<option value=${segment}>${segment}</option>`)}
         </select>
@@ -420,7 +1038,7 @@ function App() {
         <thead>
           <tr>
             <th>Sender</th>
-            <th>Segment</th>
+            <th>Name / Segment</th>
           </tr>
         </thead>
         <tbody>
@@ -442,13 +1060,15 @@ function App() {
                                 method: "POST",
                                 body: JSON.stringify({
                                   senderIgId: contact.senderIgId,
-                                  segment: String(form.get("segment") || "")
+                                  segment: String(form.get("segment") || ""),
+                                  name: String(form.get("name") || "")
                                 })
                               }),
-                            "Contact segment saved."
+                            "Contact saved."
                           );
                         }}
                       >
+                        <input name="name" defaultValue=${contact.name || ""} placeholder="Name" />
                         <select name="segment" defaultValue=${contact.segment}>
                           ${SEGMENTS.map((segment) => html`<option value=${segment}>${segment}</option>`)}
                         </select>
@@ -476,6 +1096,14 @@ function App() {
         <p><strong>Connected At:</strong> ${formatTimestamp(data.connection.connectedAt)}</p>
         <p><strong>OAuth Redirect:</strong> ${data.oauth.configuredRedirect || "Inferred from host"}</p>
         <p><strong>Last Error:</strong> ${data.connection.lastError || "None"}</p>
+        <p>
+          <strong>Webhook:</strong>
+          ${data.connection.webhookVerifiedAt
+            ? html`<span className="status-pill ok">SUBSCRIBED</span> verified ${formatTimestamp(
+                data.connection.webhookVerifiedAt
+              )}`
+            : html`<span className="status-pill warn">NOT VERIFIED</span>`}
+        </p>
       </div>
 
       <div className="actions">
@@ -1,20 +1,51 @@
-export type QueueWorker<T> = (job: T) => Promise<void>;
+import {
+  DeadLetterHandler,
+  EnqueueOptions,
+  JobQueue,
+  PartitionKeyFn,
+  QueueStopOptions,
+  QueueStopResult,
+  QueueWorker,
+  waitForIdle
+} from "./jobQueue";
+import { computeBackoffMs, RetryOptions, shouldRetry } from "./retry";
 
 type QueueOptions<T> = {
   concurrency?: number;
   onError?: (error: unknown, job: T) => void;
+  retry?: RetryOptions;
+  onDeadLetter?: DeadLetterHandler<T>;
+  partitionKey?: PartitionKeyFn<T>;
 };
 
-export class InMemoryQueue<T> {
-  private readonly queue: T[] = [];
+type QueueEntry<T> = {
+  job: T;
+  attempt: number;
+  resume: boolean;
+  partition?: string;
+  holdsPartition: boolean;
+};
+
+export class InMemoryQueue<T> implements JobQueue<T> {
+  private readonly queue: QueueEntry<T>[] = [];
   private readonly concurrency: number;
   private readonly onError?: (error: unknown, job: T) => void;
+  private readonly retry?: RetryOptions;
+  private readonly onDeadLetter?: DeadLetterHandler<T>;
+  private readonly partitionKey?: PartitionKeyFn<T>;
+  private readonly activePartitions = new Set<string>();
+  private readonly retryTimers = new Map<NodeJS.Timeout, QueueEntry<T>>();
+  private readonly delayTimers = new Map<NodeJS.Timeout, QueueEntry<T>>();
   private worker?: QueueWorker<T>;
+  private stopping = false;
   private inFlight = 0;
 
   constructor(options: QueueOptions<T> = {}) {
     this.concurrency = options.concurrency ?? 1;
     this.onError = options.onError;
+    this.retry = options.retry;
+    this.onDeadLetter = options.onDeadLetter;
+    this.partitionKey = options.partitionKey;
   }
 
   start(worker: QueueWorker<T>): void {
@@ -22,26 +53,112 @@ export class InMemoryQueue<T> {
     void this.drain();
   }
 
-  enqueue(job: T): void {
-    this.queue.push(job);
+  enqueue(job: T, options: EnqueueOptions = {}): void {
+    const entry: QueueEntry<T> = {
+      job,
+      attempt: 1,
+      resume: options.resume ?? false,
+      partition: this.partitionKey?.(job),
+      holdsPartition: false
+    };
+
+    if (options.delayMs && options.delayMs > 0 && !this.stopping) {
+      const timer = setTimeout(() => {
+        this.delayTimers.delete(timer);
+        this.queue.push(entry);
+        void this.drain();
+      }, options.delayMs);
+      this.delayTimers.set(timer, entry);
+      return;
+    }
+
+    this.queue.push(entry);
     void this.drain();
   }
 
+  async stop(options: QueueStopOptions = {}): Promise<QueueStopResult<T>> {
+    this.stopping = true;
+    for (const [timer, entry] of this.retryTimers) {
+      clearTimeout(timer);
+      this.queue.push({ ...entry, attempt: entry.attempt + 1 });
+    }
+    this.retryTimers.clear();
+    for (const [timer, entry] of this.delayTimers) {
+      clearTimeout(timer);
+      this.queue.push(entry);
+    }
+    this.delayTimers.clear();
+
+    const drained = await waitForIdle(() => this.inFlight, options.timeoutMs ?? 0);
+    this.worker = undefined;
+
+    return {
+      drained,
+      inFlight: this.inFlight,
+      remaining: this.queue
+        .splice(0)
+        .map((entry) => ({ job: entry.job, attempts: entry.attempt - 1 }))
+    };
+  }
+
   private async drain(): Promise<void> {
-    if (!this.worker) return;
+    if (!this.worker || this.stopping) return;
+
+    while (this.inFlight < this.concurrency) {
+      const index = this.queue.findIndex((entry) => this.isRunnable(entry));
+      if (index === -1) break;
 
-    while (this.inFlight < this.concurrency && this.queue.length > 0) {
-      const job = this.queue.shift();
-      if (job === undefined) continue;
+      const [entry] = this.queue.splice(index, 1);
+      if (entry.partition !== undefined) {
+        this.activePartitions.add(entry.partition);
+      }
 
       this.inFlight += 1;
 
-      void this.worker(job)
-        .catch((error) => this.onError?.(error, job))
+      void this.worker(entry.job, { attempt: entry.attempt, resume: entry.resume })
+        .then(() => this.releasePartition(entry))
+        .catch((error) => this.handleFailure(entry, error))
         .finally(() => {
           this.inFlight -= 1;
           void this.drain();
         });
     }
   }
+
+  private isRunnable(entry: QueueEntry<T>): boolean {
+    if (entry.partition === undefined || entry.holdsPartition) return true;
+    return !this.activePartitions.has(entry.partition);
+  }
+
+  private releasePartition(entry: QueueEntry<T>): void {
+    if (entry.partition !== undefined) {
+      this.activePartitions.delete(entry.partition);
+    }
+  }
+
+  private async handleFailure(entry: QueueEntry<T>, error: unknown): Promise<void> {
+    this.onError?.(error, entry.job);
+
+    if (this.retry && shouldRetry(error, entry.attempt, this.retry)) {
+      if (this.stopping) {
+        this.queue.push({ ...entry, attempt: entry.attempt + 1 });
+        return;
+      }
+
+      // The partition stays reserved while the retry waits so later jobs for
+      // the same key cannot overtake it.
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.queue.unshift({ ...entry, attempt: entry.attempt + 1, holdsPartition: true });
+        void this.drain();
+      }, computeBackoffMs(entry.attempt, this.retry));
+      this.retryTimers.set(timer, entry);
+      return;
+    }
+
+    this.releasePartition(entry);
+    await Promise.resolve(this.onDeadLetter?.(entry.job, error, entry.attempt)).catch(
+      (deadLetterError) => this.onError?.(deadLetterError, entry.job)
+    );
+  }
 }
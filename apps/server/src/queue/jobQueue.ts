@@ -0,0 +1,56 @@
+// `resume` marks a job replayed from the dead-letter store: its attempt count
+// starts over, but the records its earlier run wrote already exist.
+export type JobContext = {
+  attempt: number;
+  resume?: boolean;
+};
+
+export type QueueWorker<T> = (job: T, context?: JobContext) => Promise<void>;
+
+export type PartitionKeyFn<T> = (job: T) => string | undefined;
+
+export type DeadLetterHandler<T> = (
+  job: T,
+  error: unknown,
+  attempts: number
+) => void | Promise<void>;
+
+export type EnqueueOptions = {
+  delayMs?: number;
+  resume?: boolean;
+};
+
+export type QueueStopOptions = {
+  timeoutMs?: number;
+};
+
+// `attempts` counts the runs a job already used before it was left unprocessed.
+export type UnprocessedJob<T> = {
+  job: T;
+  attempts: number;
+};
+
+export type QueueStopResult<T> = {
+  drained: boolean;
+  inFlight: number;
+  remaining: UnprocessedJob<T>[];
+};
+
+export interface JobQueue<T> {
+  start(worker: QueueWorker<T>): void;
+  enqueue(job: T, options?: EnqueueOptions): void | Promise<void>;
+  stop(options?: QueueStopOptions): Promise<QueueStopResult<T>>;
+}
+
+export async function waitForIdle(
+  getInFlight: () => number,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (getInFlight() > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => {
+      setTimeout(resolve, 10);
+    });
+  }
+  return getInFlight() === 0;
+}
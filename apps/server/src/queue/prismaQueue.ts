@@ -0,0 +1,246 @@
+import { JobStatus, Prisma, PrismaClient } from "@prisma/client";
+import {
+  DeadLetterHandler,
+  EnqueueOptions,
+  JobQueue,
+  PartitionKeyFn,
+  QueueStopOptions,
+  QueueStopResult,
+  QueueWorker,
+  waitForIdle
+} from "./jobQueue";
+import { computeBackoffMs, RetryOptions, shouldRetry } from "./retry";
+
+type PrismaQueueOptions<T> = {
+  prisma: PrismaClient;
+  queueName: string;
+  concurrency?: number;
+  pollIntervalMs?: number;
+  lockTimeoutMs?: number;
+  onError?: (error: unknown, job: T) => void;
+  onPollError?: (error: unknown) => void;
+  retry?: RetryOptions;
+  onDeadLetter?: DeadLetterHandler<T>;
+  partitionKey?: PartitionKeyFn<T>;
+};
+
+type ClaimedJob = {
+  id: string;
+  payload: unknown;
+  attempts: number;
+  resume: boolean;
+  sequence: number;
+};
+
+export class PrismaJobQueue<T> implements JobQueue<T> {
+  private readonly prisma: PrismaClient;
+  private readonly queueName: string;
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly onError?: (error: unknown, job: T) => void;
+  private readonly onPollError?: (error: unknown) => void;
+  private readonly retry?: RetryOptions;
+  private readonly onDeadLetter?: DeadLetterHandler<T>;
+  private readonly partitionKey?: PartitionKeyFn<T>;
+  private worker?: QueueWorker<T>;
+  private running = false;
+  private inFlight = 0;
+  private draining = false;
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(options: PrismaQueueOptions<T>) {
+    this.prisma = options.prisma;
+    this.queueName = options.queueName;
+    this.concurrency = options.concurrency ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5 * 60 * 1_000;
+    this.onError = options.onError;
+    this.onPollError = options.onPollError;
+    this.retry = options.retry;
+    this.onDeadLetter = options.onDeadLetter;
+    this.partitionKey = options.partitionKey;
+  }
+
+  start(worker: QueueWorker<T>): void {
+    this.worker = worker;
+    this.running = true;
+    void this.recoverStaleJobs()
+      .catch((error) => this.onPollError?.(error))
+      .finally(() => this.drain());
+  }
+
+  async enqueue(job: T, options: EnqueueOptions = {}): Promise<void> {
+    await this.prisma.job.create({
+      data: {
+        queue: this.queueName,
+        partitionKey: this.partitionKey?.(job) ?? null,
+        payload: job as Prisma.InputJsonValue,
+        resume: options.resume ?? false,
+        ...(options.delayMs && options.delayMs > 0
+          ? { availableAt: new Date(Date.now() + options.delayMs) }
+          : {})
+      }
+    });
+    void this.drain();
+  }
+
+  async stop(options: QueueStopOptions = {}): Promise<QueueStopResult<T>> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    const drained = await waitForIdle(() => this.inFlight, options.timeoutMs ?? 0);
+    this.worker = undefined;
+
+    // Pending rows are already durable and are picked up again on next boot.
+    return { drained, inFlight: this.inFlight, remaining: [] };
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    await this.prisma.job.updateMany({
+      where: {
+        queue: this.queueName,
+        status: JobStatus.PROCESSING,
+        lockedUntil: { lt: new Date() }
+      },
+      data: {
+        status: JobStatus.PENDING,
+        lockedUntil: null
+      }
+    });
+  }
+
+  private async drain(): Promise<void> {
+    if (!this.running || this.draining) return;
+
+    this.draining = true;
+    try {
+      while (this.running && this.inFlight < this.concurrency) {
+        const claimed = await this.claim(this.concurrency - this.inFlight);
+        if (claimed.length === 0) break;
+
+        for (const record of claimed) {
+          this.inFlight += 1;
+          void this.run(record).finally(() => {
+            this.inFlight -= 1;
+            void this.drain();
+          });
+        }
+      }
+    } catch (error) {
+      this.onPollError?.(error);
+    } finally {
+      this.draining = false;
+      this.schedulePoll();
+    }
+  }
+
+  private schedulePoll(): void {
+    if (!this.running) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = undefined;
+      void this.drain();
+    }, this.pollIntervalMs);
+  }
+
+  // Jobs are ordered by `sequence`, not `createdAt`: one webhook can enqueue
+  // several messages within the same millisecond. Only the lowest unfinished
+  // sequence of a partition is claimable, and nothing is while one holds a
+  // live lock, so a claim never takes two jobs with the same partition key.
+  private async claim(limit: number): Promise<ClaimedJob[]> {
+    const rows = await this.prisma.$queryRaw<ClaimedJob[]>(Prisma.sql`
+      UPDATE "Job"
+      SET "status" = 'PROCESSING'::"JobStatus",
+          "attempts" = "attempts" + 1,
+          "lockedUntil" = NOW() + (${this.lockTimeoutMs} * INTERVAL '1 millisecond'),
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT j."id" FROM "Job" j
+        WHERE j."queue" = ${this.queueName}
+          AND (
+            (j."status" = 'PENDING'::"JobStatus" AND j."availableAt" <= NOW())
+            OR (j."status" = 'PROCESSING'::"JobStatus" AND j."lockedUntil" < NOW())
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM "Job" p
+            WHERE p."queue" = j."queue"
+              AND p."partitionKey" = j."partitionKey"
+              AND p."id" <> j."id"
+              AND p."status" IN ('PENDING'::"JobStatus", 'PROCESSING'::"JobStatus")
+              AND (
+                (p."status" = 'PROCESSING'::"JobStatus" AND p."lockedUntil" >= NOW())
+                OR p."sequence" < j."sequence"
+              )
+          )
+        ORDER BY j."sequence" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "payload", "attempts", "resume", "sequence"
+    `);
+
+    return [...rows].sort((a, b) => a.sequence - b.sequence);
+  }
+
+  private async run(record: ClaimedJob): Promise<void> {
+    const job = record.payload as T;
+    const worker = this.worker;
+
+    if (!worker || !this.running) {
+      await this.prisma.job
+        .update({
+          where: { id: record.id },
+          data: { status: JobStatus.PENDING, lockedUntil: null }
+        })
+        .catch((error) => this.onPollError?.(error));
+      return;
+    }
+
+    try {
+      await worker(job, { attempt: record.attempts, resume: record.resume });
+      // Finished jobs are removed so the table and the partition check in
+      // claim() only ever see outstanding work.
+      await this.prisma.job.delete({ where: { id: record.id } });
+    } catch (error) {
+      this.onError?.(error, job);
+      await this.handleFailure(record, job, error).catch((updateError) =>
+        this.onPollError?.(updateError)
+      );
+    }
+  }
+
+  private async handleFailure(record: ClaimedJob, job: T, error: unknown): Promise<void> {
+    if (this.retry && shouldRetry(error, record.attempts, this.retry)) {
+      const delayMs = computeBackoffMs(record.attempts, this.retry);
+      await this.prisma.job.update({
+        where: { id: record.id },
+        data: {
+          status: JobStatus.PENDING,
+          lockedUntil: null,
+          availableAt: new Date(Date.now() + delayMs),
+          lastError: toErrorMessage(error)
+        }
+      });
+      return;
+    }
+
+    await this.prisma.job.update({
+      where: { id: record.id },
+      data: {
+        status: JobStatus.FAILED,
+        lockedUntil: null,
+        lastError: toErrorMessage(error)
+      }
+    });
+    await this.onDeadLetter?.(job, error, record.attempts);
+  }
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
@@ -0,0 +1,25 @@
+export type RetryOptions = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isRetryable: (error: unknown) => boolean;
+};
+
+export function shouldRetry(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions | undefined
+): boolean {
+  if (!options) return false;
+  return attempt < options.maxAttempts && options.isRetryable(error);
+}
+
+export function computeBackoffMs(
+  attempt: number,
+  options: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">,
+  random: () => number = Math.random
+): number {
+  const exponential = options.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(options.maxDelayMs, exponential);
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
@@ -1,16 +1,75 @@
-import { ContactSegment, MessageDirection, PrismaClient } from "@prisma/client";
+import {
+  CommentReplyMode,
+  ContactSegment,
+  MessageDirection,
+  PayloadAction,
+  PrismaClient
+} from "@prisma/client";
 import { FastifyBaseLogger, FastifyInstance } from "fastify";
 import { Env } from "../config/env";
+import { JobQueue } from "../queue/jobQueue";
+import {
+  discardDeadLetter,
+  listDeadLetters,
+  requeueDeadLetter
+} from "../services/deadLetters";
 import { IgService } from "../services/ig";
+import {
+  deleteIntent,
+  findUnknownIntents,
+  isBuiltInIntent,
+  listIntents,
+  parseIntentNames,
+  saveIntent
+} from "../services/intents";
+import {
+  deleteKnowledgeArticle,
+  KnowledgeArticleInput,
+  listKnowledgeArticles,
+  saveKnowledgeArticle
+} from "../services/knowledge";
+import {
+  deletePayloadHandler,
+  isPayloadAction,
+  listPayloadHandlers,
+  PAYLOAD_ACTIONS,
+  PayloadHandlerInput,
+  savePayloadHandler
+} from "../services/payloadHandlers";
 import {
   CONTACT_SEGMENTS,
   ensureAllPolicies,
+  isCommentReplyMode,
   isContactSegment
 } from "../services/policy";
+import { findTemplateError } from "../services/templates";
+import { IntentSpec, intentNameSchema } from "../types/llm";
+import { WebhookJob } from "../types/meta";
+
+type PayloadHandlerBody = {
+  payload?: string;
+  action?: string;
+  reply?: string;
+  segment?: string;
+  enabled?: boolean | "on";
+};
+
+type IntentBody = {
+  name?: string;
+  description?: string;
+  examples?: string | string[];
+};
+
+type KnowledgeArticleBody = {
+  title?: string;
+  body?: string;
+  enabled?: boolean | "on";
+};
 
 type AdminRouteDeps = {
   prisma: PrismaClient;
   ig: IgService;
+  queue: JobQueue<WebhookJob>;
   env: Env;
   logger: FastifyBaseLogger;
 };
@@ -90,6 +149,11 @@ export function registerAdminRoutes(
       .map((policy) => {
         const autoChecked = policy.autoSend ? "checked" : "";
         const approvalChecked = policy.requireHumanApproval ? "checked" : "";
+        const storyAutoChecked = policy.storyAutoSend ? "checked" : "";
+        const privateSelected =
+          policy.commentReplyMode === CommentReplyMode.PRIVATE ? "selected" : "";
+        const publicSelected =
+          policy.commentReplyMode === CommentReplyMode.PUBLIC ? "selected" : "";
 
         return `
           <tr>
@@ -105,11 +169,39 @@ export function registerAdminRoutes(
                   <input type="checkbox" name="requireHumanApproval" ${approvalChecked} />
                   Require approval
                 </label>
+                <label style="margin-left: 12px;">
+                  <input type="checkbox" name="storyAutoSend" ${storyAutoChecked} />
+                  Auto send story replies
+                </label>
                 <div style="margin-top: 8px;">
                   <textarea name="template" rows="3" cols="70">${escapeHtml(
                     policy.template ?? ""
                   )}</textarea>
                 </div>
+                <div style="margin-top: 8px;">
+                  <textarea name="mediaTemplate" rows="2" cols="70" placeholder="Reply to media-only messages">${escapeHtml(
+                    policy.mediaTemplate ?? ""
+                  )}</textarea>
+                </div>
+                <div style="margin-top: 8px;">
+                  <textarea name="storyTemplate" rows="2" cols="70" placeholder="Reply to story replies and mentions">${escapeHtml(
+                    policy.storyTemplate ?? ""
+                  )}</textarea>
+                </div>
+                <div style="margin-top: 8px;">
+                  <label>
+                    Comment replies
+                    <select name="commentReplyMode">
+                      <option value="PRIVATE" ${privateSelected}>Private reply (DM)</option>
+                      <option value="PUBLIC" ${publicSelected}>Public reply</option>
+                    </select>
+                  </label>
+                </div>
+                <div style="margin-top: 8px;">
+                  <input name="approvalIntents" size="70" placeholder="Intents that always need approval, e.g. wholesale, collab_request" value="${escapeHtml(
+                    policy.approvalIntents.join(", ")
+                  )}" />
+                </div>
                 <button type="submit">Update Policy</button>
               </form>
             </td>
@@ -133,7 +225,7 @@ export function registerAdminRoutes(
         </head>
         <body>
           <h1>InstaReply Admin</h1>
-          <p><a href="/app">Open frontend console</a></p>
+          <p><a href="/app">Open frontend console</a> | <a href="/admin/dead-letters">Dead-letter jobs</a> | <a href="/admin/payload-handlers">Payload handlers</a> | <a href="/admin/knowledge">Knowledge base</a> | <a href="/admin/intents">Intents</a></p>
           <h2>Segment Policies</h2>
           <p>Set auto-send behavior and optional template per audience segment.</p>
           <table>
@@ -216,6 +308,11 @@ export function registerAdminRoutes(
       autoSend?: "on";
       requireHumanApproval?: "on";
       template?: string;
+      mediaTemplate?: string;
+      storyAutoSend?: "on";
+      storyTemplate?: string;
+      commentReplyMode?: string;
+      approvalIntents?: string;
     };
   }>("/admin/policy", async (request, reply) => {
     const segment = request.body?.segment?.trim();
@@ -224,22 +321,50 @@ export function registerAdminRoutes(
       return reply.code(400).send({ error: "Valid segment is required" });
     }
 
+    const approvalIntents = parseIntentNames(request.body?.approvalIntents);
+    const unknownIntents = await findUnknownIntents(deps.prisma, approvalIntents);
+    if (unknownIntents.length > 0) {
+      return reply.code(400).send({ error: `Unknown intents: ${unknownIntents.join(", ")}` });
+    }
+
     const template = request.body?.template?.trim() ?? "";
+    const mediaTemplate = request.body?.mediaTemplate?.trim() ?? "";
+    const storyTemplate = request.body?.storyTemplate?.trim() ?? "";
+    const templateError = findTemplateError({ template, mediaTemplate, storyTemplate });
+    if (templateError) {
+      return reply.code(400).send({ error: templateError });
+    }
+
+    const requestedCommentMode = request.body?.commentReplyMode?.trim() ?? "";
+    const commentReplyMode = isCommentReplyMode(requestedCommentMode)
+      ? requestedCommentMode
+      : CommentReplyMode.PRIVATE;
     const autoSend = request.body?.autoSend === "on";
     const requireHumanApproval = request.body?.requireHumanApproval === "on";
+    const storyAutoSend = request.body?.storyAutoSend === "on";
 
     await deps.prisma.replyPolicy.upsert({
       where: { segment },
       update: {
         autoSend,
         requireHumanApproval,
-        template: template.length > 0 ? template : null
+        template: template.length > 0 ? template : null,
+        mediaTemplate: mediaTemplate.length > 0 ? mediaTemplate : null,
+        storyAutoSend,
+        storyTemplate: storyTemplate.length > 0 ? storyTemplate : null,
+        commentReplyMode,
+        approvalIntents
       },
       create: {
         segment,
         autoSend,
         requireHumanApproval,
-        template: template.length > 0 ? template : null
+        template: template.length > 0 ? template : null,
+        mediaTemplate: mediaTemplate.length > 0 ? mediaTemplate : null,
+        storyAutoSend,
+        storyTemplate: storyTemplate.length > 0 ? storyTemplate : null,
+        commentReplyMode,
+        approvalIntents
       }
     });
 
@@ -264,6 +389,10 @@ export function registerAdminRoutes(
         return reply.code(404).send({ error: "Inbound message not found" });
       }
 
+      if (inbound.deletedAt) {
+        return reply.code(409).send({ error: "Message was unsent by the sender" });
+      }
+
       try {
         const send = await deps.ig.sendMessage(inbound.senderIgId, replyText);
 
@@ -302,6 +431,533 @@ export function registerAdminRoutes(
       }
     }
   );
+
+  registerDeadLetterRoutes(app, deps);
+  registerPayloadHandlerRoutes(app, deps);
+  registerKnowledgeRoutes(app, deps);
+  registerIntentRoutes(app, deps);
+}
+
+function registerDeadLetterRoutes(app: FastifyInstance, deps: AdminRouteDeps): void {
+  app.get("/admin/dead-letters", async (_request, reply) => {
+    const deadLetters = await listDeadLetters(deps.prisma);
+
+    const rows = deadLetters
+      .map((deadLetter) => {
+        const payload = JSON.stringify(deadLetter.payload, null, 2);
+
+        return `
+          <tr>
+            <td>${escapeHtml(deadLetter.id)}</td>
+            <td>${escapeHtml(deadLetter.queue)}</td>
+            <td>${deadLetter.attempts}</td>
+            <td>${escapeHtml(deadLetter.failedAt.toISOString())}</td>
+            <td>${escapeHtml(deadLetter.lastError ?? "")}</td>
+            <td><details><summary>View</summary><pre>${escapeHtml(payload)}</pre></details></td>
+            <td>
+              <form method="POST" action="/admin/dead-letters/${escapeHtml(deadLetter.id)}/requeue">
+                <button type="submit">Requeue</button>
+              </form>
+              <form method="POST" action="/admin/dead-letters/${escapeHtml(deadLetter.id)}/discard">
+                <button type="submit">Discard</button>
+              </form>
+            </td>
+          </tr>
+        `;
+      })
+      .join("");
+
+    const html = `
+      <!doctype html>
+      <html>
+        <head>
+          <meta charset="utf-8" />
+          <title>InstaReply Dead-Letter Jobs</title>
+          <style>
+            body { font-family: sans-serif; margin: 24px; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border: 1px solid #ccc; padding: 8px; vertical-align: top; }
+            pre { white-space: pre-wrap; max-width: 480px; }
+          </style>
+        </head>
+        <body>
+          <h1>Dead-Letter Jobs</h1>
+          <p><a href="/admin">Back to admin</a></p>
+          <p>Webhook jobs that failed permanently or ran out of retry attempts.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>ID</th>
+                <th>Queue</th>
+                <th>Attempts</th>
+                <th>Failed At</th>
+                <th>Last Error</th>
+                <th>Payload</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>${rows || `<tr><td colspan="7">No dead-letter jobs.</td></tr>`}</tbody>
+          </table>
+        </body>
+      </html>
+    `;
+
+    reply.type("text/html").send(html);
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/admin/dead-letters/:id/requeue",
+    async (request, reply) => {
+      const requeued = await requeueDeadLetter(deps.prisma, deps.queue, request.params.id);
+      if (!requeued) {
+        return reply.code(404).send({ error: "Dead-letter job not found" });
+      }
+      return reply.redirect("/admin/dead-letters");
+    }
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/admin/dead-letters/:id/discard",
+    async (request, reply) => {
+      const discarded = await discardDeadLetter(deps.prisma, request.params.id);
+      if (!discarded) {
+        return reply.code(404).send({ error: "Dead-letter job not found" });
+      }
+      return reply.redirect("/admin/dead-letters");
+    }
+  );
+
+  app.get("/api/admin/dead-letters", async (_request, reply) => {
+    const deadLetters = await listDeadLetters(deps.prisma);
+    return reply.send({ deadLetters });
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/api/admin/dead-letters/:id/requeue",
+    async (request, reply) => {
+      const requeued = await requeueDeadLetter(deps.prisma, deps.queue, request.params.id);
+      if (!requeued) {
+        return reply.code(404).send({ error: "Dead-letter job not found" });
+      }
+      return reply.send({ ok: true, deadLetter: requeued });
+    }
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/api/admin/dead-letters/:id/discard",
+    async (request, reply) => {
+      const discarded = await discardDeadLetter(deps.prisma, request.params.id);
+      if (!discarded) {
+        return reply.code(404).send({ error: "Dead-letter job not found" });
+      }
+      return reply.send({ ok: true, deadLetter: discarded });
+    }
+  );
+}
+
+function registerPayloadHandlerRoutes(app: FastifyInstance, deps: AdminRouteDeps): void {
+  app.get("/admin/payload-handlers", async (_request, reply) => {
+    const handlers = await listPayloadHandlers(deps.prisma);
+    const actionOptions = PAYLOAD_ACTIONS.map(
+      (action) => `<option value="${action}">${action}</option>`
+    ).join("");
+    const segmentOptions = [
+      `<option value="">(none)</option>`,
+      ...CONTACT_SEGMENTS.map((segment) => `<option value="${segment}">${segment}</option>`)
+    ].join("");
+
+    const rows = handlers
+      .map(
+        (handler) => `
+          <tr>
+            <td>${escapeHtml(handler.payload)}</td>
+            <td>${escapeHtml(handler.action)}</td>
+            <td>${escapeHtml(handler.reply ?? "")}</td>
+            <td>${escapeHtml(handler.segment ?? "")}</td>
+            <td>${handler.enabled ? "yes" : "no"}</td>
+            <td>
+              <form method="POST" action="/admin/payload-handlers/${escapeHtml(handler.id)}/delete">
+                <button type="submit">Delete</button>
+              </form>
+            </td>
+          </tr>
+        `
+      )
+      .join("");
+
+    const html = `
+      <!doctype html>
+      <html>
+        <head>
+          <meta charset="utf-8" />
+          <title>InstaReply Payload Handlers</title>
+          <style>
+            body { font-family: sans-serif; margin: 24px; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border: 1px solid #ccc; padding: 8px; vertical-align: top; }
+            form.editor { display: grid; gap: 8px; max-width: 520px; margin-top: 24px; }
+          </style>
+        </head>
+        <body>
+          <h1>Payload Handlers</h1>
+          <p><a href="/admin">Back to admin</a></p>
+          <p>Button and quick-reply payloads are matched here before keyword rules and the LLM.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Payload</th>
+                <th>Action</th>
+                <th>Reply</th>
+                <th>Segment</th>
+                <th>Enabled</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>${rows || `<tr><td colspan="6">No payload handlers.</td></tr>`}</tbody>
+          </table>
+          <form method="POST" action="/admin/payload-handlers" class="editor">
+            <h2>Add or update handler</h2>
+            <input name="payload" placeholder="Payload, e.g. STORE_HOURS" required />
+            <select name="action">${actionOptions}</select>
+            <textarea name="reply" rows="3" placeholder="Reply text (required for REPLY)"></textarea>
+            <select name="segment">${segmentOptions}</select>
+            <label><input type="checkbox" name="enabled" checked /> Enabled</label>
+            <button type="submit">Save Handler</button>
+          </form>
+        </body>
+      </html>
+    `;
+
+    reply.type("text/html").send(html);
+  });
+
+  app.post<{ Body: PayloadHandlerBody }>("/admin/payload-handlers", async (request, reply) => {
+    const input = toPayloadHandlerInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    await savePayloadHandler(deps.prisma, input);
+    return reply.redirect("/admin/payload-handlers");
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/admin/payload-handlers/:id/delete",
+    async (request, reply) => {
+      const deleted = await deletePayloadHandler(deps.prisma, request.params.id);
+      if (!deleted) {
+        return reply.code(404).send({ error: "Payload handler not found" });
+      }
+      return reply.redirect("/admin/payload-handlers");
+    }
+  );
+
+  app.get("/api/admin/payload-handlers", async (_request, reply) => {
+    const handlers = await listPayloadHandlers(deps.prisma);
+    return reply.send({ handlers });
+  });
+
+  app.post<{ Body: PayloadHandlerBody }>(
+    "/api/admin/payload-handlers",
+    async (request, reply) => {
+      const input = toPayloadHandlerInput(request.body);
+      if (typeof input === "string") {
+        return reply.code(400).send({ error: input });
+      }
+
+      const handler = await savePayloadHandler(deps.prisma, input);
+      return reply.send({ ok: true, handler });
+    }
+  );
+
+  app.post<{ Params: { id: string } }>(
+    "/api/admin/payload-handlers/:id/delete",
+    async (request, reply) => {
+      const deleted = await deletePayloadHandler(deps.prisma, request.params.id);
+      if (!deleted) {
+        return reply.code(404).send({ error: "Payload handler not found" });
+      }
+      return reply.send({ ok: true, handler: deleted });
+    }
+  );
+}
+
+function toPayloadHandlerInput(body: PayloadHandlerBody | undefined): PayloadHandlerInput | string {
+  const payload = body?.payload?.trim() ?? "";
+  const action = body?.action?.trim() ?? "";
+  const replyText = body?.reply?.trim() ?? "";
+  const segment = body?.segment?.trim() ?? "";
+
+  if (!payload) return "payload is required";
+  if (!isPayloadAction(action)) return "Valid action is required";
+  if (segment && !isContactSegment(segment)) return "Valid segment is required";
+  if (action === PayloadAction.REPLY && !replyText) return "reply is required for REPLY handlers";
+  if (action === PayloadAction.SET_SEGMENT && !segment) return "segment is required for SET_SEGMENT handlers";
+
+  const templateError = findTemplateError({ reply: replyText });
+  if (templateError) return templateError;
+
+  return {
+    payload,
+    action,
+    reply: replyText.length > 0 ? replyText : null,
+    segment: segment && isContactSegment(segment) ? segment : null,
+    enabled: body?.enabled === true || body?.enabled === "on"
+  };
+}
+
+function registerKnowledgeRoutes(app: FastifyInstance, deps: AdminRouteDeps): void {
+  app.get("/admin/knowledge", async (_request, reply) => {
+    const articles = await listKnowledgeArticles(deps.prisma);
+
+    const rows = articles
+      .map(
+        (article) => `
+          <tr>
+            <td>${escapeHtml(article.title)}</td>
+            <td><pre>${escapeHtml(article.body)}</pre></td>
+            <td>${article.chunks.length}</td>
+            <td>${article.enabled ? "yes" : "no"}</td>
+            <td>
+              <form method="POST" action="/admin/knowledge/${escapeHtml(article.id)}/delete">
+                <button type="submit">Delete</button>
+              </form>
+            </td>
+          </tr>
+        `
+      )
+      .join("");
+
+    const html = `
+      <!doctype html>
+      <html>
+        <head>
+          <meta charset="utf-8" />
+          <title>InstaReply Knowledge Base</title>
+          <style>
+            body { font-family: sans-serif; margin: 24px; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border: 1px solid #ccc; padding: 8px; vertical-align: top; }
+            pre { white-space: pre-wrap; margin: 0; font-family: inherit; }
+            form.editor { display: grid; gap: 8px; max-width: 640px; margin-top: 24px; }
+          </style>
+        </head>
+        <body>
+          <h1>Knowledge Base</h1>
+          <p><a href="/admin">Back to admin</a></p>
+          <p>The best-matching excerpts are added to the LLM prompt when no rule or template answers a DM.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Title</th>
+                <th>Body</th>
+                <th>Chunks</th>
+                <th>Enabled</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>${rows || `<tr><td colspan="5">No knowledge articles.</td></tr>`}</tbody>
+          </table>
+          <form method="POST" action="/admin/knowledge" class="editor">
+            <h2>Add or update article</h2>
+            <input name="title" placeholder="Title, e.g. Shipping zones" required />
+            <textarea name="body" rows="10" placeholder="Article text; blank lines separate paragraphs" required></textarea>
+            <label><input type="checkbox" name="enabled" checked /> Enabled</label>
+            <button type="submit">Save Article</button>
+          </form>
+        </body>
+      </html>
+    `;
+
+    reply.type("text/html").send(html);
+  });
+
+  app.post<{ Body: KnowledgeArticleBody }>("/admin/knowledge", async (request, reply) => {
+    const input = toKnowledgeArticleInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    await saveKnowledgeArticle(deps.prisma, input);
+    return reply.redirect("/admin/knowledge");
+  });
+
+  app.post<{ Params: { id: string } }>("/admin/knowledge/:id/delete", async (request, reply) => {
+    const deleted = await deleteKnowledgeArticle(deps.prisma, request.params.id);
+    if (!deleted) {
+      return reply.code(404).send({ error: "Knowledge article not found" });
+    }
+    return reply.redirect("/admin/knowledge");
+  });
+
+  app.get("/api/admin/knowledge", async (_request, reply) => {
+    const articles = await listKnowledgeArticles(deps.prisma);
+    return reply.send({ articles });
+  });
+
+  app.post<{ Body: KnowledgeArticleBody }>("/api/admin/knowledge", async (request, reply) => {
+    const input = toKnowledgeArticleInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    const article = await saveKnowledgeArticle(deps.prisma, input);
+    return reply.send({ ok: true, article });
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/api/admin/knowledge/:id/delete",
+    async (request, reply) => {
+      const deleted = await deleteKnowledgeArticle(deps.prisma, request.params.id);
+      if (!deleted) {
+        return reply.code(404).send({ error: "Knowledge article not found" });
+      }
+      return reply.send({ ok: true, article: deleted });
+    }
+  );
+}
+
+function toKnowledgeArticleInput(
+  body: KnowledgeArticleBody | undefined
+): KnowledgeArticleInput | string {
+  const title = body?.title?.trim() ?? "";
+  const text = body?.body?.trim() ?? "";
+
+  if (!title) return "title is required";
+  if (!text) return "body is required";
+
+  return {
+    title,
+    body: text,
+    enabled: body?.enabled === true || body?.enabled === "on"
+  };
+}
+
+function registerIntentRoutes(app: FastifyInstance, deps: AdminRouteDeps): void {
+  app.get("/admin/intents", async (_request, reply) => {
+    const intents = await listIntents(deps.prisma);
+
+    const rows = intents
+      .map(
+        (intent) => `
+          <tr>
+            <td>${escapeHtml(intent.name)}${intent.builtIn ? " <em>(built-in)</em>" : ""}</td>
+            <td>${escapeHtml(intent.description)}</td>
+            <td>${intent.examples.map((example) => escapeHtml(example)).join("<br />")}</td>
+            <td>
+              ${
+                intent.id
+                  ? `<form method="POST" action="/admin/intents/${escapeHtml(intent.id)}/delete">
+                      <button type="submit">${intent.builtIn ? "Reset" : "Delete"}</button>
+                    </form>`
+                  : ""
+              }
+            </td>
+          </tr>
+        `
+      )
+      .join("");
+
+    const html = `
+      <!doctype html>
+      <html>
+        <head>
+          <meta charset="utf-8" />
+          <title>InstaReply Intents</title>
+          <style>
+            body { font-family: sans-serif; margin: 24px; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border: 1px solid #ccc; padding: 8px; vertical-align: top; }
+            form.editor { display: grid; gap: 8px; max-width: 520px; margin-top: 24px; }
+          </style>
+        </head>
+        <body>
+          <h1>Intents</h1>
+          <p><a href="/admin">Back to admin</a></p>
+          <p>The LLM classifies every drafted DM into one of these intents. Saving a built-in name overrides its description and examples.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Description</th>
+                <th>Examples</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+          <form method="POST" action="/admin/intents" class="editor">
+            <h2>Add or update intent</h2>
+            <input name="name" placeholder="snake_case name, e.g. wholesale" required />
+            <textarea name="description" rows="2" placeholder="When should the model pick this intent?" required></textarea>
+            <textarea name="examples" rows="3" placeholder="Example DMs, one per line"></textarea>
+            <button type="submit">Save Intent</button>
+          </form>
+        </body>
+      </html>
+    `;
+
+    reply.type("text/html").send(html);
+  });
+
+  app.post<{ Body: IntentBody }>("/admin/intents", async (request, reply) => {
+    const input = toIntentInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    await saveIntent(deps.prisma, input);
+    return reply.redirect("/admin/intents");
+  });
+
+  app.post<{ Params: { id: string } }>("/admin/intents/:id/delete", async (request, reply) => {
+    const deleted = await deleteIntent(deps.prisma, request.params.id);
+    if (!deleted) {
+      return reply.code(404).send({ error: "Intent not found" });
+    }
+    return reply.redirect("/admin/intents");
+  });
+
+  app.get("/api/admin/intents", async (_request, reply) => {
+    const intents = await listIntents(deps.prisma);
+    return reply.send({ intents });
+  });
+
+  app.post<{ Body: IntentBody }>("/api/admin/intents", async (request, reply) => {
+    const input = toIntentInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    const intent = await saveIntent(deps.prisma, input);
+    return reply.send({ ok: true, intent });
+  });
+
+  app.post<{ Params: { id: string } }>("/api/admin/intents/:id/delete", async (request, reply) => {
+    const deleted = await deleteIntent(deps.prisma, request.params.id);
+    if (!deleted) {
+      return reply.code(404).send({ error: "Intent not found" });
+    }
+    return reply.send({ ok: true, intent: deleted, builtIn: isBuiltInIntent(deleted.name) });
+  });
+}
+
+function toIntentInput(body: IntentBody | undefined): IntentSpec | string {
+  const name = body?.name?.trim() ?? "";
+  const description = body?.description?.trim() ?? "";
+  const rawExamples = body?.examples ?? [];
+
+  const parsedName = intentNameSchema.safeParse(name);
+  if (!parsedName.success) return parsedName.error.issues[0].message;
+  if (!description) return "description is required";
+
+  return {
+    name,
+    description,
+    examples: (Array.isArray(rawExamples) ? rawExamples : rawExamples.split("\n"))
+      .map((example) => example.trim())
+      .filter(Boolean)
+  };
 }
 
 function escapeHtml(value: string): string {
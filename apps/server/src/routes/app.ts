@@ -1,8 +1,17 @@
 import { readFile } from "node:fs/promises";
 import path from "node:path";
-import { ContactSegment, MessageDirection, PrismaClient } from "@prisma/client";
+import {
+  CommentReplyMode,
+  ContactSegment,
+  EmojiPolicy,
+  MessageDirection,
+  PrismaClient,
+  PromptProfile,
+  RuleMatchType
+} from "@prisma/client";
 import { FastifyBaseLogger, FastifyInstance } from "fastify";
 import { Env } from "../config/env";
+import { listRecentComments } from "../services/comments";
 import {
   disconnectInstagramConnection,
   getOrCreateInstagramConnection,
@@ -11,18 +20,86 @@ import {
 } from "../services/connection";
 import {
   CONTACT_SEGMENTS,
+  deleteIntentPolicy,
   ensureAllPolicies,
-  isContactSegment
+  IntentPolicyInput,
+  isCommentReplyMode,
+  isContactSegment,
+  listIntentPolicies,
+  readTemplateVariants,
+  saveIntentPolicy
 } from "../services/policy";
 import { IgService } from "../services/ig";
+import { findUnknownIntents, listIntents, parseIntentNames } from "../services/intents";
+import { KnowledgeRetriever } from "../services/knowledge";
+import { isLanguage, LanguageVariants } from "../services/language";
+import {
+  EMOJI_POLICIES,
+  isEmojiPolicy,
+  listPromptProfiles,
+  previewPrompt,
+  PromptProfileInput,
+  restorePromptProfile,
+  savePromptProfile
+} from "../services/promptProfiles";
+import {
+  compileKeyword,
+  deleteReplyRule,
+  isRuleMatchType,
+  listReplyRules,
+  ReplyRuleInput,
+  RuleMatch,
+  RulesService,
+  RuleVariants,
+  saveReplyRule,
+  toKeywordRule,
+  testReplyRules,
+  updateReplyRule
+} from "../services/rules";
+import { buildTemplateContext, findTemplateError, renderTemplate } from "../services/templates";
 
 type FrontendRouteDeps = {
   prisma: PrismaClient;
   ig: IgService;
+  knowledge: KnowledgeRetriever;
+  rules: RulesService;
   env: Env;
   logger: FastifyBaseLogger;
 };
 
+type PromptProfileBody = {
+  segment?: string;
+  persona?: string;
+  tone?: string;
+  bannedPhrases?: string | string[];
+  signOff?: string;
+  emojiPolicy?: string;
+};
+
+type IntentPolicyBody = {
+  segment?: string;
+  intent?: string;
+  autoSend?: boolean | string | null;
+  requireHumanApproval?: boolean | string | null;
+  template?: string;
+  minConfidence?: number | string | null;
+};
+
+type ReplyRuleBody = {
+  name?: string;
+  matchType?: string;
+  keywords?: string | string[];
+  intent?: string;
+  confidence?: number | string;
+  reply?: string;
+  priority?: number | string;
+  enabled?: boolean | string;
+  segments?: string | string[];
+  variants?: Record<string, { keywords?: string | string[]; reply?: string } | undefined>;
+};
+
+type PromptPreview = Awaited<ReturnType<typeof previewPrompt>>;
+
 type MetaTokenResponse = {
   access_token?: string;
   token_type?: string;
@@ -105,6 +182,7 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
     Body: {
       senderIgId?: string;
       segment?: string;
+      name?: string;
     };
   }>("/api/app/contact-segment", async (request, reply) => {
     const senderIgId = request.body?.senderIgId?.trim();
@@ -114,12 +192,17 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
       return reply.code(400).send({ error: "senderIgId and valid segment are required" });
     }
 
+    // An omitted name leaves the stored one alone; an empty one clears it.
+    const rawName = request.body?.name;
+    const name = rawName === undefined ? undefined : rawName.trim() || null;
+
     const contact = await deps.prisma.contact.upsert({
       where: { senderIgId },
-      update: { segment },
+      update: { segment, name },
       create: {
         senderIgId,
-        segment
+        segment,
+        name: name ?? null
       }
     });
 
@@ -132,6 +215,12 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
       autoSend?: boolean;
       requireHumanApproval?: boolean;
       template?: string;
+      mediaTemplate?: string;
+      storyAutoSend?: boolean;
+      storyTemplate?: string;
+      commentReplyMode?: string;
+      approvalIntents?: string | string[];
+      templateVariants?: Record<string, string | undefined>;
     };
   }>("/api/app/policy", async (request, reply) => {
     const segment = request.body?.segment?.trim();
@@ -140,28 +229,258 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
       return reply.code(400).send({ error: "Valid segment is required" });
     }
 
+    const approvalIntents = parseIntentNames(request.body?.approvalIntents);
+    const unknownIntents = await findUnknownIntents(deps.prisma, approvalIntents);
+    if (unknownIntents.length > 0) {
+      return reply.code(400).send({ error: `Unknown intents: ${unknownIntents.join(", ")}` });
+    }
+
+    const templateVariants: LanguageVariants<string> = {};
+    for (const [language, variant] of Object.entries(request.body?.templateVariants ?? {})) {
+      if (!isLanguage(language)) {
+        return reply.code(400).send({ error: `Unsupported language: ${language}` });
+      }
+      if (variant?.trim()) templateVariants[language] = variant.trim();
+    }
+
     const template = request.body?.template?.trim() ?? "";
+    const mediaTemplate = request.body?.mediaTemplate?.trim() ?? "";
+    const storyTemplate = request.body?.storyTemplate?.trim() ?? "";
+    const templateError = findTemplateError({
+      template,
+      mediaTemplate,
+      storyTemplate,
+      ...Object.fromEntries(
+        Object.entries(templateVariants).map(([language, variant]) => [
+          `template (${language})`,
+          variant
+        ])
+      )
+    });
+    if (templateError) {
+      return reply.code(400).send({ error: templateError });
+    }
+
+    const requestedCommentMode = request.body?.commentReplyMode?.trim() ?? "";
+    const commentReplyMode = isCommentReplyMode(requestedCommentMode)
+      ? requestedCommentMode
+      : CommentReplyMode.PRIVATE;
     const autoSend = Boolean(request.body?.autoSend);
     const requireHumanApproval = Boolean(request.body?.requireHumanApproval);
+    const storyAutoSend = Boolean(request.body?.storyAutoSend);
 
     const policy = await deps.prisma.replyPolicy.upsert({
       where: { segment },
       update: {
         autoSend,
         requireHumanApproval,
-        template: template.length > 0 ? template : null
+        template: template.length > 0 ? template : null,
+        templateVariants,
+        mediaTemplate: mediaTemplate.length > 0 ? mediaTemplate : null,
+        storyAutoSend,
+        storyTemplate: storyTemplate.length > 0 ? storyTemplate : null,
+        commentReplyMode,
+        approvalIntents
       },
       create: {
         segment,
         autoSend,
         requireHumanApproval,
-        template: template.length > 0 ? template : null
+        template: template.length > 0 ? template : null,
+        templateVariants,
+        mediaTemplate: mediaTemplate.length > 0 ? mediaTemplate : null,
+        storyAutoSend,
+        storyTemplate: storyTemplate.length > 0 ? storyTemplate : null,
+        commentReplyMode,
+        approvalIntents
       }
     });
 
     return reply.send({ ok: true, policy });
   });
 
+  app.get("/api/app/intent-policies", async (_request, reply) => {
+    const intentPolicies = await listIntentPolicies(deps.prisma);
+    return reply.send({ intentPolicies });
+  });
+
+  app.post<{ Body: IntentPolicyBody }>("/api/app/intent-policies", async (request, reply) => {
+    const input = toIntentPolicyInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    const unknownIntents = await findUnknownIntents(deps.prisma, [input.intent]);
+    if (unknownIntents.length > 0) {
+      return reply.code(400).send({ error: `Unknown intents: ${unknownIntents.join(", ")}` });
+    }
+
+    const intentPolicy = await saveIntentPolicy(deps.prisma, input);
+    return reply.send({ ok: true, intentPolicy });
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/api/app/intent-policies/:id/delete",
+    async (request, reply) => {
+      const intentPolicy = await deleteIntentPolicy(deps.prisma, request.params.id);
+      if (!intentPolicy) {
+        return reply.code(404).send({ error: "Intent policy not found" });
+      }
+      return reply.send({ ok: true, intentPolicy });
+    }
+  );
+
+  app.get("/api/app/rules", async (_request, reply) => {
+    const rules = await listReplyRules(deps.prisma);
+    return reply.send({ rules });
+  });
+
+  app.post<{ Body: ReplyRuleBody }>("/api/app/rules", async (request, reply) => {
+    const input = toReplyRuleInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    const unknownIntents = await findUnknownIntents(deps.prisma, [input.intent]);
+    if (unknownIntents.length > 0) {
+      return reply.code(400).send({ error: `Unknown intents: ${unknownIntents.join(", ")}` });
+    }
+
+    const rule = await saveReplyRule(deps.prisma, input);
+    return reply.send({ ok: true, rule });
+  });
+
+  app.post<{ Body: { text?: string; segment?: string } }>(
+    "/api/app/rules/test",
+    async (request, reply) => {
+      const text = request.body?.text?.trim();
+      const segment = request.body?.segment?.trim() || ContactSegment.STRANGER;
+
+      if (!text || !isContactSegment(segment)) {
+        return reply.code(400).send({ error: "text and a valid segment are required" });
+      }
+
+      const result = await testReplyRules(deps.prisma, deps.rules, deps.env, { text, segment });
+      return reply.send(result);
+    }
+  );
+
+  app.post<{
+    Body: {
+      template?: string;
+      segment?: string;
+      intent?: string;
+      language?: string;
+      contactName?: string;
+    };
+  }>("/api/app/templates/preview", async (request, reply) => {
+    const template = request.body?.template ?? "";
+    const segment = request.body?.segment?.trim() || ContactSegment.STRANGER;
+    const language = request.body?.language?.trim() || null;
+
+    if (!isContactSegment(segment)) {
+      return reply.code(400).send({ error: "Valid segment is required" });
+    }
+    if (language && !isLanguage(language)) {
+      return reply.code(400).send({ error: `Unsupported language: ${language}` });
+    }
+
+    const templateError = findTemplateError({ template });
+    if (templateError) {
+      return reply.code(400).send({ error: templateError });
+    }
+
+    const rendered = renderTemplate(
+      template,
+      buildTemplateContext(deps.env, {
+        contactName: request.body?.contactName?.trim() || null,
+        segment,
+        intent: request.body?.intent?.trim() || "general_question",
+        language
+      })
+    );
+    return reply.send({ rendered });
+  });
+
+  app.post<{ Params: { id: string }; Body: ReplyRuleBody }>(
+    "/api/app/rules/:id",
+    async (request, reply) => {
+      const input = toReplyRuleInput(request.body);
+      if (typeof input === "string") {
+        return reply.code(400).send({ error: input });
+      }
+
+      const unknownIntents = await findUnknownIntents(deps.prisma, [input.intent]);
+      if (unknownIntents.length > 0) {
+        return reply.code(400).send({ error: `Unknown intents: ${unknownIntents.join(", ")}` });
+      }
+
+      const named = await deps.prisma.replyRule.findUnique({ where: { name: input.name } });
+      if (named && named.id !== request.params.id) {
+        return reply.code(409).send({ error: `Another rule is named ${input.name}` });
+      }
+
+      const rule = await updateReplyRule(deps.prisma, request.params.id, input);
+      if (!rule) {
+        return reply.code(404).send({ error: "Rule not found" });
+      }
+      return reply.send({ ok: true, rule });
+    }
+  );
+
+  app.post<{ Params: { id: string } }>("/api/app/rules/:id/delete", async (request, reply) => {
+    const rule = await deleteReplyRule(deps.prisma, request.params.id);
+    if (!rule) {
+      return reply.code(404).send({ error: "Rule not found" });
+    }
+    return reply.send({ ok: true, rule });
+  });
+
+  app.get("/api/app/prompt-profiles", async (_request, reply) => {
+    const profiles = await listPromptProfiles(deps.prisma);
+    return reply.send({ profiles });
+  });
+
+  app.post<{ Body: PromptProfileBody }>("/api/app/prompt-profiles", async (request, reply) => {
+    const input = toPromptProfileInput(request.body);
+    if (typeof input === "string") {
+      return reply.code(400).send({ error: input });
+    }
+
+    const profile = await savePromptProfile(deps.prisma, input);
+    return reply.send({ ok: true, profile });
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/api/app/prompt-profiles/:id/restore",
+    async (request, reply) => {
+      const profile = await restorePromptProfile(deps.prisma, request.params.id);
+      if (!profile) {
+        return reply.code(404).send({ error: "Prompt profile not found" });
+      }
+      return reply.send({ ok: true, profile });
+    }
+  );
+
+  app.post<{ Body: { text?: string; segment?: string } }>(
+    "/api/app/prompt-profiles/preview",
+    async (request, reply) => {
+      const text = request.body?.text?.trim();
+      const segment = request.body?.segment?.trim() || ContactSegment.STRANGER;
+
+      if (!text || !isContactSegment(segment)) {
+        return reply.code(400).send({ error: "text and a valid segment are required" });
+      }
+
+      const preview = await previewPrompt(deps.prisma, deps.knowledge, {
+        text,
+        segment,
+        knowledgeTopK: deps.env.knowledgeTopK
+      });
+      return reply.send(preview);
+    }
+  );
+
   app.post<{
     Body: {
       messageId?: string;
@@ -183,6 +502,10 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
       return reply.code(404).send({ error: "Inbound message not found" });
     }
 
+    if (inbound.deletedAt) {
+      return reply.code(409).send({ error: "Message was unsent by the sender" });
+    }
+
     try {
       const send = await deps.ig.sendMessage(inbound.senderIgId, replyText);
       const senderIgId = await resolveOutboundSenderId(deps.prisma, deps.env);
@@ -222,8 +545,21 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
     }
   });
 
-  app.get<{ Querystring: { notice?: string } }>("/app", async (request, reply) => {
+  app.get<{
+    Querystring: { notice?: string; previewText?: string; previewSegment?: string };
+  }>("/app", async (request, reply) => {
     const connection = await getOrCreateInstagramConnection(deps.prisma);
+    const promptProfiles = await listPromptProfiles(deps.prisma);
+    const previewText = request.query.previewText?.trim() ?? "";
+    const previewSegment = request.query.previewSegment?.trim() ?? "";
+    const preview =
+      previewText && isContactSegment(previewSegment)
+        ? await previewPrompt(deps.prisma, deps.knowledge, {
+            text: previewText,
+            segment: previewSegment,
+            knowledgeTopK: deps.env.knowledgeTopK
+          })
+        : null;
     const policies = await ensureAllPolicies(deps.prisma);
     const contacts = await deps.prisma.contact.findMany({
       orderBy: { updatedAt: "desc" },
@@ -235,7 +571,8 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
     const messages = await deps.prisma.message.findMany({
       where: { direction: MessageDirection.IN },
       orderBy: { receivedAt: "desc" },
-      take: 20
+      take: 20,
+      include: { attachments: true, reactions: true }
     });
 
     const contactRows = contacts
@@ -264,6 +601,7 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
       .map((policy) => {
         const autoChecked = policy.autoSend ? "checked" : "";
         const approvalChecked = policy.requireHumanApproval ? "checked" : "";
+        const storyAutoChecked = policy.storyAutoSend ? "checked" : "";
 
         return `
           <tr>
@@ -280,10 +618,24 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
                     <input type="checkbox" name="requireHumanApproval" ${approvalChecked} />
                     Require approval
                   </label>
+                  <label>
+                    <input type="checkbox" name="storyAutoSend" ${storyAutoChecked} />
+                    Auto send story replies
+                  </label>
                 </div>
                 <textarea name="template" rows="3" placeholder="Optional fixed template for this segment">${escapeHtml(
                   policy.template ?? ""
                 )}</textarea>
+                <textarea name="mediaTemplate" rows="2" placeholder="Optional reply to media-only messages">${escapeHtml(
+                  policy.mediaTemplate ?? ""
+                )}</textarea>
+                <textarea name="storyTemplate" rows="2" placeholder="Optional reply to story replies and mentions">${escapeHtml(
+                  policy.storyTemplate ?? ""
+                )}</textarea>
+                <select name="commentReplyMode">${renderCommentModeOptions(policy.commentReplyMode)}</select>
+                <input name="approvalIntents" placeholder="Intents that always need approval, e.g. wholesale" value="${escapeHtml(
+                  policy.approvalIntents.join(", ")
+                )}" />
                 <button type="submit">Update</button>
               </form>
             </td>
@@ -304,7 +656,14 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
           <tr>
             <td>${escapeHtml(message.senderIgId)}</td>
             <td>${escapeHtml(segment)}</td>
-            <td>${escapeHtml(message.text ?? "")}</td>
+            <td>
+              ${message.deletedAt ? `<span class="badge err">Unsent</span>` : ""}
+              ${renderStoryBadge(message.storyInteraction, message.storyUrl)}
+              ${escapeHtml(message.text ?? "")}
+              ${message.editedAt ? `<span class="subtle">(edited)</span>` : ""}
+              ${renderAttachments(message.attachments)}
+              ${renderReactions(message.reactions)}
+            </td>
             <td>${escapeHtml(message.intent ?? "n/a")} (${confidence})</td>
             <td>
               <form method="POST" action="/admin/send" class="stack-form">
@@ -554,6 +913,15 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
               gap: 8px;
             }
 
+            pre {
+              white-space: pre-wrap;
+              margin: 4px 0 10px;
+              padding: 10px;
+              border-radius: 10px;
+              background: rgba(26, 26, 43, 0.05);
+              font-size: 0.85rem;
+            }
+
             .toggles {
               display: flex;
               flex-wrap: wrap;
@@ -604,6 +972,11 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
                   <div><strong>IG Business ID:</strong> ${escapeHtml(connection.igBusinessAccountId ?? "Not set")}</div>
                   <div><strong>Page:</strong> ${escapeHtml(connection.pageName ?? "Not set")} (${escapeHtml(connection.pageId ?? "n/a")})</div>
                   <div><strong>Last Error:</strong> ${escapeHtml(connection.lastError ?? "None")}</div>
+                  <div><strong>Webhook:</strong> ${
+                    connection.webhookVerifiedAt
+                      ? `Subscribed (verified ${escapeHtml(connection.webhookVerifiedAt.toISOString())})`
+                      : "Not verified"
+                  }</div>
                   <div><strong>OAuth Redirect:</strong> ${escapeHtml(
                     configuredCallback || inferredCallback
                   )}</div>
@@ -669,6 +1042,8 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
                 </table>
               </article>
 
+              ${renderPromptProfileCard(promptProfiles, preview, previewText, previewSegment)}
+
               <article class="card wide">
                 <h2>Contacts</h2>
                 <table>
@@ -734,6 +1109,31 @@ export function registerFrontendRoutes(app: FastifyInstance, deps: FrontendRoute
     return reply.redirect("/app?notice=Manual connection saved.");
   });
 
+  app.post<{ Body: PromptProfileBody }>("/app/prompt-profiles", async (request, reply) => {
+    const input = toPromptProfileInput(request.body);
+    if (typeof input === "string") {
+      return reply.redirect(`/app?notice=${encodeURIComponent(input)}`);
+    }
+
+    const profile = await savePromptProfile(deps.prisma, input);
+    return reply.redirect(
+      `/app?notice=${encodeURIComponent(`Brand voice saved as version ${profile.version}.`)}`
+    );
+  });
+
+  app.post<{ Params: { id: string } }>(
+    "/app/prompt-profiles/:id/restore",
+    async (request, reply) => {
+      const profile = await restorePromptProfile(deps.prisma, request.params.id);
+      if (!profile) {
+        return reply.redirect("/app?notice=Prompt profile not found.");
+      }
+      return reply.redirect(
+        `/app?notice=${encodeURIComponent(`Brand voice restored as version ${profile.version}.`)}`
+      );
+    }
+  );
+
   app.post("/app/connection/disconnect", async (_request, reply) => {
     await disconnectInstagramConnection(deps.prisma);
     return reply.redirect("/app?notice=Instagram connection cleared.");
@@ -839,6 +1239,7 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
     scope: string | null;
     lastError: string | null;
     connectedAt: Date | null;
+    webhookVerifiedAt: Date | null;
     updatedAt: Date;
   };
   policies: Array<{
@@ -846,8 +1247,37 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
     autoSend: boolean;
     requireHumanApproval: boolean;
     template: string | null;
+    templateVariants: LanguageVariants<string>;
+    mediaTemplate: string | null;
+    storyAutoSend: boolean;
+    storyTemplate: string | null;
+    commentReplyMode: string;
+    approvalIntents: string[];
+  }>;
+  intents: string[];
+  rules: Array<{
+    id: string;
+    name: string;
+    matchType: string;
+    keywords: string[];
+    intent: string;
+    confidence: number;
+    reply: string;
+    priority: number;
+    enabled: boolean;
+    segments: string[];
+    variants: RuleVariants;
+  }>;
+  intentPolicies: Array<{
+    id: string;
+    segment: string;
+    intent: string;
+    autoSend: boolean | null;
+    requireHumanApproval: boolean | null;
+    template: string | null;
+    minConfidence: number | null;
   }>;
-  contacts: Array<{ senderIgId: string; segment: string }>;
+  contacts: Array<{ senderIgId: string; name: string | null; segment: string }>;
   messages: Array<{
     id: string;
     senderIgId: string;
@@ -857,7 +1287,30 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
     confidence: number | null;
     suggestedReply: string | null;
     needsHumanApproval: boolean;
+    llmProvider: string | null;
+    knowledgeArticleIds: string[];
+    ruleMatch: RuleMatch | null;
+    language: string | null;
     receivedAt: string;
+    attachments: Array<{ type: string; url: string | null; title: string | null }>;
+    story: { interaction: string; storyId: string | null; url: string | null } | null;
+    reactions: Array<{ senderIgId: string; reaction: string | null; emoji: string | null }>;
+    editedAt: string | null;
+    deletedAt: string | null;
+    coalescedIntoId: string | null;
+  }>;
+  comments: Array<{
+    id: string;
+    mediaId: string;
+    senderIgId: string;
+    username: string | null;
+    text: string;
+    receivedAt: string;
+    suggestedReply: string | null;
+    knowledgeArticleIds: string[];
+    replyMode: string | null;
+    replyStatus: string | null;
+    replyError: string | null;
   }>;
   accountSummaries: Array<{
     senderIgId: string;
@@ -870,6 +1323,9 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
 }> {
   const connection = await getOrCreateInstagramConnection(prisma);
   const policies = await ensureAllPolicies(prisma);
+  const intents = await listIntents(prisma);
+  const intentPolicies = await listIntentPolicies(prisma);
+  const rules = await listReplyRules(prisma);
   const contacts = await prisma.contact.findMany({
     orderBy: { updatedAt: "desc" },
     take: 50
@@ -879,7 +1335,8 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
   );
   const recentMessages = await prisma.message.findMany({
     orderBy: { receivedAt: "desc" },
-    take: 500
+    take: 500,
+    include: { attachments: true, reactions: true }
   });
   const inboundMessages = recentMessages.filter(
     (message) => message.direction === MessageDirection.IN
@@ -943,6 +1400,7 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
   }
 
   const messages = inboundMessages.slice(0, 20);
+  const comments = await listRecentComments(prisma);
   const accountSummaries = [...summaryBySender.values()]
     .sort((a, b) => b.lastInboundAt.getTime() - a.lastInboundAt.getTime())
     .map((summary) => ({
@@ -965,16 +1423,47 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
       scope: connection.scope,
       lastError: connection.lastError,
       connectedAt: connection.connectedAt,
+      webhookVerifiedAt: connection.webhookVerifiedAt,
       updatedAt: connection.updatedAt
     },
     policies: policies.map((policy) => ({
       segment: policy.segment,
       autoSend: policy.autoSend,
       requireHumanApproval: policy.requireHumanApproval,
-      template: policy.template
+      template: policy.template,
+      templateVariants: readTemplateVariants(policy),
+      mediaTemplate: policy.mediaTemplate,
+      storyAutoSend: policy.storyAutoSend,
+      storyTemplate: policy.storyTemplate,
+      commentReplyMode: policy.commentReplyMode,
+      approvalIntents: policy.approvalIntents
+    })),
+    intents: intents.map((intent) => intent.name),
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      matchType: rule.matchType,
+      keywords: rule.keywords,
+      intent: rule.intent,
+      confidence: rule.confidence,
+      reply: rule.reply,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      segments: rule.segments,
+      variants: toKeywordRule(rule).variants
+    })),
+    intentPolicies: intentPolicies.map((intentPolicy) => ({
+      id: intentPolicy.id,
+      segment: intentPolicy.segment,
+      intent: intentPolicy.intent,
+      autoSend: intentPolicy.autoSend,
+      requireHumanApproval: intentPolicy.requireHumanApproval,
+      template: intentPolicy.template,
+      minConfidence: intentPolicy.minConfidence
     })),
     contacts: contacts.map((contact) => ({
       senderIgId: contact.senderIgId,
+      name: contact.name,
       segment: contact.segment
     })),
     messages: messages.map((message) => ({
@@ -986,7 +1475,44 @@ async function loadConsoleState(prisma: PrismaClient): Promise<{
       confidence: message.confidence,
       suggestedReply: message.suggestedReply,
       needsHumanApproval: message.needsHumanApproval,
-      receivedAt: message.receivedAt.toISOString()
+      llmProvider: message.llmProvider,
+      knowledgeArticleIds: message.knowledgeArticleIds,
+      ruleMatch: message.ruleMatch as RuleMatch | null,
+      language: message.language,
+      receivedAt: message.receivedAt.toISOString(),
+      attachments: message.attachments.map((attachment) => ({
+        type: attachment.type,
+        url: attachment.url,
+        title: attachment.title
+      })),
+      story: message.storyInteraction
+        ? {
+            interaction: message.storyInteraction,
+            storyId: message.storyId,
+            url: message.storyUrl
+          }
+        : null,
+      reactions: message.reactions.map((reaction) => ({
+        senderIgId: reaction.senderIgId,
+        reaction: reaction.reaction,
+        emoji: reaction.emoji
+      })),
+      editedAt: message.editedAt?.toISOString() ?? null,
+      deletedAt: message.deletedAt?.toISOString() ?? null,
+      coalescedIntoId: message.coalescedIntoId
+    })),
+    comments: comments.map((comment) => ({
+      id: comment.id,
+      mediaId: comment.mediaId,
+      senderIgId: comment.senderIgId,
+      username: comment.username,
+      text: comment.text,
+      receivedAt: comment.receivedAt.toISOString(),
+      suggestedReply: comment.suggestedReply,
+      knowledgeArticleIds: comment.knowledgeArticleIds,
+      replyMode: comment.replyMode,
+      replyStatus: comment.replyStatus,
+      replyError: comment.replyError
     })),
     accountSummaries
   };
@@ -1140,6 +1666,294 @@ function statusBadge(status: string): string {
   return `<span class="badge warn">DISCONNECTED</span>`;
 }
 
+function renderAttachments(
+  attachments: Array<{ type: string; url: string | null; title: string | null }>
+): string {
+  if (attachments.length === 0) return "";
+
+  const items = attachments
+    .map((attachment) => {
+      const label = escapeHtml(attachment.title ?? attachment.type);
+      return attachment.url
+        ? `<a href="${escapeHtml(attachment.url)}" target="_blank" rel="noopener">[${label}]</a>`
+        : `<span>[${label}]</span>`;
+    })
+    .join(" ");
+
+  return `<div class="attachments">${items}</div>`;
+}
+
+function toPromptProfileInput(body: PromptProfileBody | undefined): PromptProfileInput | string {
+  const segment = body?.segment?.trim() ?? "";
+  const persona = body?.persona?.trim() ?? "";
+  const tone = body?.tone?.trim() ?? "";
+  const signOff = body?.signOff?.trim() ?? "";
+  const emojiPolicy = body?.emojiPolicy?.trim() || EmojiPolicy.SPARING;
+  const rawBanned = body?.bannedPhrases ?? [];
+
+  if (segment && !isContactSegment(segment)) return "Valid segment is required";
+  if (!persona) return "persona is required";
+  if (!isEmojiPolicy(emojiPolicy)) return "Valid emojiPolicy is required";
+
+  // The form sends one phrase per line; the JSON API may send an array.
+  const bannedPhrases = (Array.isArray(rawBanned) ? rawBanned : rawBanned.split("\n"))
+    .map((phrase) => phrase.trim())
+    .filter(Boolean);
+
+  return {
+    segment: segment && isContactSegment(segment) ? segment : null,
+    persona,
+    tone: tone.length > 0 ? tone : null,
+    bannedPhrases,
+    signOff: signOff.length > 0 ? signOff : null,
+    emojiPolicy
+  };
+}
+
+function toReplyRuleInput(body: ReplyRuleBody | undefined): ReplyRuleInput | string {
+  const name = body?.name?.trim() ?? "";
+  const matchType = body?.matchType?.trim() || RuleMatchType.CONTAINS;
+  const intent = body?.intent?.trim() ?? "";
+  const replyText = body?.reply?.trim() ?? "";
+  const confidence = Number(body?.confidence ?? 0.9);
+  const priority = Number(body?.priority || 0);
+  const keywords = splitKeywords(body?.keywords);
+  const rawSegments = body?.segments ?? [];
+  const segments = (Array.isArray(rawSegments) ? rawSegments : rawSegments.split(/[\s,]+/))
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  if (!name) return "name is required";
+  if (!isRuleMatchType(matchType)) return "matchType must be CONTAINS, WHOLE_WORD, or REGEX";
+  if (keywords.length === 0) return "at least one keyword is required";
+  if (!intent) return "intent is required";
+  if (!replyText) return "reply is required";
+  if (!(confidence >= 0 && confidence <= 1)) return "confidence must be between 0 and 1";
+  if (!Number.isInteger(priority)) return "priority must be an integer";
+
+  const invalidSegment = segments.find((segment) => !isContactSegment(segment));
+  if (invalidSegment) return `Unknown segment: ${invalidSegment}`;
+
+  const variants: RuleVariants = {};
+  for (const [language, rawVariant] of Object.entries(body?.variants ?? {})) {
+    if (!isLanguage(language)) return `Unsupported language: ${language}`;
+
+    const variantKeywords = splitKeywords(rawVariant?.keywords);
+    const variantReply = rawVariant?.reply?.trim() ?? "";
+    // Blank variants come from untouched console fields.
+    if (variantKeywords.length === 0 && !variantReply) continue;
+    variants[language] = { keywords: variantKeywords, reply: variantReply || null };
+  }
+
+  const templateError = findTemplateError({
+    reply: replyText,
+    ...Object.fromEntries(
+      Object.entries(variants).map(([language, variant]) => [`reply (${language})`, variant.reply])
+    )
+  });
+  if (templateError) return templateError;
+
+  const allKeywords = [
+    ...keywords,
+    ...Object.values(variants).flatMap((variant) => variant.keywords)
+  ];
+  for (const keyword of allKeywords) {
+    try {
+      compileKeyword(matchType, keyword);
+    } catch (error) {
+      return `Invalid pattern ${keyword}: ${toErrorMessage(error)}`;
+    }
+  }
+
+  return {
+    name,
+    matchType,
+    keywords,
+    intent,
+    confidence,
+    reply: replyText,
+    priority,
+    enabled: body?.enabled === undefined || body.enabled === true || body.enabled === "true",
+    segments: segments.filter(isContactSegment),
+    variants
+  };
+}
+
+// Regex keywords may contain commas, so a form value is split on lines only.
+function splitKeywords(raw: string | string[] | undefined): string[] {
+  return (Array.isArray(raw) ? raw : (raw ?? "").split("\n"))
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+function toIntentPolicyInput(body: IntentPolicyBody | undefined): IntentPolicyInput | string {
+  const segment = body?.segment?.trim() ?? "";
+  const intent = body?.intent?.trim() ?? "";
+  const template = body?.template?.trim() ?? "";
+  const rawMinConfidence = body?.minConfidence;
+
+  if (!isContactSegment(segment)) return "Valid segment is required";
+  if (!intent) return "intent is required";
+
+  const minConfidence =
+    rawMinConfidence === undefined || rawMinConfidence === null || rawMinConfidence === ""
+      ? null
+      : Number(rawMinConfidence);
+  if (minConfidence !== null && !(minConfidence >= 0 && minConfidence <= 1)) {
+    return "minConfidence must be between 0 and 1";
+  }
+
+  const templateError = findTemplateError({ template });
+  if (templateError) return templateError;
+
+  return {
+    segment,
+    intent,
+    autoSend: toPolicyOverride(body?.autoSend),
+    requireHumanApproval: toPolicyOverride(body?.requireHumanApproval),
+    template: template.length > 0 ? template : null,
+    minConfidence
+  };
+}
+
+// Anything other than an explicit true/false inherits the segment policy.
+function toPolicyOverride(value: boolean | string | null | undefined): boolean | null {
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  return null;
+}
+
+function renderPromptProfileCard(
+  profiles: PromptProfile[],
+  preview: PromptPreview | null,
+  previewText: string,
+  previewSegment: string
+): string {
+  const scopes: Array<ContactSegment | null> = [null, ...CONTACT_SEGMENTS];
+
+  const forms = scopes
+    .map((segment) => {
+      const versions = profiles.filter((profile) => profile.segment === segment);
+      const active = versions[0];
+      const emojiOptions = EMOJI_POLICIES.map((policy) => {
+        const selected = policy === (active?.emojiPolicy ?? EmojiPolicy.SPARING) ? "selected" : "";
+        return `<option value="${policy}" ${selected}>Emoji: ${policy}</option>`;
+      }).join("");
+      const history = versions
+        .slice(1)
+        .map(
+          (profile) => `
+            <form method="POST" action="/app/prompt-profiles/${escapeHtml(profile.id)}/restore" class="inline-form">
+              <span class="subtle">v${profile.version} &middot; ${escapeHtml(profile.createdAt.toISOString())}</span>
+              <button type="submit" class="secondary">Restore</button>
+            </form>
+          `
+        )
+        .join("");
+
+      return `
+        <tr>
+          <td>
+            ${escapeHtml(segment ?? "Default")}
+            <div class="subtle">${active ? `v${active.version}` : segment ? "Uses default" : "Built-in"}</div>
+          </td>
+          <td>
+            <form method="POST" action="/app/prompt-profiles" class="stack-form">
+              <input type="hidden" name="segment" value="${escapeHtml(segment ?? "")}" />
+              <textarea name="persona" rows="2" placeholder="Persona, e.g. You are the support voice of Acme Outfitters." required>${escapeHtml(
+                active?.persona ?? ""
+              )}</textarea>
+              <input name="tone" placeholder="Tone, e.g. warm and playful" value="${escapeHtml(active?.tone ?? "")}" />
+              <textarea name="bannedPhrases" rows="2" placeholder="Banned phrases, one per line">${escapeHtml(
+                active?.bannedPhrases.join("\n") ?? ""
+              )}</textarea>
+              <input name="signOff" placeholder="Sign-off, e.g. - The Acme team" value="${escapeHtml(active?.signOff ?? "")}" />
+              <select name="emojiPolicy">${emojiOptions}</select>
+              <button type="submit">Save New Version</button>
+            </form>
+            ${history}
+          </td>
+        </tr>
+      `;
+    })
+    .join("");
+
+  const segmentOptions = CONTACT_SEGMENTS.map((segment) => {
+    const selected = segment === (previewSegment || ContactSegment.STRANGER) ? "selected" : "";
+    return `<option value="${segment}" ${selected}>${segment}</option>`;
+  }).join("");
+
+  const renderedPreview = preview
+    ? `
+      <p class="subtle">
+        Using ${preview.profile ? `${escapeHtml(preview.profile.segment ?? "default")} v${preview.profile.version}` : "the built-in prompt"}.
+      </p>
+      ${preview.messages
+        .map(
+          (message) =>
+            `<div><strong>${message.role}</strong><pre>${escapeHtml(message.content)}</pre></div>`
+        )
+        .join("")}
+    `
+    : "";
+
+  return `
+    <article class="card wide">
+      <h2>Brand Voice</h2>
+      <p class="subtle">Shapes LLM drafts only; templates and keyword rules are sent as written. Each save adds a version, and segments without their own profile use the default.</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Scope</th>
+            <th>Profile</th>
+          </tr>
+        </thead>
+        <tbody>${forms}</tbody>
+      </table>
+      <form method="GET" action="/app" class="stack-form" style="margin-top:12px;">
+        <h3>Preview Prompt</h3>
+        <textarea name="previewText" rows="2" placeholder="Sample DM, e.g. Do you ship to Canada?" required>${escapeHtml(
+          previewText
+        )}</textarea>
+        <select name="previewSegment">${segmentOptions}</select>
+        <button type="submit" class="secondary">Render Prompt</button>
+      </form>
+      ${renderedPreview}
+    </article>
+  `;
+}
+
+function renderCommentModeOptions(selected: CommentReplyMode): string {
+  return [CommentReplyMode.PRIVATE, CommentReplyMode.PUBLIC]
+    .map((mode) => {
+      const isSelected = mode === selected ? "selected" : "";
+      const label = mode === CommentReplyMode.PRIVATE ? "Comments: private reply (DM)" : "Comments: public reply";
+      return `<option value="${mode}" ${isSelected}>${label}</option>`;
+    })
+    .join("");
+}
+
+function renderReactions(
+  reactions: Array<{ reaction: string | null; emoji: string | null }>
+): string {
+  if (reactions.length === 0) return "";
+
+  const labels = reactions
+    .map((reaction) => escapeHtml(reaction.emoji ?? reaction.reaction ?? "reacted"))
+    .join(" ");
+  return `<div class="subtle">Reactions: ${labels}</div>`;
+}
+
+function renderStoryBadge(interaction: string | null, url: string | null): string {
+  if (!interaction) return "";
+
+  const label = interaction === "MENTION" ? "Story mention" : "Story reply";
+  const badge = `<span class="badge warn">${label}</span>`;
+  return url
+    ? `<a href="${escapeHtml(url)}" target="_blank" rel="noopener">${badge}</a>`
+    : badge;
+}
+
 function escapeHtml(value: string): string {
   return value
     .replaceAll("&", "&amp;")
@@ -1,23 +1,59 @@
 import {
   ContactSegment,
   MessageDirection,
+  PayloadAction,
   Prisma,
-  PrismaClient
+  PrismaClient,
+  StoryInteraction
 } from "@prisma/client";
 import { FastifyBaseLogger, FastifyInstance } from "fastify";
 import { Env } from "../config/env";
-import { InMemoryQueue } from "../queue/inMemoryQueue";
-import { IgService } from "../services/ig";
+import { JobContext, JobQueue } from "../queue/jobQueue";
+import { claimBurst, combineBurstText, isBurstDraftJob } from "../services/bursts";
+import { IgService, SendMessageResult } from "../services/ig";
+import { isCommentJob, sendCommentReply } from "../services/comments";
+import { markWebhookVerified } from "../services/connection";
+import { applyMessageEvent, hasSentReply, isMessageEventJob } from "../services/messageEvents";
+import { loadThreadHistory } from "../services/history";
+import { IntentTaxonomy } from "../services/intents";
+import { KnowledgeRetriever } from "../services/knowledge";
+import { detectLanguage } from "../services/language";
+import { PayloadHandlerRegistry } from "../services/payloadHandlers";
 import { LlmService } from "../services/llm";
-import { ensurePolicy } from "../services/policy";
+import {
+  applyIntentTemplate,
+  ensurePolicy,
+  findIntentPolicy,
+  getSendSkipReason,
+  resolveTemplate
+} from "../services/policy";
+import { applyVoice, resolvePromptProfile } from "../services/promptProfiles";
 import { RulesService } from "../services/rules";
-import { ParsedWebhookJob, MetaMessagingEvent, MetaWebhookPayload } from "../types/meta";
+import { renderDraftReply } from "../services/templates";
+import { LlmDraft, ServedDraft } from "../types/llm";
+import {
+  BurstDraftJob,
+  MetaAttachment,
+  MetaChange,
+  MetaMessagingEvent,
+  MetaWebhookPayload,
+  ParsedAttachment,
+  ParsedCommentJob,
+  ParsedMessageEvent,
+  ParsedMessageEventJob,
+  ParsedStory,
+  ParsedWebhookJob,
+  WebhookJob
+} from "../types/meta";
+import { isRetryableError, PermanentJobError } from "../utils/errors";
 import { verifySignature } from "../utils/verifySignature";
 
 type WebhookRouteDeps = {
   env: Env;
   logger: FastifyBaseLogger;
-  queue: InMemoryQueue<ParsedWebhookJob>;
+  prisma: PrismaClient;
+  queue: JobQueue<WebhookJob>;
+  isShuttingDown?: () => boolean;
 };
 
 type WorkerDeps = {
@@ -26,13 +62,57 @@ type WorkerDeps = {
   prisma: PrismaClient;
   llm: LlmService;
   rules: RulesService;
+  payloadHandlers: PayloadHandlerRegistry;
+  knowledge: KnowledgeRetriever;
+  intents: IntentTaxonomy;
   ig: IgService;
+  queue: Pick<JobQueue<WebhookJob>, "enqueue">;
+};
+
+type InboundReply = {
+  inbound: { id: string };
+  historyBefore: { id: string; receivedAt: Date };
+  threadId: string;
+  senderId: string;
+  text: string;
+  story: ParsedStory | null;
+  actionPayload: string | null;
 };
 
 export function registerWebhookRoutes(
   app: FastifyInstance,
   deps: WebhookRouteDeps
 ): void {
+  app.get<{
+    Querystring: {
+      "hub.mode"?: string;
+      "hub.verify_token"?: string;
+      "hub.challenge"?: string;
+    };
+  }>("/webhook/instagram", async (request, reply) => {
+    const mode = request.query["hub.mode"];
+    const verifyToken = request.query["hub.verify_token"];
+    const challenge = request.query["hub.challenge"];
+    const expectedToken = deps.env.metaWebhookVerifyToken.trim();
+
+    if (
+      mode !== "subscribe" ||
+      !challenge ||
+      !expectedToken ||
+      verifyToken !== expectedToken
+    ) {
+      deps.logger.warn(
+        { mode, hasChallenge: Boolean(challenge), tokenConfigured: Boolean(expectedToken) },
+        "Webhook verification rejected"
+      );
+      return reply.code(403).send({ error: "Webhook verification failed" });
+    }
+
+    await markWebhookVerified(deps.prisma);
+    deps.logger.info("Webhook verification succeeded");
+    return reply.code(200).type("text/plain").send(challenge);
+  });
+
   app.post<{ Body: MetaWebhookPayload }>(
     "/webhook/instagram",
     {
@@ -41,6 +121,10 @@ export function registerWebhookRoutes(
       }
     },
     async (request, reply) => {
+      if (deps.isShuttingDown?.()) {
+        return reply.code(503).send({ error: "Server is shutting down" });
+      }
+
       const rawSignature = request.headers["x-hub-signature-256"];
       const signature = Array.isArray(rawSignature)
         ? rawSignature[0]
@@ -55,7 +139,7 @@ export function registerWebhookRoutes(
       const jobs = extractJobs(payload);
 
       for (const job of jobs) {
-        deps.queue.enqueue({
+        await deps.queue.enqueue({
           ...job,
           rawPayload: payload
         });
@@ -68,7 +152,26 @@ export function registerWebhookRoutes(
 }
 
 export function createWebhookWorker(deps: WorkerDeps) {
-  return async (job: ParsedWebhookJob): Promise<void> => {
+  return async (job: WebhookJob, context?: JobContext): Promise<void> => {
+    if (isMessageEventJob(job)) {
+      await applyMessageEvent(deps.prisma, deps.logger, job);
+      return;
+    }
+
+    const attempt = context?.attempt ?? 1;
+    // Retries and dead-letter requeues pick up the records their first run wrote.
+    const resumed = attempt > 1 || context?.resume === true;
+
+    if (isCommentJob(job)) {
+      await processComment(deps, job, resumed);
+      return;
+    }
+
+    if (isBurstDraftJob(job)) {
+      await processBurst(deps, job, resumed);
+      return;
+    }
+
     const receivedAt = Number.isFinite(job.timestamp)
       ? new Date(job.timestamp)
       : new Date();
@@ -83,11 +186,24 @@ export function createWebhookWorker(deps: WorkerDeps) {
       }
     });
 
+    // Jobs persisted before attachments and stories were parsed lack those fields.
+    const attachments = job.attachments ?? [];
+    const story = job.story ?? null;
+    const actionPayload = job.actionPayload ?? null;
+    const hasText = job.text.trim().length > 0;
+    const coalesce =
+      deps.env.burstWindowMs > 0 &&
+      hasText &&
+      attachments.length === 0 &&
+      !story &&
+      !actionPayload &&
+      !job.isFromSelfOrSystem;
+
     const existing = await deps.prisma.message.findUnique({
       where: { igMessageId: job.messageId }
     });
 
-    if (existing) {
+    if (existing && !resumed) {
       deps.logger.info({ igMessageId: job.messageId }, "Duplicate message skipped");
       return;
     }
@@ -98,18 +214,46 @@ export function createWebhookWorker(deps: WorkerDeps) {
       create: { igThreadId: job.threadId }
     });
 
-    const inbound = await deps.prisma.message.create({
-      data: {
-        igMessageId: job.messageId,
-        threadId: thread.id,
-        senderIgId: job.senderId,
-        direction: MessageDirection.IN,
-        text: job.text,
-        receivedAt
+    if (existing) {
+      // A requeued job must not answer a message that was unsent or already
+      // answered, e.g. after "Reply sent but outbound record could not be saved".
+      if (existing.deletedAt || (await hasSentReply(deps.prisma, existing))) {
+        deps.logger.info(
+          { igMessageId: job.messageId, attempt },
+          "Retried message already answered or unsent"
+        );
+        return;
       }
-    });
+      deps.logger.info({ igMessageId: job.messageId, attempt }, "Resuming retried message");
+    }
+
+    const inbound =
+      existing ??
+      (await deps.prisma.message.create({
+        data: {
+          igMessageId: job.messageId,
+          threadId: thread.id,
+          senderIgId: job.senderId,
+          direction: MessageDirection.IN,
+          text: job.text,
+          language: detectLanguage(job.text),
+          receivedAt,
+          storyInteraction: story ? toStoryInteraction(story) : null,
+          storyId: story?.storyId ?? null,
+          storyUrl: story?.url ?? null,
+          actionPayload,
+          awaitingDraft: coalesce,
+          attachments: {
+            create: attachments.map((attachment) => ({
+              type: attachment.type,
+              url: attachment.url,
+              title: attachment.title
+            }))
+          }
+        }
+      }));
 
-    if (!job.text.trim()) {
+    if (!hasText && attachments.length === 0 && !actionPayload) {
       await createSkipLog(deps.prisma, inbound.id, "Guardrail: empty message text");
       return;
     }
@@ -119,94 +263,368 @@ export function createWebhookWorker(deps: WorkerDeps) {
       return;
     }
 
-    const contact = await deps.prisma.contact.upsert({
-      where: { senderIgId: job.senderId },
-      update: {},
-      create: {
-        senderIgId: job.senderId,
-        segment: ContactSegment.STRANGER
-      }
+    if (coalesce) {
+      await deps.queue.enqueue(
+        { burstLeaderId: inbound.id, senderId: job.senderId, threadId: job.threadId },
+        { delayMs: deps.env.burstWindowMs }
+      );
+      deps.logger.info({ igMessageId: job.messageId }, "Message held for burst coalescing");
+      return;
+    }
+
+    await replyToInbound(deps, {
+      inbound,
+      historyBefore: inbound,
+      threadId: thread.id,
+      senderId: job.senderId,
+      text: job.text,
+      story,
+      actionPayload
     });
+  };
+}
 
-    const policy = await ensurePolicy(deps.prisma, contact.segment);
+async function processBurst(
+  deps: WorkerDeps,
+  job: BurstDraftJob,
+  resumed: boolean
+): Promise<void> {
+  const members = await claimBurst(deps.prisma, job.burstLeaderId, resumed);
+  if (!members) {
+    deps.logger.info({ burstLeaderId: job.burstLeaderId }, "Burst superseded or already drafted");
+    return;
+  }
 
-    const draft = policy.template?.trim()
-      ? {
-          intent: "general_question" as const,
-          confidence: 0.99,
-          reply: policy.template.trim(),
-          needs_human_approval: false
-        }
-      : deps.rules.generateDraft(job.text) ?? (await deps.llm.generateDraft(job.text));
+  const target = members[members.length - 1];
+  deps.logger.info(
+    { messageId: target.id, coalesced: members.length },
+    "Drafting coalesced message burst"
+  );
+
+  await replyToInbound(deps, {
+    inbound: target,
+    historyBefore: members[0],
+    threadId: target.threadId,
+    senderId: job.senderId,
+    text: combineBurstText(members),
+    story: null,
+    actionPayload: null
+  });
+}
+
+async function replyToInbound(deps: WorkerDeps, input: InboundReply): Promise<void> {
+  const { inbound, story, actionPayload } = input;
+  const hasText = input.text.trim().length > 0;
+
+  let contact = await deps.prisma.contact.upsert({
+    where: { senderIgId: input.senderId },
+    update: {},
+    create: {
+      senderIgId: input.senderId,
+      segment: ContactSegment.STRANGER
+    }
+  });
+
+  const handler = actionPayload ? await deps.payloadHandlers.resolve(actionPayload) : null;
+  const handlerReply = handler?.reply?.trim();
+
+  if (handler?.action === PayloadAction.SET_SEGMENT && handler.segment) {
+    contact = await deps.prisma.contact.update({
+      where: { id: contact.id },
+      data: { segment: handler.segment }
+    });
+  }
 
+  if (handler?.action === PayloadAction.HANDOFF) {
     await deps.prisma.message.update({
       where: { id: inbound.id },
       data: {
-        intent: draft.intent,
-        confidence: draft.confidence,
-        suggestedReply: draft.reply,
-        needsHumanApproval: draft.needs_human_approval
+        suggestedReply: handlerReply || null,
+        needsHumanApproval: true
       }
     });
+    await createSkipLog(
+      deps.prisma,
+      inbound.id,
+      `Handoff: payload ${handler.payload} routed to a human`
+    );
+    return;
+  }
 
-    if (!policy.autoSend) {
-      await createSkipLog(
-        deps.prisma,
-        inbound.id,
-        `Policy: auto-send disabled for segment ${contact.segment}`
-      );
-      return;
+  const policy = await ensurePolicy(deps.prisma, contact.segment);
+  // A burst is detected as a whole, which beats guessing from its first line.
+  const language = detectLanguage(input.text);
+  const storyTemplate = story ? policy.storyTemplate?.trim() : undefined;
+  const fixedReply =
+    handlerReply ||
+    storyTemplate ||
+    (hasText ? resolveTemplate(policy, language) : policy.mediaTemplate?.trim());
+
+  if (!hasText && !fixedReply) {
+    await createSkipLog(
+      deps.prisma,
+      inbound.id,
+      `Policy: no ${story ? "story" : "media"} template for segment ${contact.segment}`
+    );
+    return;
+  }
+
+  const matchedRule = fixedReply
+    ? null
+    : await deps.rules.generateDraft(input.text, contact.segment, language);
+  const ruleDraft: LlmDraft | null = fixedReply
+    ? {
+        intent:
+          storyTemplate && !handlerReply
+            ? ("story_engagement" as const)
+            : ("general_question" as const),
+        confidence: 0.99,
+        reply: fixedReply,
+        needs_human_approval: false
+      }
+    : matchedRule;
+  const knowledge = ruleDraft
+    ? []
+    : await deps.knowledge.search(input.text, deps.env.knowledgeTopK);
+  const voice = ruleDraft ? null : await resolvePromptProfile(deps.prisma, contact.segment);
+  const generated: ServedDraft =
+    ruleDraft ??
+    applyVoice(
+      await deps.llm.generateDraft(input.text, {
+        story,
+        history: await loadThreadHistory(deps.prisma, input.threadId, {
+          before: input.historyBefore,
+          maxMessages: deps.env.llmHistoryMaxMessages
+        }),
+        knowledge,
+        voice,
+        intents: await deps.intents.list(),
+        language
+      }),
+      voice
+    );
+  const intentPolicy = await findIntentPolicy(deps.prisma, contact.segment, generated.intent);
+  const routed = fixedReply ? generated : applyIntentTemplate(generated, intentPolicy);
+  // Only business-written replies are templates; model output is sent as drafted.
+  const draft =
+    ruleDraft || routed !== generated
+      ? renderDraftReply(routed, deps.env, {
+          contactName: contact.name,
+          segment: contact.segment,
+          language
+        })
+      : routed;
+
+  await deps.prisma.message.update({
+    where: { id: inbound.id },
+    data: {
+      intent: draft.intent,
+      confidence: draft.confidence,
+      suggestedReply: draft.reply,
+      needsHumanApproval: draft.needs_human_approval,
+      llmProvider: draft.provider ?? null,
+      knowledgeArticleIds: [...new Set(knowledge.map((snippet) => snippet.articleId))],
+      promptProfileId: voice?.id ?? null,
+      ruleMatch: matchedRule ? (matchedRule.match as Prisma.InputJsonValue) : Prisma.DbNull,
+      language
     }
+  });
 
-    if (policy.requireHumanApproval) {
-      await createSkipLog(
-        deps.prisma,
-        inbound.id,
-        `Policy: human approval required for segment ${contact.segment}`
-      );
-      return;
+  const skipReason = getSendSkipReason(
+    policy,
+    intentPolicy,
+    contact.segment,
+    draft,
+    Boolean(story)
+  );
+  if (skipReason) {
+    await createSkipLog(deps.prisma, inbound.id, skipReason);
+    return;
+  }
+
+  let send: SendMessageResult;
+  try {
+    send = await deps.ig.sendMessage(input.senderId, draft.reply);
+  } catch (error) {
+    await deps.prisma.deliveryLog.create({
+      data: {
+        messageId: inbound.id,
+        status: "ERROR",
+        error: toErrorMessage(error)
+      }
+    });
+
+    if (isRetryableError(error)) {
+      throw error;
     }
+    return;
+  }
 
-    if (draft.confidence < 0.6 || draft.needs_human_approval) {
-      await createSkipLog(
-        deps.prisma,
-        inbound.id,
-        "Guardrail: low confidence or human approval required"
-      );
-      return;
+  try {
+    const outbound = await deps.prisma.message.create({
+      data: {
+        igMessageId: send.messageId,
+        threadId: input.threadId,
+        senderIgId: deps.env.metaIgBusinessAccountId,
+        direction: MessageDirection.OUT,
+        text: draft.reply,
+        receivedAt: new Date()
+      }
+    });
+
+    await deps.prisma.deliveryLog.create({
+      data: {
+        messageId: outbound.id,
+        status: "SENT",
+        latencyMs: send.latencyMs
+      }
+    });
+  } catch (error) {
+    // Best effort: marks the inbound as answered so a requeue does not send twice.
+    await deps.prisma.deliveryLog
+      .create({ data: { messageId: inbound.id, status: "SENT", latencyMs: send.latencyMs } })
+      .catch(() => undefined);
+    throw new PermanentJobError("Reply sent but outbound record could not be saved", {
+      cause: error
+    });
+  }
+}
+
+async function processComment(
+  deps: WorkerDeps,
+  job: ParsedCommentJob,
+  resumed: boolean
+): Promise<void> {
+  if (job.isFromSelf) {
+    deps.logger.info({ igCommentId: job.commentId }, "Own comment skipped");
+    return;
+  }
+
+  const existing = await deps.prisma.comment.findUnique({
+    where: { igCommentId: job.commentId }
+  });
+
+  if (existing && !resumed) {
+    deps.logger.info({ igCommentId: job.commentId }, "Duplicate comment skipped");
+    return;
+  }
+
+  const comment =
+    existing ??
+    (await deps.prisma.comment.create({
+      data: {
+        igCommentId: job.commentId,
+        mediaId: job.mediaId,
+        parentIgCommentId: job.parentCommentId,
+        senderIgId: job.senderId,
+        username: job.username,
+        text: job.text,
+        receivedAt: Number.isFinite(job.timestamp) ? new Date(job.timestamp) : new Date()
+      }
+    }));
+
+  const markSkipped = async (reason: string): Promise<void> => {
+    await deps.prisma.comment.update({
+      where: { id: comment.id },
+      data: { replyStatus: "SKIPPED", replyError: reason }
+    });
+  };
+
+  if (!job.text.trim()) {
+    await markSkipped("Guardrail: empty comment text");
+    return;
+  }
+
+  const contact = await deps.prisma.contact.upsert({
+    where: { senderIgId: job.senderId },
+    update: {},
+    create: {
+      senderIgId: job.senderId,
+      name: job.username,
+      segment: ContactSegment.STRANGER
+    }
+  });
+
+  const policy = await ensurePolicy(deps.prisma, contact.segment);
+  const language = detectLanguage(job.text);
+  const template = resolveTemplate(policy, language);
+  const ruleDraft: LlmDraft | null = template
+    ? {
+        intent: "general_question" as const,
+        confidence: 0.99,
+        reply: template,
+        needs_human_approval: false
+      }
+    : await deps.rules.generateDraft(job.text, contact.segment, language);
+  const knowledge = ruleDraft ? [] : await deps.knowledge.search(job.text, deps.env.knowledgeTopK);
+  const voice = ruleDraft ? null : await resolvePromptProfile(deps.prisma, contact.segment);
+  const generated: ServedDraft =
+    ruleDraft ??
+    applyVoice(
+      await deps.llm.generateDraft(job.text, {
+        knowledge,
+        voice,
+        intents: await deps.intents.list(),
+        language
+      }),
+      voice
+    );
+  const intentPolicy = await findIntentPolicy(deps.prisma, contact.segment, generated.intent);
+  const routed = template ? generated : applyIntentTemplate(generated, intentPolicy);
+  const draft =
+    ruleDraft || routed !== generated
+      ? renderDraftReply(routed, deps.env, {
+          contactName: contact.name,
+          segment: contact.segment,
+          language
+        })
+      : routed;
+
+  await deps.prisma.comment.update({
+    where: { id: comment.id },
+    data: {
+      intent: draft.intent,
+      confidence: draft.confidence,
+      suggestedReply: draft.reply,
+      needsHumanApproval: draft.needs_human_approval,
+      llmProvider: draft.provider ?? null,
+      knowledgeArticleIds: [...new Set(knowledge.map((snippet) => snippet.articleId))],
+      replyMode: policy.commentReplyMode
     }
+  });
 
-    try {
-      const send = await deps.ig.sendMessage(job.senderId, draft.reply);
+  const skipReason = getSendSkipReason(policy, intentPolicy, contact.segment, draft, false);
+  if (skipReason) {
+    await markSkipped(skipReason);
+    return;
+  }
 
-      const outbound = await deps.prisma.message.create({
-        data: {
-          igMessageId: send.messageId,
-          threadId: thread.id,
-          senderIgId: deps.env.metaIgBusinessAccountId,
-          direction: MessageDirection.OUT,
-          text: draft.reply,
-          receivedAt: new Date()
-        }
-      });
+  try {
+    const send = await sendCommentReply(
+      deps.ig,
+      policy.commentReplyMode,
+      job.commentId,
+      draft.reply
+    );
+    await deps.prisma.comment.update({
+      where: { id: comment.id },
+      data: {
+        replyStatus: "SENT",
+        replyError: null,
+        replyIgId: send.messageId,
+        repliedAt: new Date()
+      }
+    });
+  } catch (error) {
+    await deps.prisma.comment.update({
+      where: { id: comment.id },
+      data: { replyStatus: "ERROR", replyError: toErrorMessage(error) }
+    });
 
-      await deps.prisma.deliveryLog.create({
-        data: {
-          messageId: outbound.id,
-          status: "SENT",
-          latencyMs: send.latencyMs
-        }
-      });
-    } catch (error) {
-      await deps.prisma.deliveryLog.create({
-        data: {
-          messageId: inbound.id,
-          status: "ERROR",
-          error: toErrorMessage(error)
-        }
-      });
+    if (isRetryableError(error)) {
+      throw error;
     }
-  };
+  }
 }
 
 async function createSkipLog(
@@ -223,8 +641,13 @@ async function createSkipLog(
   });
 }
 
-function extractJobs(payload: MetaWebhookPayload): Omit<ParsedWebhookJob, "rawPayload">[] {
-  const jobs: Omit<ParsedWebhookJob, "rawPayload">[] = [];
+type ExtractedJob =
+  | Omit<ParsedWebhookJob, "rawPayload">
+  | Omit<ParsedMessageEventJob, "rawPayload">
+  | Omit<ParsedCommentJob, "rawPayload">;
+
+function extractJobs(payload: MetaWebhookPayload): ExtractedJob[] {
+  const jobs: ExtractedJob[] = [];
 
   for (const entry of payload.entry ?? []) {
     for (const event of entry.messaging ?? []) {
@@ -233,33 +656,147 @@ function extractJobs(payload: MetaWebhookPayload): Omit<ParsedWebhookJob, "rawPa
         jobs.push(job);
       }
     }
+
+    for (const change of entry.changes ?? []) {
+      const job = changeToCommentJob(entry.id ?? "unknown_account", entry.time, change);
+      if (job) {
+        jobs.push(job);
+      }
+    }
   }
 
   return jobs;
 }
 
-function eventToJob(
+function changeToCommentJob(
   entryId: string,
-  event: MetaMessagingEvent
-): Omit<ParsedWebhookJob, "rawPayload"> | null {
-  const messageId = event.message?.mid;
+  entryTime: number | undefined,
+  change: MetaChange
+): Omit<ParsedCommentJob, "rawPayload"> | null {
+  const commentId = change.value?.id;
+  const senderId = change.value?.from?.id;
+
+  if (change.field !== "comments" || !commentId || !senderId) {
+    return null;
+  }
+
+  const mediaId = change.value?.media?.id ?? "unknown_media";
+
+  return {
+    commentId,
+    mediaId,
+    parentCommentId: change.value?.parent_id ?? null,
+    senderId,
+    username: change.value?.from?.username ?? null,
+    text: change.value?.text ?? "",
+    // Change entries carry `time` in epoch seconds.
+    timestamp: entryTime ? entryTime * 1000 : Date.now(),
+    threadId: `comments_${mediaId}_${senderId}`,
+    isFromSelf: senderId === entryId
+  };
+}
+
+function eventToJob(entryId: string, event: MetaMessagingEvent): ExtractedJob | null {
   const senderId = event.sender?.id;
 
-  if (!messageId || !senderId) {
+  if (!senderId) {
+    return null;
+  }
+
+  const timestamp = event.timestamp ?? Date.now();
+  const threadId = event.conversation?.id ?? `${entryId}_${senderId}`;
+  const messageEvent = toMessageEvent(event);
+
+  if (messageEvent) {
+    return { event: messageEvent, senderId, timestamp, threadId };
+  }
+
+  const messageId = event.message?.mid ?? event.postback?.mid;
+
+  if (!messageId) {
     return null;
   }
 
   return {
     messageId,
     senderId,
-    text: event.message?.text ?? "",
-    timestamp: event.timestamp ?? Date.now(),
-    threadId: event.conversation?.id ?? `${entryId}_${senderId}`,
+    text: event.message?.text ?? event.postback?.title ?? "",
+    attachments: (event.message?.attachments ?? []).map(toParsedAttachment),
+    story: toParsedStory(event),
+    actionPayload: event.message?.quick_reply?.payload ?? event.postback?.payload ?? null,
+    timestamp,
+    threadId,
     isFromSelfOrSystem:
       Boolean(event.message?.is_echo) || event.sender?.id === event.recipient?.id
   };
 }
 
+function toMessageEvent(event: MetaMessagingEvent): ParsedMessageEvent | null {
+  if (event.reaction?.mid) {
+    return {
+      type: "reaction",
+      messageId: event.reaction.mid,
+      action: event.reaction.action === "unreact" ? "unreact" : "react",
+      reaction: event.reaction.reaction ?? null,
+      emoji: event.reaction.emoji ?? null
+    };
+  }
+
+  if (event.read) {
+    return { type: "read", messageId: event.read.mid ?? null };
+  }
+
+  if (event.message_edit?.mid) {
+    return {
+      type: "edit",
+      messageId: event.message_edit.mid,
+      text: event.message_edit.text ?? ""
+    };
+  }
+
+  if (event.message?.is_deleted && event.message.mid) {
+    return { type: "unsend", messageId: event.message.mid };
+  }
+
+  return null;
+}
+
+function toParsedAttachment(attachment: MetaAttachment): ParsedAttachment {
+  return {
+    type: attachment.type?.trim() || "unknown",
+    url: attachment.payload?.url ?? null,
+    title: attachment.payload?.title ?? null
+  };
+}
+
+function toParsedStory(event: MetaMessagingEvent): ParsedStory | null {
+  const repliedStory = event.message?.reply_to?.story;
+  if (repliedStory) {
+    return {
+      interaction: "reply",
+      storyId: repliedStory.id ?? null,
+      url: repliedStory.url ?? null
+    };
+  }
+
+  const mention = event.message?.attachments?.find(
+    (attachment) => attachment.type === "story_mention"
+  );
+  if (mention) {
+    return {
+      interaction: "mention",
+      storyId: null,
+      url: mention.payload?.url ?? null
+    };
+  }
+
+  return null;
+}
+
+function toStoryInteraction(story: ParsedStory): StoryInteraction {
+  return story.interaction === "mention" ? StoryInteraction.MENTION : StoryInteraction.REPLY;
+}
+
 function toErrorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
   return String(error);
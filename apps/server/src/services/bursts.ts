@@ -0,0 +1,67 @@
+import { Message, MessageDirection, PrismaClient } from "@prisma/client";
+import { BurstDraftJob, WebhookJob } from "../types/meta";
+
+export function isBurstDraftJob(job: WebhookJob): job is BurstDraftJob {
+  return "burstLeaderId" in job;
+}
+
+export function combineBurstText(messages: Array<Pick<Message, "text">>): string {
+  return messages
+    .map((message) => message.text?.trim() ?? "")
+    .filter(Boolean)
+    .join("\n");
+}
+
+export async function claimBurst(
+  prisma: PrismaClient,
+  burstLeaderId: string,
+  resumed: boolean
+): Promise<Message[] | null> {
+  const leader = await prisma.message.findUnique({
+    where: { id: burstLeaderId },
+    include: { coalescedMessages: { orderBy: { receivedAt: "asc" } } }
+  });
+
+  if (!leader) return null;
+
+  if (!leader.awaitingDraft) {
+    // A retried or requeued job finds the burst already claimed by its first attempt.
+    if (!resumed || leader.deletedAt) return null;
+    const { coalescedMessages, ...claimedLeader } = leader;
+    return [...coalescedMessages, claimedLeader];
+  }
+
+  const pending = await prisma.message.findMany({
+    where: {
+      threadId: leader.threadId,
+      direction: MessageDirection.IN,
+      awaitingDraft: true
+    },
+    orderBy: { receivedAt: "asc" }
+  });
+
+  // A newer message restarted the window; its own job drafts the whole burst.
+  if (pending.some((message) => message.receivedAt > leader.receivedAt)) {
+    return null;
+  }
+
+  const members = pending.filter((message) => !message.deletedAt);
+  const target = members.at(-1);
+
+  await prisma.message.updateMany({
+    where: { id: { in: pending.map((message) => message.id) } },
+    data: { awaitingDraft: false }
+  });
+
+  if (!target) return null;
+
+  const coalescedIds = members.slice(0, -1).map((message) => message.id);
+  if (coalescedIds.length > 0) {
+    await prisma.message.updateMany({
+      where: { id: { in: coalescedIds } },
+      data: { coalescedIntoId: target.id }
+    });
+  }
+
+  return members;
+}
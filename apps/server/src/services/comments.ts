@@ -0,0 +1,28 @@
+import { Comment, CommentReplyMode, PrismaClient } from "@prisma/client";
+import { ParsedCommentJob, WebhookJob } from "../types/meta";
+import { IgService, SendMessageResult } from "./ig";
+
+export function isCommentJob(job: WebhookJob): job is ParsedCommentJob {
+  return "commentId" in job;
+}
+
+export async function sendCommentReply(
+  ig: IgService,
+  mode: CommentReplyMode,
+  igCommentId: string,
+  text: string
+): Promise<SendMessageResult> {
+  return mode === CommentReplyMode.PUBLIC
+    ? ig.replyToComment(igCommentId, text)
+    : ig.sendPrivateReply(igCommentId, text);
+}
+
+export async function listRecentComments(
+  prisma: PrismaClient,
+  take = 20
+): Promise<Comment[]> {
+  return prisma.comment.findMany({
+    orderBy: { receivedAt: "desc" },
+    take
+  });
+}
@@ -60,6 +60,19 @@ export async function markInstagramConnectionError(
   });
 }
 
+export async function markWebhookVerified(
+  prisma: PrismaClient
+): Promise<InstagramConnection> {
+  const record = await getOrCreateInstagramConnection(prisma);
+
+  return prisma.instagramConnection.update({
+    where: { id: record.id },
+    data: {
+      webhookVerifiedAt: new Date()
+    }
+  });
+}
+
 export async function disconnectInstagramConnection(
   prisma: PrismaClient
 ): Promise<InstagramConnection> {
@@ -0,0 +1,60 @@
+import { DeadLetterJob, Prisma, PrismaClient } from "@prisma/client";
+import { JobQueue } from "../queue/jobQueue";
+
+export async function recordDeadLetter(
+  prisma: PrismaClient,
+  input: {
+    queue: string;
+    payload: unknown;
+    attempts: number;
+    error: unknown;
+  }
+): Promise<DeadLetterJob> {
+  return prisma.deadLetterJob.create({
+    data: {
+      queue: input.queue,
+      payload: input.payload as Prisma.InputJsonValue,
+      attempts: input.attempts,
+      lastError: toErrorMessage(input.error)
+    }
+  });
+}
+
+export async function listDeadLetters(
+  prisma: PrismaClient,
+  take = 50
+): Promise<DeadLetterJob[]> {
+  return prisma.deadLetterJob.findMany({
+    orderBy: { failedAt: "desc" },
+    take
+  });
+}
+
+export async function requeueDeadLetter<T>(
+  prisma: PrismaClient,
+  queue: JobQueue<T>,
+  id: string
+): Promise<DeadLetterJob | null> {
+  const deadLetter = await prisma.deadLetterJob.findUnique({ where: { id } });
+  if (!deadLetter) return null;
+
+  await queue.enqueue(deadLetter.payload as T, { resume: true });
+  await prisma.deadLetterJob.delete({ where: { id } });
+  return deadLetter;
+}
+
+export async function discardDeadLetter(
+  prisma: PrismaClient,
+  id: string
+): Promise<DeadLetterJob | null> {
+  const deadLetter = await prisma.deadLetterJob.findUnique({ where: { id } });
+  if (!deadLetter) return null;
+
+  await prisma.deadLetterJob.delete({ where: { id } });
+  return deadLetter;
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
@@ -0,0 +1,32 @@
+import { MessageDirection, PrismaClient } from "@prisma/client";
+import { HistoryTurn } from "../types/llm";
+
+export async function loadThreadHistory(
+  prisma: PrismaClient,
+  threadId: string,
+  options: { before: { id: string; receivedAt: Date }; maxMessages: number }
+): Promise<HistoryTurn[]> {
+  if (options.maxMessages <= 0) return [];
+
+  const messages = await prisma.message.findMany({
+    where: {
+      threadId,
+      id: { not: options.before.id },
+      receivedAt: { lte: options.before.receivedAt },
+      deletedAt: null,
+      text: { not: null }
+    },
+    orderBy: { receivedAt: "desc" },
+    take: options.maxMessages,
+    select: { direction: true, text: true, receivedAt: true }
+  });
+
+  return messages
+    .reverse()
+    .filter((message) => message.text?.trim())
+    .map((message) => ({
+      role: message.direction === MessageDirection.IN ? "customer" : "business",
+      text: message.text ?? "",
+      sentAt: message.receivedAt
+    }));
+}
@@ -1,4 +1,5 @@
 import { FastifyBaseLogger } from "fastify";
+import { GraphApiError } from "../utils/errors";
 
 export interface SendMessageResult {
   messageId: string;
@@ -7,6 +8,8 @@ export interface SendMessageResult {
 
 export interface IgService {
   sendMessage(toIgUserId: string, text: string): Promise<SendMessageResult>;
+  replyToComment(commentId: string, text: string): Promise<SendMessageResult>;
+  sendPrivateReply(commentId: string, text: string): Promise<SendMessageResult>;
 }
 
 type InstagramServiceOptions = {
@@ -37,20 +40,66 @@ export class InstagramGraphService implements IgService {
 
   async sendMessage(toIgUserId: string, text: string): Promise<SendMessageResult> {
     const credentials = await this.getCredentials();
+    const result = await this.post(
+      credentials.accessToken,
+      `https://graph.facebook.com/v20.0/${credentials.businessAccountId}/messages`,
+      {
+        messaging_product: "instagram",
+        recipient: { id: toIgUserId },
+        message: { text }
+      },
+      "message_id"
+    );
+
+    this.logger.info({ latencyMs: result.latencyMs, toIgUserId }, "IG message sent");
+    return result;
+  }
+
+  async replyToComment(commentId: string, text: string): Promise<SendMessageResult> {
+    const credentials = await this.getCredentials();
+    const result = await this.post(
+      credentials.accessToken,
+      `https://graph.facebook.com/v20.0/${commentId}/replies`,
+      { message: text },
+      "id"
+    );
+
+    this.logger.info({ latencyMs: result.latencyMs, commentId }, "IG comment reply posted");
+    return result;
+  }
+
+  async sendPrivateReply(commentId: string, text: string): Promise<SendMessageResult> {
+    const credentials = await this.getCredentials();
+    const result = await this.post(
+      credentials.accessToken,
+      `https://graph.facebook.com/v20.0/${credentials.businessAccountId}/messages`,
+      {
+        messaging_product: "instagram",
+        recipient: { comment_id: commentId },
+        message: { text }
+      },
+      "message_id"
+    );
+
+    this.logger.info({ latencyMs: result.latencyMs, commentId }, "IG private reply sent");
+    return result;
+  }
+
+  private async post(
+    accessToken: string,
+    url: string,
+    payload: Record<string, unknown>,
+    idField: string
+  ): Promise<SendMessageResult> {
     const startedAt = Date.now();
-    const url = `https://graph.facebook.com/v20.0/${credentials.businessAccountId}/messages`;
 
     const response = await fetch(url, {
       method: "POST",
       headers: {
-        Authorization: `Bearer ${credentials.accessToken}`,
+        Authorization: `Bearer ${accessToken}`,
         "Content-Type": "application/json"
       },
-      body: JSON.stringify({
-        messaging_product: "instagram",
-        recipient: { id: toIgUserId },
-        message: { text }
-      })
+      body: JSON.stringify(payload)
     });
 
     const latencyMs = Date.now() - startedAt;
@@ -62,16 +111,17 @@ export class InstagramGraphService implements IgService {
     if (!response.ok) {
       const errorMessage = JSON.stringify(body);
       this.logger.error({ latencyMs, errorMessage }, "IG send failed");
-      throw new Error(`Meta Graph API error: ${response.status} ${errorMessage}`);
+      throw new GraphApiError(
+        response.status,
+        `Meta Graph API error: ${response.status} ${errorMessage}`
+      );
     }
 
     const messageId =
-      typeof body.message_id === "string"
-        ? body.message_id
+      typeof body[idField] === "string"
+        ? (body[idField] as string)
         : `out_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
-    this.logger.info({ latencyMs, toIgUserId }, "IG message sent");
-
     return { messageId, latencyMs };
   }
 
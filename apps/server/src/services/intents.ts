@@ -0,0 +1,169 @@
+import { IntentDefinition, PrismaClient } from "@prisma/client";
+import { IntentSpec, LlmDraft } from "../types/llm";
+
+export interface IntentTaxonomy {
+  list(): Promise<IntentSpec[]>;
+}
+
+export type IntentListing = IntentSpec & {
+  id: string | null;
+  builtIn: boolean;
+};
+
+export const FALLBACK_INTENT = "unknown";
+
+// Built-ins are always available; a database row with the same name only
+// overrides the description and examples.
+export const BUILT_IN_INTENTS: IntentSpec[] = [
+  {
+    name: "general_question",
+    description: "General questions about the business, products or availability.",
+    examples: ["Are you open on Sundays?"]
+  },
+  {
+    name: "pricing",
+    description: "Questions about prices, costs or discounts.",
+    examples: ["How much is the black hoodie?"]
+  },
+  {
+    name: "order_support",
+    description: "Problems with an existing order, purchase or invoice.",
+    examples: ["My invoice shows the wrong amount"]
+  },
+  {
+    name: "shipping",
+    description: "Delivery times, destinations and tracking.",
+    examples: ["Do you ship to Canada?"]
+  },
+  {
+    name: "refund",
+    description: "Refunds, returns and chargebacks.",
+    examples: ["I want to return my order"]
+  },
+  {
+    name: "story_engagement",
+    description: "Reactions to or mentions of a story when no other intent fits.",
+    examples: ["This looks amazing 🔥"]
+  },
+  {
+    name: FALLBACK_INTENT,
+    description: "Anything no other intent describes.",
+    examples: []
+  }
+];
+
+export function isBuiltInIntent(name: string): boolean {
+  return BUILT_IN_INTENTS.some((intent) => intent.name === name);
+}
+
+export function mergeIntents(rows: IntentDefinition[]): IntentListing[] {
+  const rowsByName = new Map(rows.map((row) => [row.name, row]));
+
+  const builtIns = BUILT_IN_INTENTS.map((intent) => {
+    const row = rowsByName.get(intent.name);
+    return {
+      id: row?.id ?? null,
+      name: intent.name,
+      description: row?.description ?? intent.description,
+      examples: row?.examples ?? intent.examples,
+      builtIn: true
+    };
+  });
+
+  const custom = rows
+    .filter((row) => !isBuiltInIntent(row.name))
+    .sort((left, right) => left.name.localeCompare(right.name))
+    .map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      examples: row.examples,
+      builtIn: false
+    }));
+
+  return [...builtIns, ...custom];
+}
+
+// Models occasionally invent labels; anything outside the taxonomy becomes the
+// fallback intent and goes to a human.
+export function normalizeDraftIntent<T extends LlmDraft>(draft: T, intents: IntentSpec[]): T {
+  if (intents.some((intent) => intent.name === draft.intent)) return draft;
+  return { ...draft, intent: FALLBACK_INTENT, needs_human_approval: true };
+}
+
+export class PrismaIntentTaxonomy implements IntentTaxonomy {
+  private readonly prisma: PrismaClient;
+  private intents: IntentSpec[] | null = null;
+  private version = "";
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async list(): Promise<IntentSpec[]> {
+    const stats = await this.prisma.intentDefinition.aggregate({
+      _count: { _all: true },
+      _max: { updatedAt: true }
+    });
+    const version = `${stats._count._all}:${stats._max.updatedAt?.toISOString() ?? ""}`;
+
+    if (!this.intents || version !== this.version) {
+      this.intents = mergeIntents(await this.prisma.intentDefinition.findMany()).map(
+        ({ name, description, examples }) => ({ name, description, examples })
+      );
+      this.version = version;
+    }
+
+    return this.intents;
+  }
+}
+
+export async function listIntents(prisma: PrismaClient): Promise<IntentListing[]> {
+  return mergeIntents(await prisma.intentDefinition.findMany());
+}
+
+export async function saveIntent(
+  prisma: PrismaClient,
+  input: IntentSpec
+): Promise<IntentDefinition> {
+  const data = { description: input.description, examples: input.examples };
+
+  return prisma.intentDefinition.upsert({
+    where: { name: input.name },
+    update: data,
+    create: { name: input.name, ...data }
+  });
+}
+
+export async function deleteIntent(
+  prisma: PrismaClient,
+  id: string
+): Promise<IntentDefinition | null> {
+  const intent = await prisma.intentDefinition.findUnique({ where: { id } });
+  if (!intent) return null;
+
+  await prisma.intentDefinition.delete({ where: { id } });
+  // Built-ins survive as defaults, so only a custom intent takes its routing cells with it.
+  if (!isBuiltInIntent(intent.name)) {
+    await prisma.intentPolicy.deleteMany({ where: { intent: intent.name } });
+  }
+  return intent;
+}
+
+// Accepts a comma/whitespace separated form value or a JSON array.
+export function parseIntentNames(raw: string | string[] | undefined): string[] {
+  const names = (Array.isArray(raw) ? raw : (raw ?? "").split(/[\s,]+/))
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+export async function findUnknownIntents(
+  prisma: PrismaClient,
+  names: string[]
+): Promise<string[]> {
+  if (names.length === 0) return [];
+
+  const known = new Set((await listIntents(prisma)).map((intent) => intent.name));
+  return names.filter((name) => !known.has(name));
+}
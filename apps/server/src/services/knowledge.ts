@@ -0,0 +1,195 @@
+import { KnowledgeArticle, PrismaClient } from "@prisma/client";
+import { KnowledgeSnippet } from "../types/llm";
+
+export interface KnowledgeRetriever {
+  search(query: string, limit: number): Promise<KnowledgeSnippet[]>;
+}
+
+export type KnowledgeArticleInput = {
+  title: string;
+  body: string;
+  enabled: boolean;
+};
+
+type IndexedChunk = {
+  articleId: string;
+  title: string;
+  text: string;
+  termCounts: Map<string, number>;
+  length: number;
+};
+
+const CHUNK_MAX_WORDS = 120;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can do does for from have how i if in is it its me my " +
+    "no not of on or our so that the their them there they this to was we what when where " +
+    "which who why will with you your"
+  ).split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) =>
+      // Crude plural folding so "refunds" finds "refund" without a stemmer.
+      token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token
+    );
+}
+
+// Paragraphs are packed into chunks of up to CHUNK_MAX_WORDS; a longer
+// paragraph is split on word boundaries.
+export function chunkArticle(body: string): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) chunks.push(current.join(" "));
+    current = [];
+  };
+
+  for (const paragraph of body.split(/\n\s*\n/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+
+    if (current.length + words.length > CHUNK_MAX_WORDS) flush();
+
+    for (let start = 0; start < words.length; start += CHUNK_MAX_WORDS) {
+      current.push(...words.slice(start, start + CHUNK_MAX_WORDS));
+      if (current.length >= CHUNK_MAX_WORDS) flush();
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+export class Bm25Index {
+  private readonly chunks: IndexedChunk[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(articles: Array<Pick<KnowledgeArticle, "id" | "title" | "chunks">>) {
+    this.chunks = articles.flatMap((article) =>
+      article.chunks.map((text) => {
+        // The title is indexed with every chunk so short chunks stay findable by topic.
+        const terms = tokenize(`${article.title} ${text}`);
+        const termCounts = new Map<string, number>();
+        for (const term of terms) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+        return { articleId: article.id, title: article.title, text, termCounts, length: terms.length };
+      })
+    );
+
+    for (const chunk of this.chunks) {
+      for (const term of chunk.termCounts.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    const totalLength = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    this.averageLength = this.chunks.length > 0 ? totalLength / this.chunks.length : 0;
+  }
+
+  search(query: string, limit: number): KnowledgeSnippet[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || limit <= 0) return [];
+
+    return this.chunks
+      .map((chunk) => ({ chunk, score: this.score(chunk, terms) }))
+      .filter((entry) => entry.score > 0)
+      .sort((left, right) => right.score - left.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({
+        articleId: chunk.articleId,
+        title: chunk.title,
+        text: chunk.text,
+        score
+      }));
+  }
+
+  private score(chunk: IndexedChunk, terms: string[]): number {
+    const total = this.chunks.length;
+    let score = 0;
+
+    for (const term of terms) {
+      const frequency = chunk.termCounts.get(term);
+      if (!frequency) continue;
+
+      const documents = this.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+      const lengthNorm = 1 - BM25_B + (BM25_B * chunk.length) / (this.averageLength || 1);
+      score += (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+    }
+
+    return score;
+  }
+}
+
+// The index lives in memory and is rebuilt only when the article set changes,
+// which a count + latest updatedAt probe detects across processes.
+export class PrismaKnowledgeBase implements KnowledgeRetriever {
+  private readonly prisma: PrismaClient;
+  private index: Bm25Index | null = null;
+  private version = "";
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async search(query: string, limit: number): Promise<KnowledgeSnippet[]> {
+    if (limit <= 0) return [];
+
+    const stats = await this.prisma.knowledgeArticle.aggregate({
+      _count: { _all: true },
+      _max: { updatedAt: true }
+    });
+    const version = `${stats._count._all}:${stats._max.updatedAt?.toISOString() ?? ""}`;
+
+    if (!this.index || version !== this.version) {
+      const articles = await this.prisma.knowledgeArticle.findMany({ where: { enabled: true } });
+      this.index = new Bm25Index(articles);
+      this.version = version;
+    }
+
+    return this.index.search(query, limit);
+  }
+}
+
+export async function listKnowledgeArticles(prisma: PrismaClient): Promise<KnowledgeArticle[]> {
+  return prisma.knowledgeArticle.findMany({ orderBy: { title: "asc" } });
+}
+
+export async function saveKnowledgeArticle(
+  prisma: PrismaClient,
+  input: KnowledgeArticleInput
+): Promise<KnowledgeArticle> {
+  const data = {
+    body: input.body,
+    chunks: chunkArticle(input.body),
+    enabled: input.enabled
+  };
+
+  return prisma.knowledgeArticle.upsert({
+    where: { title: input.title },
+    update: data,
+    create: { title: input.title, ...data }
+  });
+}
+
+export async function deleteKnowledgeArticle(
+  prisma: PrismaClient,
+  id: string
+): Promise<KnowledgeArticle | null> {
+  const article = await prisma.knowledgeArticle.findUnique({ where: { id } });
+  if (!article) return null;
+
+  await prisma.knowledgeArticle.delete({ where: { id } });
+  return article;
+}
@@ -0,0 +1,79 @@
+export type Language = "en" | "es" | "pt";
+
+export type LanguageVariants<T> = Partial<Record<Language, T>>;
+
+export const LANGUAGES: Language[] = ["en", "es", "pt"];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese"
+};
+
+// Only words that are common in one language and rare in the others; shared
+// words like "de", "que" or "para" would just cancel out.
+const MARKER_WORDS: Record<Language, Set<string>> = {
+  en: new Set(
+    (
+      "the and is are you your i my to of it this that what how much do does have can for with " +
+      "please thanks thank hi hello where when want order shipping refund price"
+    ).split(" ")
+  ),
+  es: new Set(
+    (
+      "el la los las y es un una mi tu usted hola gracias quiero cuanto cuesta donde esta estan " +
+      "pero muy tienen hay envio envios precio puedo pedido devolucion reembolso ustedes"
+    ).split(" ")
+  ),
+  pt: new Set(
+    (
+      "o os e um uma meu minha voce voces ola oi obrigado obrigada quero quanto custa onde esta " +
+      "mas muito tem frete preco posso pedido devolucao reembolso nao sim do da dos das"
+    ).split(" ")
+  )
+};
+
+const MARKER_CHARACTERS: LanguageVariants<RegExp> = {
+  es: /[ñ¿¡]/gu,
+  pt: /[ãõçê]/gu
+};
+
+export function isLanguage(value: string): value is Language {
+  return LANGUAGES.includes(value as Language);
+}
+
+// Scores marker words and characters per language; returns null when nothing
+// scores or two languages tie, so a bare "ok 👍" is not guessed at.
+export function detectLanguage(text: string): Language | null {
+  const lowered = text.toLowerCase();
+  const words = lowered
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+
+  const scores = LANGUAGES.map((language) => {
+    const wordScore = words.filter((word) => MARKER_WORDS[language].has(word)).length;
+    const characters = MARKER_CHARACTERS[language];
+    const characterScore = characters ? (lowered.match(characters) ?? []).length * 2 : 0;
+    return { language, score: wordScore + characterScore };
+  }).sort((left, right) => right.score - left.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score === 0 || best.score === runnerUp.score) return null;
+  return best.language;
+}
+
+// Variants are stored as JSON; anything that is not a known language is dropped.
+export function readLanguageVariants<T>(
+  value: unknown,
+  isVariant: (variant: unknown) => variant is T
+): LanguageVariants<T> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+
+  const variants: LanguageVariants<T> = {};
+  for (const [language, variant] of Object.entries(value)) {
+    if (isLanguage(language) && isVariant(variant)) variants[language] = variant;
+  }
+  return variants;
+}
@@ -1,68 +1,619 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
 import OpenAI from "openai";
 import { FastifyBaseLogger } from "fastify";
-import { Env } from "../config/env";
-import { LlmDraft, llmDraftSchema } from "../types/llm";
+import { Env, HistoryTruncation, JsonMode, LlmProvider } from "../config/env";
+import {
+  DraftContext,
+  HistoryTurn,
+  IntentSpec,
+  KnowledgeSnippet,
+  LlmDraft,
+  llmDraftSchema,
+  MockLlmFixture,
+  mockLlmFixtureSchema,
+  ServedDraft,
+  VoiceProfile
+} from "../types/llm";
+import { CircuitBreaker } from "../utils/circuitBreaker";
+import { BUILT_IN_INTENTS, normalizeDraftIntent } from "./intents";
+import { isLanguage, LANGUAGE_NAMES } from "./language";
+import { LlmTimeoutError } from "../utils/errors";
 
 export interface LlmService {
-  generateDraft(text: string): Promise<LlmDraft>;
+  generateDraft(text: string, context?: DraftContext): Promise<ServedDraft>;
 }
 
-class OpenAiLlmService implements LlmService {
-  private readonly client: OpenAI;
-  private readonly model: string;
-  private readonly logger: FastifyBaseLogger;
+export type HistoryBudget = {
+  maxTokens: number;
+  truncation: HistoryTruncation;
+};
 
-  constructor(apiKey: string, model: string, logger: FastifyBaseLogger) {
-    this.client = new OpenAI({ apiKey });
-    this.model = model;
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+type OpenAiCompatibleOptions = {
+  name: LlmProvider;
+  label: string;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  timeoutMs?: number;
+  jsonMode: JsonMode;
+  logger: FastifyBaseLogger;
+  historyBudget: HistoryBudget;
+};
+
+const CLIP_MARKER = "…";
+const MIN_CLIP_TOKENS = 8;
+
+const ANTHROPIC_MESSAGES_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const DRAFT_TOOL_NAME = "submit_draft";
+
+const DEFAULT_PERSONA = "You are an Instagram support assistant.";
+
+const EMOJI_RULES: Record<VoiceProfile["emojiPolicy"], string> = {
+  NONE: "Do not use emoji.",
+  SPARING: "Use at most one emoji, and only when it fits.",
+  FREE: "Emoji are welcome where they feel natural."
+};
+
+const FALLBACK_PROVIDER = "fallback";
+
+const FALLBACK_DRAFT: LlmDraft = {
+  intent: "unknown",
+  confidence: 0.0,
+  reply: "Thanks for your message. A team member will review this shortly.",
+  needs_human_approval: true
+};
+
+// Providers throw on failure so the failover chain can move on; used on their
+// own, generateDraft falls back to the safe human-review draft instead.
+export abstract class DraftProvider implements LlmService {
+  readonly name: LlmProvider;
+  protected readonly logger: FastifyBaseLogger;
+
+  constructor(name: LlmProvider, logger: FastifyBaseLogger) {
+    this.name = name;
     this.logger = logger;
   }
 
-  async generateDraft(text: string): Promise<LlmDraft> {
+  abstract requestDraft(text: string, context: DraftContext): Promise<LlmDraft>;
+
+  async generateDraft(text: string, context: DraftContext = {}): Promise<ServedDraft> {
     const startedAt = Date.now();
 
     try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        temperature: 0.2,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are an Instagram support assistant. Return strict JSON only with keys: intent, confidence, reply, needs_human_approval. " +
-              "intent must be one of: general_question, pricing, order_support, shipping, refund, unknown. " +
-              "confidence must be 0..1. reply must be concise and friendly."
-          },
-          {
-            role: "user",
-            content: `Incoming DM: "${text}"`
-          }
-        ]
-      });
-
-      const raw = completion.choices[0]?.message?.content ?? "{}";
-      const parsed = llmDraftSchema.parse(JSON.parse(raw));
-
+      const draft = await this.requestDraft(text, context);
       this.logger.info(
-        { latencyMs: Date.now() - startedAt, intent: parsed.intent },
+        {
+          provider: this.name,
+          latencyMs: Date.now() - startedAt,
+          intent: draft.intent,
+          historyTurns: context.history?.length ?? 0
+        },
         "LLM draft generated"
       );
-
-      return parsed;
+      return { ...draft, provider: this.name };
     } catch (error) {
       this.logger.error(
-        { error, latencyMs: Date.now() - startedAt },
+        { error, provider: this.name, latencyMs: Date.now() - startedAt },
         "LLM draft generation failed"
       );
 
-      return {
-        intent: "unknown",
-        confidence: 0.0,
-        reply: "Thanks for your message. A team member will review this shortly.",
-        needs_human_approval: true
-      };
+      if (error instanceof LlmTimeoutError) throw error;
+      return { ...FALLBACK_DRAFT, provider: FALLBACK_PROVIDER };
+    }
+  }
+}
+
+class OpenAiLlmService extends DraftProvider {
+  private readonly client: OpenAI;
+  private readonly label: string;
+  private readonly model: string;
+  private readonly historyBudget: HistoryBudget;
+  private jsonMode: JsonMode;
+
+  constructor(options: OpenAiCompatibleOptions) {
+    super(options.name, options.logger);
+    // No SDK retries: a retry would outlast the failover timeout, and the
+    // failover chain and the job queue already retry.
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs,
+      maxRetries: 0
+    });
+    this.label = options.label;
+    this.model = options.model;
+    this.historyBudget = options.historyBudget;
+    this.jsonMode = options.jsonMode;
+  }
+
+  async requestDraft(text: string, context: DraftContext): Promise<LlmDraft> {
+    const history = fitHistoryToBudget(context.history ?? [], this.historyBudget);
+
+    try {
+      const raw = await this.complete(buildPromptMessages(text, context, history));
+      return parseDraft(extractJsonObject(raw), context);
+    } catch (error) {
+      if (error instanceof OpenAI.APIConnectionTimeoutError) {
+        throw new LlmTimeoutError(`${this.label} draft request timed out`, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  private async complete(messages: ChatMessage[]): Promise<string> {
+    const request = { model: this.model, temperature: 0.2, messages };
+
+    if (this.jsonMode === "off") {
+      const completion = await this.client.chat.completions.create(request);
+      return completion.choices[0]?.message?.content ?? "{}";
+    }
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        ...request,
+        response_format: { type: "json_object" }
+      });
+      return completion.choices[0]?.message?.content ?? "{}";
+    } catch (error) {
+      if (this.jsonMode !== "auto" || !isResponseFormatRejection(error)) {
+        throw error;
+      }
+
+      // Some OpenAI-compatible servers reject `response_format`; the prompt
+      // already asks for JSON, so stop sending it for the rest of the process.
+      // Any other 400 (an oversized prompt, say) leaves JSON mode alone.
+      this.logger.info({ provider: this.label }, "JSON mode unsupported, retrying without it");
+      this.jsonMode = "off";
+      const completion = await this.client.chat.completions.create(request);
+      return completion.choices[0]?.message?.content ?? "{}";
+    }
+  }
+}
+
+function isResponseFormatRejection(error: unknown): boolean {
+  return error instanceof OpenAI.BadRequestError && /response[_ ]format/i.test(error.message);
+}
+
+class AnthropicLlmService extends DraftProvider {
+  private readonly apiKey: string;
+  private readonly model: string;
+  private readonly historyBudget: HistoryBudget;
+  private readonly timeoutMs: number;
+
+  constructor(
+    apiKey: string,
+    model: string,
+    logger: FastifyBaseLogger,
+    historyBudget: HistoryBudget,
+    timeoutMs: number
+  ) {
+    super("anthropic", logger);
+    this.apiKey = apiKey;
+    this.model = model;
+    this.historyBudget = historyBudget;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async requestDraft(text: string, context: DraftContext): Promise<LlmDraft> {
+    const history = fitHistoryToBudget(context.history ?? [], this.historyBudget);
+    const [system, ...conversation] = buildPromptMessages(text, context, history);
+
+    let response: Response;
+    try {
+      response = await fetch(ANTHROPIC_MESSAGES_URL, {
+        method: "POST",
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: 1024,
+          temperature: 0.2,
+          system: system.content,
+          messages: toAnthropicMessages(conversation),
+          tools: [
+            {
+              name: DRAFT_TOOL_NAME,
+              description: "Submit the structured reply draft for the latest DM.",
+              input_schema: draftJsonSchema(intentsFor(context))
+            }
+          ],
+          tool_choice: { type: "tool", name: DRAFT_TOOL_NAME }
+        }),
+        // Aborts with the failover chain's deadline so a request it gave up on
+        // does not keep running in the background.
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new LlmTimeoutError("Anthropic draft request timed out", { cause: error });
+      }
+      throw error;
+    }
+
+    const body = (await response.json().catch(() => ({}))) as {
+      content?: Array<{ type: string; name?: string; input?: unknown }>;
+    };
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status} ${JSON.stringify(body)}`);
     }
+
+    const toolUse = body.content?.find(
+      (block) => block.type === "tool_use" && block.name === DRAFT_TOOL_NAME
+    );
+    return parseDraft(toolUse?.input, context);
+  }
+}
+
+class MockLlmService extends DraftProvider {
+  private readonly fixture: MockLlmFixture;
+  private readonly patterns: RegExp[];
+
+  constructor(fixture: MockLlmFixture, logger: FastifyBaseLogger) {
+    super("mock", logger);
+    this.fixture = fixture;
+    this.patterns = fixture.entries.map((entry) => new RegExp(entry.pattern, "i"));
+  }
+
+  async requestDraft(text: string, context: DraftContext): Promise<LlmDraft> {
+    const index = this.patterns.findIndex((pattern) => pattern.test(text));
+    const entry = index === -1 ? undefined : this.fixture.entries[index];
+
+    await sleep(entry?.latencyMs ?? this.fixture.latencyMs);
+
+    if (entry?.fail === "timeout") {
+      throw new LlmTimeoutError("Mock LLM simulated a timeout");
+    }
+
+    if (entry?.fail === "error") {
+      throw new Error(`Mock LLM simulated an error for pattern ${entry.pattern}`);
+    }
+
+    return parseDraft(entry?.draft ?? this.fixture.default ?? FALLBACK_DRAFT, context);
+  }
+}
+
+type ChainMember = {
+  provider: DraftProvider;
+  timeoutMs: number;
+  breaker: CircuitBreaker;
+};
+
+export class FailoverLlmService implements LlmService {
+  private readonly members: ChainMember[];
+  private readonly logger: FastifyBaseLogger;
+
+  constructor(members: ChainMember[], logger: FastifyBaseLogger) {
+    this.members = members;
+    this.logger = logger;
+  }
+
+  async generateDraft(text: string, context: DraftContext = {}): Promise<ServedDraft> {
+    let attempted = 0;
+    let timedOut = 0;
+
+    for (const { provider, timeoutMs, breaker } of this.members) {
+      if (!breaker.allowRequest()) continue;
+
+      attempted += 1;
+      const startedAt = Date.now();
+
+      try {
+        const draft = await withTimeout(
+          provider.requestDraft(text, context),
+          timeoutMs,
+          `${provider.name} draft request exceeded ${timeoutMs}ms`
+        );
+        breaker.recordSuccess();
+        this.logger.info(
+          {
+            provider: provider.name,
+            latencyMs: Date.now() - startedAt,
+            intent: draft.intent,
+            historyTurns: context.history?.length ?? 0
+          },
+          "LLM draft generated"
+        );
+        return { ...draft, provider: provider.name };
+      } catch (error) {
+        breaker.recordFailure();
+        if (error instanceof LlmTimeoutError) timedOut += 1;
+        this.logger.error(
+          {
+            error,
+            provider: provider.name,
+            latencyMs: Date.now() - startedAt,
+            breaker: breaker.state
+          },
+          "LLM provider failed"
+        );
+      }
+    }
+
+    // Only timeouts are worth a job retry; hard failures get the safe draft now.
+    if (attempted > 0 && timedOut === attempted) {
+      throw new LlmTimeoutError("Every LLM provider in the chain timed out");
+    }
+
+    this.logger.error({ attempted }, "LLM draft generation failed");
+    return { ...FALLBACK_DRAFT, provider: FALLBACK_PROVIDER };
+  }
+}
+
+export function loadMockLlmFixture(fixturePath: string): MockLlmFixture {
+  const resolved = path.resolve(fixturePath);
+  try {
+    return mockLlmFixtureSchema.parse(JSON.parse(readFileSync(resolved, "utf8")));
+  } catch (error) {
+    throw new Error(`Invalid mock LLM fixture at ${resolved}`, { cause: error });
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new LlmTimeoutError(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function sleep(ms: number): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+function draftJsonSchema(intents: IntentSpec[]) {
+  return {
+    type: "object",
+    properties: {
+      intent: { type: "string", enum: intents.map((intent) => intent.name) },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      reply: { type: "string" },
+      needs_human_approval: { type: "boolean" }
+    },
+    required: ["intent", "confidence", "reply", "needs_human_approval"]
+  };
+}
+
+function intentsFor(context: DraftContext): IntentSpec[] {
+  return context.intents?.length ? context.intents : BUILT_IN_INTENTS;
+}
+
+function parseDraft(raw: unknown, context: DraftContext): LlmDraft {
+  return normalizeDraftIntent(llmDraftSchema.parse(raw), intentsFor(context));
+}
+
+// The Messages API wants a user turn first and alternating roles, so leading
+// business turns are dropped and consecutive turns from one side are joined.
+function toAnthropicMessages(
+  conversation: ChatMessage[]
+): Array<{ role: "user" | "assistant"; content: string }> {
+  const merged: Array<{ role: "user" | "assistant"; content: string }> = [];
+
+  for (const message of conversation) {
+    if (message.role === "system") continue;
+    if (merged.length === 0 && message.role === "assistant") continue;
+
+    const previous = merged[merged.length - 1];
+    if (previous?.role === message.role) {
+      previous.content = `${previous.content}\n${message.content}`;
+    } else {
+      merged.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return merged;
+}
+
+export function buildPromptMessages(
+  text: string,
+  context: DraftContext,
+  history: HistoryTurn[]
+): ChatMessage[] {
+  const voice = context.voice;
+
+  return [
+    {
+      role: "system",
+      content:
+        `${voice?.persona.trim() || DEFAULT_PERSONA} ` +
+        "Return strict JSON only with keys: intent, confidence, reply, needs_human_approval. " +
+        `intent must be one of the names below. ${formatIntents(intentsFor(context))} ` +
+        "Earlier turns are the conversation so far; use them to resolve references but only answer the latest DM. " +
+        `confidence must be 0..1. reply must be concise and ${voice?.tone?.trim() || "friendly"}.` +
+        formatLanguage(context.language) +
+        (voice ? formatVoiceRules(voice) : "") +
+        formatKnowledge(context.knowledge ?? [])
+    },
+    ...history.map(
+      (turn): ChatMessage => ({
+        role: turn.role === "customer" ? "user" : "assistant",
+        content: turn.text
+      })
+    ),
+    {
+      role: "user",
+      content: formatIncomingMessage(text, context)
+    }
+  ];
+}
+
+function formatIntents(intents: IntentSpec[]): string {
+  return intents
+    .map((intent) => {
+      const examples = intent.examples.map((example) => `"${example}"`).join(", ");
+      return `${intent.name}: ${intent.description}${examples ? ` e.g. ${examples}` : ""}`;
+    })
+    .join(" | ");
+}
+
+function formatLanguage(language: string | null | undefined): string {
+  if (!language || !isLanguage(language)) return "";
+  return ` Write the reply in ${LANGUAGE_NAMES[language]}, the language the customer wrote in.`;
+}
+
+function formatVoiceRules(voice: VoiceProfile): string {
+  const rules = [EMOJI_RULES[voice.emojiPolicy]];
+  const banned = voice.bannedPhrases.map((phrase) => phrase.trim()).filter(Boolean);
+
+  if (banned.length > 0) {
+    rules.push(`Never use these phrases: ${banned.map((phrase) => `"${phrase}"`).join(", ")}.`);
+  }
+  if (voice.signOff?.trim()) {
+    rules.push(`End the reply with the sign-off "${voice.signOff.trim()}".`);
+  }
+
+  return ` ${rules.join(" ")}`;
+}
+
+function formatKnowledge(snippets: KnowledgeSnippet[]): string {
+  if (snippets.length === 0) return "";
+
+  const notes = snippets.map((snippet) => `[${snippet.title}] ${snippet.text}`).join("\n");
+  return (
+    "\n\nBusiness knowledge base excerpts. Use them for facts like prices, shipping and refunds; " +
+    "never invent details they do not state, and set needs_human_approval when they do not cover the question.\n" +
+    notes
+  );
+}
+
+// Local models often wrap JSON in prose or code fences; take the first
+// balanced object instead of parsing the whole completion.
+export function extractJsonObject(raw: string): unknown {
+  const start = raw.indexOf("{");
+  if (start === -1) return JSON.parse(raw);
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let index = start; index < raw.length; index += 1) {
+    const char = raw[index];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) return JSON.parse(raw.slice(start, index + 1));
+    }
+  }
+
+  return JSON.parse(raw.slice(start));
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function fitHistoryToBudget(
+  history: HistoryTurn[],
+  budget: HistoryBudget
+): HistoryTurn[] {
+  const kept: HistoryTurn[] = [];
+  let remaining = budget.maxTokens;
+
+  for (let index = history.length - 1; index >= 0; index -= 1) {
+    const turn = history[index];
+    const cost = estimateTokens(turn.text);
+
+    if (cost <= remaining) {
+      kept.unshift(turn);
+      remaining -= cost;
+      continue;
+    }
+
+    // clip_oldest keeps the tail of the turn that overflows instead of dropping it.
+    if (budget.truncation === "clip_oldest" && remaining >= MIN_CLIP_TOKENS) {
+      const keepChars = remaining * 4 - CLIP_MARKER.length;
+      kept.unshift({ ...turn, text: CLIP_MARKER + turn.text.slice(-keepChars) });
+    }
+    break;
+  }
+
+  return kept;
+}
+
+function formatIncomingMessage(text: string, context: DraftContext): string {
+  const story = context.story;
+  if (!story) return `Incoming DM: "${text}"`;
+
+  const source =
+    story.interaction === "mention"
+      ? "Customer mentioned us in their story"
+      : "Customer replied to our story";
+  const storyRef = story.url ?? story.storyId ?? "unknown story";
+  return `${source} (${storyRef}). Incoming DM: "${text}"`;
+}
+
+export function createLlmProvider(
+  name: LlmProvider,
+  env: Env,
+  logger: FastifyBaseLogger
+): DraftProvider {
+  const historyBudget: HistoryBudget = {
+    maxTokens: env.llmHistoryMaxTokens,
+    truncation: env.llmHistoryTruncation
+  };
+
+  switch (name) {
+    case "openai":
+      return new OpenAiLlmService({
+        name,
+        label: "OpenAI",
+        apiKey: env.openaiApiKey,
+        model: env.openaiModel,
+        timeoutMs: env.llmProviderTimeoutMs,
+        jsonMode: "on",
+        logger,
+        historyBudget
+      });
+    case "anthropic":
+      return new AnthropicLlmService(
+        env.anthropicApiKey,
+        env.anthropicModel,
+        logger,
+        historyBudget,
+        env.llmProviderTimeoutMs
+      );
+    case "local":
+      return new OpenAiLlmService({
+        name,
+        label: "Local LLM",
+        // The SDK refuses an empty key; most local servers ignore it anyway.
+        apiKey: env.localLlmApiKey || "local",
+        model: env.localLlmModel,
+        baseURL: env.localLlmBaseUrl,
+        timeoutMs: env.localLlmTimeoutMs,
+        jsonMode: env.localLlmJsonMode,
+        logger,
+        historyBudget
+      });
+    case "mock":
+      return new MockLlmService(loadMockLlmFixture(env.mockLlmFixtures), logger);
+    default:
+      throw new Error(`Unsupported LLM provider: ${name satisfies never}`);
   }
 }
 
@@ -70,9 +621,17 @@ export function createLlmService(
   env: Env,
   logger: FastifyBaseLogger
 ): LlmService {
-  if (env.llmProvider === "openai") {
-    return new OpenAiLlmService(env.openaiApiKey, env.openaiModel, logger);
-  }
+  const chain = [...new Set([env.llmProvider, ...env.llmFallbackProviders])];
 
-  throw new Error(`Unsupported LLM provider: ${env.llmProvider}`);
+  return new FailoverLlmService(
+    chain.map((name) => ({
+      provider: createLlmProvider(name, env, logger),
+      timeoutMs: name === "local" ? env.localLlmTimeoutMs : env.llmProviderTimeoutMs,
+      breaker: new CircuitBreaker({
+        failureThreshold: env.llmBreakerThreshold,
+        cooldownMs: env.llmBreakerCooldownMs
+      })
+    })),
+    logger
+  );
 }
@@ -0,0 +1,197 @@
+import { Message, MessageDirection, PrismaClient } from "@prisma/client";
+import { FastifyBaseLogger } from "fastify";
+import { ParsedMessageEvent, ParsedMessageEventJob, WebhookJob } from "../types/meta";
+
+const SENT_STATUSES = ["SENT", "SENT_MANUAL"];
+
+export function isMessageEventJob(job: WebhookJob): job is ParsedMessageEventJob {
+  return "event" in job;
+}
+
+// A reply counts once a send was logged for an outbound message in the thread
+// since `message` arrived, or for `message` itself when the send went out but
+// its outbound record could not be saved.
+export async function hasSentReply(
+  prisma: PrismaClient,
+  message: Pick<Message, "id" | "threadId" | "receivedAt">
+): Promise<boolean> {
+  const sent = await prisma.deliveryLog.findFirst({
+    where: {
+      status: { in: SENT_STATUSES },
+      OR: [
+        { messageId: message.id },
+        {
+          message: {
+            threadId: message.threadId,
+            direction: MessageDirection.OUT,
+            receivedAt: { gte: message.receivedAt }
+          }
+        }
+      ]
+    },
+    select: { id: true }
+  });
+  return sent !== null;
+}
+
+export async function applyMessageEvent(
+  prisma: PrismaClient,
+  logger: FastifyBaseLogger,
+  job: ParsedMessageEventJob
+): Promise<void> {
+  const occurredAt = Number.isFinite(job.timestamp) ? new Date(job.timestamp) : new Date();
+  const { event } = job;
+
+  switch (event.type) {
+    case "reaction":
+      await applyReaction(prisma, logger, job.senderId, event);
+      return;
+    case "read":
+      await applyReadReceipt(prisma, logger, job.threadId, event, occurredAt);
+      return;
+    case "edit":
+      await applyEdit(prisma, logger, event, occurredAt);
+      return;
+    case "unsend":
+      await applyUnsend(prisma, logger, event, occurredAt);
+      return;
+  }
+}
+
+async function applyReaction(
+  prisma: PrismaClient,
+  logger: FastifyBaseLogger,
+  senderIgId: string,
+  event: Extract<ParsedMessageEvent, { type: "reaction" }>
+): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { igMessageId: event.messageId }
+  });
+
+  if (!message) {
+    logger.info({ igMessageId: event.messageId }, "Reaction for unknown message ignored");
+    return;
+  }
+
+  if (event.action === "unreact") {
+    await prisma.messageReaction.deleteMany({
+      where: { messageId: message.id, senderIgId }
+    });
+    return;
+  }
+
+  await prisma.messageReaction.upsert({
+    where: { messageId_senderIgId: { messageId: message.id, senderIgId } },
+    update: { reaction: event.reaction, emoji: event.emoji },
+    create: {
+      messageId: message.id,
+      senderIgId,
+      reaction: event.reaction,
+      emoji: event.emoji
+    }
+  });
+}
+
+async function applyReadReceipt(
+  prisma: PrismaClient,
+  logger: FastifyBaseLogger,
+  igThreadId: string,
+  event: Extract<ParsedMessageEvent, { type: "read" }>,
+  occurredAt: Date
+): Promise<void> {
+  const target = event.messageId
+    ? await prisma.message.findUnique({ where: { igMessageId: event.messageId } })
+    : null;
+  const threadId =
+    target?.threadId ??
+    (await prisma.thread.findUnique({ where: { igThreadId } }))?.id;
+
+  if (!threadId) {
+    logger.info({ igThreadId }, "Read receipt for unknown thread ignored");
+    return;
+  }
+
+  await prisma.message.updateMany({
+    where: {
+      threadId,
+      direction: MessageDirection.OUT,
+      readAt: null,
+      receivedAt: { lte: target?.receivedAt ?? occurredAt }
+    },
+    data: { readAt: occurredAt }
+  });
+}
+
+async function applyEdit(
+  prisma: PrismaClient,
+  logger: FastifyBaseLogger,
+  event: Extract<ParsedMessageEvent, { type: "edit" }>,
+  occurredAt: Date
+): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { igMessageId: event.messageId }
+  });
+
+  if (!message) {
+    logger.info({ igMessageId: event.messageId }, "Edit for unknown message ignored");
+    return;
+  }
+
+  if (message.text === event.text) return;
+
+  await prisma.message.update({
+    where: { id: message.id },
+    data: {
+      text: event.text,
+      editedAt: occurredAt,
+      edits: {
+        create: {
+          previousText: message.text,
+          text: event.text,
+          editedAt: occurredAt
+        }
+      }
+    }
+  });
+}
+
+async function applyUnsend(
+  prisma: PrismaClient,
+  logger: FastifyBaseLogger,
+  event: Extract<ParsedMessageEvent, { type: "unsend" }>,
+  occurredAt: Date
+): Promise<void> {
+  const message = await prisma.message.findUnique({
+    where: { igMessageId: event.messageId }
+  });
+
+  if (!message) {
+    logger.info({ igMessageId: event.messageId }, "Unsend for unknown message ignored");
+    return;
+  }
+
+  if (message.deletedAt) return;
+
+  // The draft text stays for the audit record; only a draft nobody has
+  // answered yet is cancelled.
+  const cancelDraft =
+    (Boolean(message.suggestedReply) || message.needsHumanApproval) &&
+    !(await hasSentReply(prisma, message));
+  await prisma.message.update({
+    where: { id: message.id },
+    data: {
+      deletedAt: occurredAt,
+      needsHumanApproval: message.needsHumanApproval && !cancelDraft
+    }
+  });
+
+  if (cancelDraft) {
+    await prisma.deliveryLog.create({
+      data: {
+        messageId: message.id,
+        status: "SKIPPED",
+        error: "Unsent by sender: pending draft cancelled"
+      }
+    });
+  }
+}
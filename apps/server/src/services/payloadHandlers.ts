@@ -0,0 +1,69 @@
+import { ContactSegment, PayloadAction, PayloadHandler, PrismaClient } from "@prisma/client";
+
+export interface PayloadHandlerRegistry {
+  resolve(payload: string): Promise<PayloadHandler | null>;
+}
+
+export class PrismaPayloadHandlerRegistry implements PayloadHandlerRegistry {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async resolve(payload: string): Promise<PayloadHandler | null> {
+    const handler = await this.prisma.payloadHandler.findUnique({ where: { payload } });
+    return handler?.enabled ? handler : null;
+  }
+}
+
+export const PAYLOAD_ACTIONS: PayloadAction[] = [
+  PayloadAction.REPLY,
+  PayloadAction.SET_SEGMENT,
+  PayloadAction.HANDOFF
+];
+
+export function isPayloadAction(value: string): value is PayloadAction {
+  return PAYLOAD_ACTIONS.includes(value as PayloadAction);
+}
+
+export type PayloadHandlerInput = {
+  payload: string;
+  action: PayloadAction;
+  reply: string | null;
+  segment: ContactSegment | null;
+  enabled: boolean;
+};
+
+export async function listPayloadHandlers(prisma: PrismaClient): Promise<PayloadHandler[]> {
+  return prisma.payloadHandler.findMany({ orderBy: { payload: "asc" } });
+}
+
+export async function savePayloadHandler(
+  prisma: PrismaClient,
+  input: PayloadHandlerInput
+): Promise<PayloadHandler> {
+  const data = {
+    action: input.action,
+    reply: input.reply,
+    segment: input.segment,
+    enabled: input.enabled
+  };
+
+  return prisma.payloadHandler.upsert({
+    where: { payload: input.payload },
+    update: data,
+    create: { payload: input.payload, ...data }
+  });
+}
+
+export async function deletePayloadHandler(
+  prisma: PrismaClient,
+  id: string
+): Promise<PayloadHandler | null> {
+  const handler = await prisma.payloadHandler.findUnique({ where: { id } });
+  if (!handler) return null;
+
+  await prisma.payloadHandler.delete({ where: { id } });
+  return handler;
+}
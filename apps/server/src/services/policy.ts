@@ -1,34 +1,79 @@
-import { ContactSegment, PrismaClient, ReplyPolicy } from "@prisma/client";
+import {
+  CommentReplyMode,
+  ContactSegment,
+  IntentPolicy,
+  PrismaClient,
+  ReplyPolicy
+} from "@prisma/client";
+import { LlmDraft } from "../types/llm";
+import { Language, LanguageVariants, readLanguageVariants } from "./language";
 
 type PolicyDefaults = {
   autoSend: boolean;
   requireHumanApproval: boolean;
   template: string | null;
+  mediaTemplate: string | null;
+  storyAutoSend: boolean;
+  storyTemplate: string | null;
+  commentReplyMode: CommentReplyMode;
+  approvalIntents: string[];
+};
+
+// Null fields inherit the segment policy.
+export type IntentPolicyInput = {
+  segment: ContactSegment;
+  intent: string;
+  autoSend: boolean | null;
+  requireHumanApproval: boolean | null;
+  template: string | null;
+  minConfidence: number | null;
 };
 
 const DEFAULT_POLICIES: Record<ContactSegment, PolicyDefaults> = {
   FRIEND: {
     autoSend: false,
     requireHumanApproval: true,
-    template: null
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
   },
   KNOWN: {
     autoSend: true,
     requireHumanApproval: false,
-    template: null
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: true,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
   },
   STRANGER: {
     autoSend: true,
     requireHumanApproval: false,
-    template: null
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: true,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
   },
   VIP: {
     autoSend: false,
     requireHumanApproval: true,
-    template: null
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
   }
 };
 
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
 export const CONTACT_SEGMENTS: ContactSegment[] = [
   ContactSegment.FRIEND,
   ContactSegment.KNOWN,
@@ -36,6 +81,10 @@ export const CONTACT_SEGMENTS: ContactSegment[] = [
   ContactSegment.VIP
 ];
 
+export function isCommentReplyMode(value: string): value is CommentReplyMode {
+  return value === CommentReplyMode.PUBLIC || value === CommentReplyMode.PRIVATE;
+}
+
 export function isContactSegment(value: string): value is ContactSegment {
   return CONTACT_SEGMENTS.includes(value as ContactSegment);
 }
@@ -56,7 +105,12 @@ export async function ensurePolicy(
       segment,
       autoSend: defaults.autoSend,
       requireHumanApproval: defaults.requireHumanApproval,
-      template: defaults.template
+      template: defaults.template,
+      mediaTemplate: defaults.mediaTemplate,
+      storyAutoSend: defaults.storyAutoSend,
+      storyTemplate: defaults.storyTemplate,
+      commentReplyMode: defaults.commentReplyMode,
+      approvalIntents: defaults.approvalIntents
     }
   });
 }
@@ -69,3 +123,112 @@ export async function ensureAllPolicies(prisma: PrismaClient): Promise<ReplyPoli
     (a, b) => CONTACT_SEGMENTS.indexOf(a.segment) - CONTACT_SEGMENTS.indexOf(b.segment)
   );
 }
+
+export async function findIntentPolicy(
+  prisma: PrismaClient,
+  segment: ContactSegment,
+  intent: string
+): Promise<IntentPolicy | null> {
+  return prisma.intentPolicy.findUnique({
+    where: { segment_intent: { segment, intent } }
+  });
+}
+
+export async function listIntentPolicies(prisma: PrismaClient): Promise<IntentPolicy[]> {
+  const policies = await prisma.intentPolicy.findMany({ orderBy: { intent: "asc" } });
+  return policies.sort(
+    (a, b) =>
+      a.intent.localeCompare(b.intent) ||
+      CONTACT_SEGMENTS.indexOf(a.segment) - CONTACT_SEGMENTS.indexOf(b.segment)
+  );
+}
+
+export async function saveIntentPolicy(
+  prisma: PrismaClient,
+  input: IntentPolicyInput
+): Promise<IntentPolicy> {
+  const { segment, intent, ...data } = input;
+
+  return prisma.intentPolicy.upsert({
+    where: { segment_intent: { segment, intent } },
+    update: data,
+    create: { segment, intent, ...data }
+  });
+}
+
+export async function deleteIntentPolicy(
+  prisma: PrismaClient,
+  id: string
+): Promise<IntentPolicy | null> {
+  const policy = await prisma.intentPolicy.findUnique({ where: { id } });
+  if (!policy) return null;
+
+  await prisma.intentPolicy.delete({ where: { id } });
+  return policy;
+}
+
+export function readTemplateVariants(
+  policy: Pick<ReplyPolicy, "templateVariants">
+): LanguageVariants<string> {
+  return readLanguageVariants(
+    policy.templateVariants,
+    (variant): variant is string => typeof variant === "string"
+  );
+}
+
+// A variant for the detected language wins over the segment template; with
+// no detected language only the segment template applies.
+export function resolveTemplate(policy: ReplyPolicy, language: Language | null): string | undefined {
+  const variant = language ? readTemplateVariants(policy)[language]?.trim() : undefined;
+  return variant || policy.template?.trim() || undefined;
+}
+
+// An intent template replaces whatever the rules or the LLM drafted.
+export function applyIntentTemplate<T extends LlmDraft>(draft: T, intentPolicy: IntentPolicy | null): T {
+  const template = intentPolicy?.template?.trim();
+  return template ? { ...draft, reply: template } : draft;
+}
+
+// Intent × segment cells take precedence over the segment policy for every
+// field they set; null fields fall through to it.
+export function getSendSkipReason(
+  policy: ReplyPolicy,
+  intentPolicy: IntentPolicy | null,
+  segment: ContactSegment,
+  draft: LlmDraft,
+  isStory: boolean
+): string | null {
+  const intentAutoSend = intentPolicy?.autoSend ?? null;
+  const intentApproval = intentPolicy?.requireHumanApproval ?? null;
+
+  if (intentAutoSend === false) {
+    return `Policy: auto-send disabled for intent ${draft.intent} in segment ${segment}`;
+  }
+
+  if (intentAutoSend === null && isStory && !policy.storyAutoSend) {
+    return `Policy: auto-send disabled for story interactions in segment ${segment}`;
+  }
+
+  if (intentAutoSend === null && !isStory && !policy.autoSend) {
+    return `Policy: auto-send disabled for segment ${segment}`;
+  }
+
+  if (intentApproval === true) {
+    return `Policy: human approval required for intent ${draft.intent} in segment ${segment}`;
+  }
+
+  if (intentApproval === null && policy.requireHumanApproval) {
+    return `Policy: human approval required for segment ${segment}`;
+  }
+
+  if (intentApproval === null && policy.approvalIntents.includes(draft.intent)) {
+    return `Policy: intent ${draft.intent} requires approval for segment ${segment}`;
+  }
+
+  const minConfidence = intentPolicy?.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  if (draft.confidence < minConfidence || draft.needs_human_approval) {
+    return "Guardrail: low confidence or human approval required";
+  }
+
+  return null;
+}
@@ -0,0 +1,132 @@
+import { ContactSegment, EmojiPolicy, PrismaClient, PromptProfile } from "@prisma/client";
+import { LlmDraft, VoiceProfile } from "../types/llm";
+import { listIntents } from "./intents";
+import { detectLanguage, Language } from "./language";
+import { KnowledgeRetriever } from "./knowledge";
+import { buildPromptMessages, ChatMessage } from "./llm";
+
+export type PromptProfileInput = {
+  segment: ContactSegment | null;
+  persona: string;
+  tone: string | null;
+  bannedPhrases: string[];
+  signOff: string | null;
+  emojiPolicy: EmojiPolicy;
+};
+
+export const EMOJI_POLICIES: EmojiPolicy[] = [
+  EmojiPolicy.NONE,
+  EmojiPolicy.SPARING,
+  EmojiPolicy.FREE
+];
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(\p{Emoji_Modifier}|\ufe0f|\u200d\p{Extended_Pictographic})*/gu;
+
+export function isEmojiPolicy(value: string): value is EmojiPolicy {
+  return EMOJI_POLICIES.includes(value as EmojiPolicy);
+}
+
+// A segment's latest version wins; segments without one use the latest default.
+export async function resolvePromptProfile(
+  prisma: PrismaClient,
+  segment: ContactSegment
+): Promise<PromptProfile | null> {
+  const profiles = await prisma.promptProfile.findMany({
+    where: { OR: [{ segment }, { segment: null }] },
+    orderBy: { version: "desc" }
+  });
+
+  return (
+    profiles.find((profile) => profile.segment === segment) ??
+    profiles.find((profile) => profile.segment === null) ??
+    null
+  );
+}
+
+export async function listPromptProfiles(prisma: PrismaClient): Promise<PromptProfile[]> {
+  return prisma.promptProfile.findMany({ orderBy: [{ segment: "asc" }, { version: "desc" }] });
+}
+
+export async function savePromptProfile(
+  prisma: PrismaClient,
+  input: PromptProfileInput
+): Promise<PromptProfile> {
+  const latest = await prisma.promptProfile.findFirst({
+    where: { segment: input.segment },
+    orderBy: { version: "desc" }
+  });
+
+  return prisma.promptProfile.create({
+    data: { ...input, version: (latest?.version ?? 0) + 1 }
+  });
+}
+
+// Restoring copies an old version forward so the history stays append-only.
+export async function restorePromptProfile(
+  prisma: PrismaClient,
+  id: string
+): Promise<PromptProfile | null> {
+  const profile = await prisma.promptProfile.findUnique({ where: { id } });
+  if (!profile) return null;
+
+  return savePromptProfile(prisma, {
+    segment: profile.segment,
+    persona: profile.persona,
+    tone: profile.tone,
+    bannedPhrases: profile.bannedPhrases,
+    signOff: profile.signOff,
+    emojiPolicy: profile.emojiPolicy
+  });
+}
+
+// The prompt asks for the voice; this enforces the parts that can be checked.
+export function applyVoice<T extends LlmDraft>(draft: T, voice: VoiceProfile | null): T {
+  if (!voice) return draft;
+
+  let reply = draft.reply;
+
+  if (voice.emojiPolicy === EmojiPolicy.NONE) {
+    reply = reply.replace(EMOJI_PATTERN, "").replace(/[ \t]{2,}/g, " ").trim();
+  }
+
+  const signOff = voice.signOff?.trim();
+  if (signOff && !reply.trimEnd().endsWith(signOff)) {
+    reply = `${reply.trimEnd()}\n${signOff}`;
+  }
+
+  const lowered = reply.toLowerCase();
+  const usesBannedPhrase = voice.bannedPhrases.some(
+    (phrase) => phrase.trim() && lowered.includes(phrase.trim().toLowerCase())
+  );
+
+  return {
+    ...draft,
+    reply,
+    needs_human_approval: draft.needs_human_approval || usesBannedPhrase
+  };
+}
+
+export async function previewPrompt(
+  prisma: PrismaClient,
+  knowledge: KnowledgeRetriever,
+  input: { text: string; segment: ContactSegment; knowledgeTopK: number }
+): Promise<{
+  profile: PromptProfile | null;
+  language: Language | null;
+  messages: ChatMessage[];
+}> {
+  const profile = await resolvePromptProfile(prisma, input.segment);
+  const snippets = await knowledge.search(input.text, input.knowledgeTopK);
+  const intents = await listIntents(prisma);
+  const language = detectLanguage(input.text);
+
+  return {
+    profile,
+    language,
+    messages: buildPromptMessages(
+      input.text,
+      { knowledge: snippets, voice: profile, intents, language },
+      []
+    )
+  };
+}
@@ -1,57 +1,598 @@
+import {
+  ContactSegment,
+  IntentPolicy,
+  Prisma,
+  PrismaClient,
+  ReplyPolicy,
+  ReplyRule,
+  RuleMatchType
+} from "@prisma/client";
 import { LlmDraft } from "../types/llm";
+import { detectLanguage, Language, LanguageVariants, readLanguageVariants } from "./language";
+import {
+  applyIntentTemplate,
+  ensurePolicy,
+  findIntentPolicy,
+  getSendSkipReason,
+  resolveTemplate
+} from "./policy";
+import { BusinessSettings, renderDraftReply } from "./templates";
 
 export interface RulesService {
-  generateDraft(text: string): LlmDraft | null;
+  generateDraft(
+    text: string,
+    segment: ContactSegment,
+    language: Language | null
+  ): Promise<RuleDraft | null>;
 }
 
-export class KeywordRulesService implements RulesService {
-  generateDraft(text: string): LlmDraft | null {
-    const normalized = text.toLowerCase();
+// Default rules have no row, hence no id. `language` names the variant whose
+// keyword matched; null means the rule's own keywords.
+export type RuleMatch = {
+  ruleId: string | null;
+  ruleName: string;
+  keyword: string;
+  term: string;
+  index: number;
+  language: Language | null;
+};
+
+export type RuleDraft = LlmDraft & { match: RuleMatch };
+
+// `intent` may name any intent in the taxonomy, built-in or custom. An empty
+// `segments` list applies the rule to every segment.
+export type KeywordRule = Pick<
+  ReplyRule,
+  "name" | "matchType" | "keywords" | "intent" | "confidence" | "reply" | "priority" | "segments"
+> & { variants: RuleVariants };
+
+// A variant adds keywords in its language and, optionally, a reply sent
+// instead of the rule's own reply when the message is in that language.
+export type RuleVariant = { keywords: string[]; reply: string | null };
+
+export type RuleVariants = LanguageVariants<RuleVariant>;
+
+export type ReplyRuleInput = KeywordRule & { enabled: boolean };
+
+// `path` names the step that would produce the reply. On the "llm" path the
+// model picks the intent, so intent, reply and wouldSend stay null.
+export type RuleTestResult = {
+  path: "template" | "rule" | "llm";
+  language: Language | null;
+  match: RuleMatch | null;
+  policy: ReplyPolicy;
+  intentPolicy: IntentPolicy | null;
+  intent: string | null;
+  reply: string | null;
+  skipReason: string | null;
+  wouldSend: boolean | null;
+};
 
-    if (this.hasAny(normalized, ["price", "how much", "cost"])) {
-      return {
-        intent: "pricing",
-        confidence: 0.95,
+// Offsets are in `folded`; `offsets[i]` is the index in `text` that produced
+// folded code unit i.
+export type FoldedText = {
+  text: string;
+  folded: string;
+  offsets: number[];
+  tokens: Array<{ value: string; start: number; end: number }>;
+};
+
+type TermMatch = { term: string; index: number };
+
+type KeywordFinder = (input: FoldedText) => TermMatch | null;
+
+type CompiledRule = {
+  rule: KeywordRule & { id?: string };
+  patterns: Array<{ keyword: string; language: Language | null; find: KeywordFinder }>;
+};
+
+// Words keep inner apostrophes ("don't" becomes "dont"); each emoji is a token
+// of its own so "refund😡" still finds "refund".
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+(?:['’][\p{L}\p{N}]+)*|\p{Extended_Pictographic}/gu;
+const INFLECTIONS = ["s", "es", "ed", "ing"];
+// A negation only counts right before the keyword or before its verb ("don't
+// want a refund", "no refund please"); words in between such as "a" or "for"
+// are skipped. Negated receipt verbs are complaints that still deserve the
+// matching reply: "I never got my refund", "No he recibido mi pedido".
+const NEGATIONS = new Set(["not", "no", "nao", "never", "dont", "doesnt", "without"]);
+// "no" and "não" only negate at the start of a clause: "still no tracking
+// number" is a complaint, "no refund please" is not a request.
+const CLAUSE_START_NEGATIONS = new Set(["no", "nao"]);
+const RECEIPT_VERBS = new Set([
+  "get", "got", "gotten", "getting", "receive", "received", "receiving",
+  "recibi", "recibido", "recibio", "recebi", "recebido", "recebeu"
+]);
+const FILLERS = new Set([
+  "a", "an", "the", "my", "any", "your", "for", "about", "on",
+  "un", "una", "el", "la", "mi", "por", "um", "uma", "o", "meu", "minha"
+]);
+// A negation only reaches the keyword within its own clause: in "Don't worry,
+// I'll order again" the "don't" belongs to "worry".
+const CLAUSE_BREAK = /[.,;:!?¡¿()\n]/u;
+
+export const RULE_MATCH_TYPES: RuleMatchType[] = [
+  RuleMatchType.CONTAINS,
+  RuleMatchType.WHOLE_WORD,
+  RuleMatchType.REGEX
+];
+
+export const DEFAULT_KEYWORD_RULES: KeywordRule[] = [
+  {
+    name: "Pricing",
+    matchType: RuleMatchType.CONTAINS,
+    keywords: ["price", "how much", "cost"],
+    intent: "pricing",
+    confidence: 0.95,
+    reply:
+      "Thanks for reaching out. Our pricing depends on your needs. Share what you're looking for and I'll send the best option.",
+    priority: 40,
+    segments: [],
+    variants: {
+      es: {
+        keywords: ["precio", "cuánto cuesta", "costo"],
+        reply:
+          "Gracias por escribirnos. El precio depende de lo que necesites. Cuéntanos qué buscas y te enviamos la mejor opción."
+      },
+      pt: {
+        keywords: ["preço", "quanto custa", "valor"],
         reply:
-          "Thanks for reaching out. Our pricing depends on your needs. Share what you're looking for and I'll send the best option.",
-        needs_human_approval: false
-      };
+          "Obrigado pelo contato. O preço depende do que você precisa. Conte o que procura e enviamos a melhor opção."
+      }
     }
-
-    if (this.hasAny(normalized, ["refund", "return", "chargeback"])) {
-      return {
-        intent: "refund",
-        confidence: 0.9,
+  },
+  {
+    name: "Refunds",
+    matchType: RuleMatchType.CONTAINS,
+    keywords: ["refund", "return", "chargeback"],
+    intent: "refund",
+    confidence: 0.9,
+    reply:
+      "I can help with refund support. Please share your order number and the issue, and we'll review it right away.",
+    priority: 30,
+    segments: [],
+    variants: {
+      es: {
+        keywords: ["reembolso", "devolución", "devolver"],
+        reply:
+          "Podemos ayudarte con el reembolso. Envíanos tu número de pedido y el problema, y lo revisamos enseguida."
+      },
+      pt: {
+        keywords: ["reembolso", "devolução", "devolver"],
         reply:
-          "I can help with refund support. Please share your order number and the issue, and we'll review it right away.",
-        needs_human_approval: false
-      };
+          "Podemos ajudar com o reembolso. Envie o número do pedido e o problema, e vamos analisar em seguida."
+      }
     }
-
-    if (this.hasAny(normalized, ["shipping", "delivery", "tracking"])) {
-      return {
-        intent: "shipping",
-        confidence: 0.9,
+  },
+  {
+    name: "Shipping",
+    matchType: RuleMatchType.CONTAINS,
+    keywords: ["shipping", "delivery", "tracking"],
+    intent: "shipping",
+    confidence: 0.9,
+    reply:
+      "Happy to help with shipping updates. Send your order number and I'll check status and ETA for you.",
+    priority: 20,
+    segments: [],
+    variants: {
+      es: {
+        keywords: ["envío", "entrega", "seguimiento"],
+        reply:
+          "Con gusto te ayudamos con el envío. Envíanos tu número de pedido y revisamos el estado y la fecha de entrega."
+      },
+      pt: {
+        keywords: ["frete", "entrega", "rastreio"],
         reply:
-          "Happy to help with shipping updates. Send your order number and I'll check status and ETA for you.",
-        needs_human_approval: false
-      };
+          "Podemos ajudar com a entrega. Envie o número do pedido e verificamos o status e o prazo."
+      }
     }
-
-    if (this.hasAny(normalized, ["order", "purchase", "invoice"])) {
-      return {
-        intent: "order_support",
-        confidence: 0.88,
+  },
+  {
+    name: "Order support",
+    matchType: RuleMatchType.CONTAINS,
+    keywords: ["order", "purchase", "invoice"],
+    intent: "order_support",
+    confidence: 0.88,
+    reply:
+      "I can help with your order. Please share your order number and a short description of the issue.",
+    priority: 10,
+    segments: [],
+    variants: {
+      es: {
+        keywords: ["pedido", "compra", "factura"],
+        reply:
+          "Podemos ayudarte con tu pedido. Envíanos el número de pedido y una breve descripción del problema."
+      },
+      pt: {
+        keywords: ["pedido", "compra", "nota fiscal"],
         reply:
-          "I can help with your order. Please share your order number and a short description of the issue.",
-        needs_human_approval: false
-      };
+          "Podemos ajudar com o seu pedido. Envie o número do pedido e uma breve descrição do problema."
+      }
+    }
+  }
+];
+
+export function isRuleMatchType(value: string): value is RuleMatchType {
+  return RULE_MATCH_TYPES.includes(value as RuleMatchType);
+}
+
+// Case, accents and compatibility forms are folded one code point at a time so
+// every folded offset maps back to the original message.
+export function foldText(text: string): FoldedText {
+  let folded = "";
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const piece = char.toLowerCase().normalize("NFKD").replace(/\p{M}/gu, "");
+    folded += piece;
+    for (let unit = 0; unit < piece.length; unit += 1) offsets.push(index);
+    index += char.length;
+  }
+  offsets.push(text.length);
+
+  const tokens = [...folded.matchAll(TOKEN_PATTERN)].map((found) => ({
+    value: found[0].replace(/['’]/g, ""),
+    start: found.index,
+    end: found.index + found[0].length
+  }));
+
+  return { text, folded, offsets, tokens };
+}
+
+// Optimal string alignment distance: an adjacent transposition costs one edit.
+export function editDistance(left: string, right: string): number {
+  const rows = Array.from({ length: left.length + 1 }, (_, row) =>
+    Array.from({ length: right.length + 1 }, (_, column) => (row === 0 ? column : row))
+  );
+
+  for (let row = 1; row <= left.length; row += 1) {
+    for (let column = 1; column <= right.length; column += 1) {
+      const cost = left[row - 1] === right[column - 1] ? 0 : 1;
+      rows[row][column] = Math.min(
+        rows[row - 1][column] + 1,
+        rows[row][column - 1] + 1,
+        rows[row - 1][column - 1] + cost
+      );
+      if (
+        row > 1 &&
+        column > 1 &&
+        left[row - 1] === right[column - 2] &&
+        left[row - 2] === right[column - 1]
+      ) {
+        rows[row][column] = Math.min(rows[row][column], rows[row - 2][column - 2] + 1);
+      }
+    }
+  }
+
+  return rows[left.length][right.length];
+}
+
+function isTransposition(keyword: string, token: string): boolean {
+  if (token.length !== keyword.length) return false;
+  const differences = [...keyword].flatMap((letter, index) => (letter === token[index] ? [] : [index]));
+  const [first, second] = differences;
+  return (
+    differences.length === 2 &&
+    second === first + 1 &&
+    keyword[first] === token[second] &&
+    keyword[second] === token[first]
+  );
+}
+
+// Five- and six-letter keywords only tolerate two swapped neighbours
+// ("refnud"): any other edit turns "order" into "older" or "price" into
+// "prime". The first letter must always agree so "order" does not find "border".
+function isFuzzyMatch(keyword: string, token: string): boolean {
+  if (INFLECTIONS.some((suffix) => token === `${keyword}${suffix}`)) return true;
+  if (token[0] !== keyword[0]) return false;
+
+  const limit = keyword.length >= 9 ? 2 : keyword.length >= 7 ? 1 : 0;
+  if (limit === 0) return keyword.length >= 5 && isTransposition(keyword, token);
+  if (Math.abs(token.length - keyword.length) > limit) return false;
+  return editDistance(keyword, token) <= limit;
+}
+
+function isNegated(input: FoldedText, foldedStart: number): boolean {
+  let index = input.tokens.findIndex((token) => token.end > foldedStart);
+  if (index === -1) index = input.tokens.length;
+
+  let clauseEnd = foldedStart;
+  const previous = () => {
+    const token = input.tokens[index - 1];
+    if (!token || CLAUSE_BREAK.test(input.folded.slice(token.end, clauseEnd))) return null;
+    index -= 1;
+    clauseEnd = token.start;
+    return token.value;
+  };
+
+  let word = previous();
+  while (word !== null && FILLERS.has(word)) word = previous();
+  if (word !== null && !NEGATIONS.has(word)) {
+    if (RECEIPT_VERBS.has(word)) return false;
+    word = previous();
+  }
+
+  if (word === null || !NEGATIONS.has(word)) return false;
+  return !CLAUSE_START_NEGATIONS.has(word) || previous() === null;
+}
+
+function toTermMatch(input: FoldedText, start: number, end: number): TermMatch {
+  const index = input.offsets[start];
+  return { term: input.text.slice(index, input.offsets[end]), index };
+}
+
+// Throws a SyntaxError for an invalid REGEX keyword or a keyword with nothing
+// to match. An occurrence right after a negation ("don't want a refund") is
+// skipped and the search moves on to the next one.
+export function compileKeyword(matchType: RuleMatchType, keyword: string): KeywordFinder {
+  if (matchType === RuleMatchType.REGEX) {
+    // Patterns are not lowercased because that would turn \D into \d; the i flag covers case.
+    const regex = new RegExp(keyword.normalize("NFKD").replace(/\p{M}/gu, ""), "giu");
+
+    return (input) => {
+      for (const found of input.folded.matchAll(regex)) {
+        if (found[0].length === 0 || isNegated(input, found.index)) continue;
+        return toTermMatch(input, found.index, found.index + found[0].length);
+      }
+      return null;
+    };
+  }
+
+  const words = foldText(keyword).tokens.map((token) => token.value);
+  if (words.length === 0) throw new SyntaxError("Keyword has no words to match");
+
+  const fuzzy = matchType === RuleMatchType.CONTAINS;
+  const matchesWord = (word: string, token: string) =>
+    word === token || (fuzzy && isFuzzyMatch(word, token));
+
+  return (input) => {
+    const { tokens } = input;
+    for (let first = 0; first + words.length <= tokens.length; first += 1) {
+      if (!words.every((word, offset) => matchesWord(word, tokens[first + offset].value))) continue;
+      if (isNegated(input, tokens[first].start)) continue;
+      return toTermMatch(input, tokens[first].start, tokens[first + words.length - 1].end);
+    }
+    return null;
+  };
+}
+
+export class RuleMatcher {
+  private readonly rules: CompiledRule[];
+
+  constructor(rules: Array<KeywordRule & { id?: string }>) {
+    // Array#sort is stable, so equal priorities keep their given order.
+    this.rules = [...rules]
+      .sort((left, right) => right.priority - left.priority)
+      .map((rule) => ({
+        rule,
+        patterns: [
+          ...rule.keywords.map((keyword) => ({ keyword, language: null })),
+          ...Object.entries(rule.variants).flatMap(([language, variant]) =>
+            variant.keywords.map((keyword) => ({ keyword, language: language as Language }))
+          )
+        ].flatMap(({ keyword, language }) => {
+          try {
+            return [{ keyword, language, find: compileKeyword(rule.matchType, keyword) }];
+          } catch {
+            return [];
+          }
+        })
+      }));
+  }
+
+  // Variant keywords only count for their own language, or for any language
+  // when detection was inconclusive.
+  match(text: string, segment: ContactSegment, language: Language | null): RuleDraft | null {
+    const input = foldText(text);
+
+    for (const { rule, patterns } of this.rules) {
+      if (rule.segments.length > 0 && !rule.segments.includes(segment)) continue;
+
+      for (const pattern of patterns) {
+        if (pattern.language && language && pattern.language !== language) continue;
+
+        const found = pattern.find(input);
+        if (!found) continue;
+
+        const replyLanguage = language ?? pattern.language;
+        const variantReply = replyLanguage ? rule.variants[replyLanguage]?.reply?.trim() : null;
+
+        return {
+          intent: rule.intent,
+          confidence: rule.confidence,
+          reply: variantReply || rule.reply,
+          needs_human_approval: false,
+          match: {
+            ruleId: rule.id ?? null,
+            ruleName: rule.name,
+            keyword: pattern.keyword,
+            term: found.term,
+            index: found.index,
+            language: pattern.language
+          }
+        };
+      }
     }
 
     return null;
   }
+}
+
+export class KeywordRulesService implements RulesService {
+  private readonly matcher: RuleMatcher;
 
-  private hasAny(text: string, keywords: string[]): boolean {
-    return keywords.some((keyword) => text.includes(keyword));
+  constructor(rules: KeywordRule[] = DEFAULT_KEYWORD_RULES) {
+    this.matcher = new RuleMatcher(rules);
   }
+
+  async generateDraft(
+    text: string,
+    segment: ContactSegment,
+    language: Language | null
+  ): Promise<RuleDraft | null> {
+    return this.matcher.match(text, segment, language);
+  }
+}
+
+// Rules are compiled once and recompiled only when the table changes, using
+// the same count + latest updatedAt probe as the knowledge base.
+export class PrismaRulesService implements RulesService {
+  private readonly prisma: PrismaClient;
+  private matcher: RuleMatcher | null = null;
+  private version = "";
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async generateDraft(
+    text: string,
+    segment: ContactSegment,
+    language: Language | null
+  ): Promise<RuleDraft | null> {
+    const stats = await this.prisma.replyRule.aggregate({
+      _count: { _all: true },
+      _max: { updatedAt: true }
+    });
+    const version = `${stats._count._all}:${stats._max.updatedAt?.toISOString() ?? ""}`;
+
+    if (!this.matcher || version !== this.version) {
+      const rules = await this.prisma.replyRule.findMany({ where: { enabled: true } });
+      this.matcher = new RuleMatcher(rules.map(toKeywordRule));
+      this.version = version;
+    }
+
+    return this.matcher.match(text, segment, language);
+  }
+}
+
+function isRuleVariant(value: unknown): value is RuleVariant {
+  const variant = value as RuleVariant | null;
+  return (
+    typeof variant === "object" &&
+    variant !== null &&
+    Array.isArray(variant.keywords) &&
+    variant.keywords.every((keyword) => typeof keyword === "string") &&
+    (variant.reply === null || typeof variant.reply === "string")
+  );
+}
+
+export function toKeywordRule(row: ReplyRule): KeywordRule & { id: string } {
+  return { ...row, variants: readLanguageVariants(row.variants, isRuleVariant) };
+}
+
+export async function listReplyRules(prisma: PrismaClient): Promise<ReplyRule[]> {
+  return prisma.replyRule.findMany({ orderBy: [{ priority: "desc" }, { name: "asc" }] });
+}
+
+export async function saveReplyRule(
+  prisma: PrismaClient,
+  input: ReplyRuleInput
+): Promise<ReplyRule> {
+  const { name, variants, ...rest } = input;
+  const data = { ...rest, variants: variants as Prisma.InputJsonObject };
+
+  return prisma.replyRule.upsert({
+    where: { name },
+    update: data,
+    create: { name, ...data }
+  });
+}
+
+// Unlike saveReplyRule, which matches on name, this keeps the row when the
+// rule is renamed.
+export async function updateReplyRule(
+  prisma: PrismaClient,
+  id: string,
+  input: ReplyRuleInput
+): Promise<ReplyRule | null> {
+  const rule = await prisma.replyRule.findUnique({ where: { id } });
+  if (!rule) return null;
+
+  const { variants, ...rest } = input;
+  return prisma.replyRule.update({
+    where: { id },
+    data: { ...rest, variants: variants as Prisma.InputJsonObject }
+  });
+}
+
+export async function deleteReplyRule(
+  prisma: PrismaClient,
+  id: string
+): Promise<ReplyRule | null> {
+  const rule = await prisma.replyRule.findUnique({ where: { id } });
+  if (!rule) return null;
+
+  await prisma.replyRule.delete({ where: { id } });
+  return rule;
+}
+
+// Runs at boot so a fresh database keeps answering the common questions;
+// an operator who wants no rules can disable them instead of deleting them.
+export async function seedDefaultReplyRules(prisma: PrismaClient): Promise<number> {
+  if ((await prisma.replyRule.count()) > 0) return 0;
+
+  const { count } = await prisma.replyRule.createMany({
+    data: DEFAULT_KEYWORD_RULES.map((rule) => ({
+      ...rule,
+      variants: rule.variants as Prisma.InputJsonObject,
+      enabled: true
+    })),
+    skipDuplicates: true
+  });
+  return count;
+}
+
+// Mirrors the text-message branch of the webhook worker without calling the
+// LLM or sending anything.
+export async function testReplyRules(
+  prisma: PrismaClient,
+  rules: RulesService,
+  business: BusinessSettings,
+  input: { text: string; segment: ContactSegment; contactName?: string | null }
+): Promise<RuleTestResult> {
+  const policy = await ensurePolicy(prisma, input.segment);
+  const language = detectLanguage(input.text);
+  const template = resolveTemplate(policy, language);
+  const matched = template
+    ? null
+    : await rules.generateDraft(input.text, input.segment, language);
+
+  const draft: LlmDraft | null = template
+    ? { intent: "general_question", confidence: 0.99, reply: template, needs_human_approval: false }
+    : matched;
+
+  if (!draft) {
+    return {
+      path: "llm",
+      language,
+      match: null,
+      policy,
+      intentPolicy: null,
+      intent: null,
+      reply: null,
+      skipReason: null,
+      wouldSend: null
+    };
+  }
+
+  const intentPolicy = await findIntentPolicy(prisma, input.segment, draft.intent);
+  const final = renderDraftReply(
+    template ? draft : applyIntentTemplate(draft, intentPolicy),
+    business,
+    { contactName: input.contactName ?? null, segment: input.segment, language }
+  );
+  const skipReason = getSendSkipReason(policy, intentPolicy, input.segment, final, false);
+
+  return {
+    path: template ? "template" : "rule",
+    language,
+    match: matched?.match ?? null,
+    policy,
+    intentPolicy,
+    intent: final.intent,
+    reply: final.reply,
+    skipReason,
+    wouldSend: skipReason === null
+  };
 }
@@ -0,0 +1,227 @@
+import { Env } from "../config/env";
+import { LlmDraft } from "../types/llm";
+import { TemplateSyntaxError } from "../utils/errors";
+
+export const TEMPLATE_VARIABLES = [
+  "contact.name",
+  "segment",
+  "intent",
+  "language",
+  "business.name",
+  "business.hours",
+  "order.lookupUrl"
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+// Missing values are null; they render as the tag's default or nothing.
+export type TemplateContext = Record<TemplateVariable, string | null>;
+
+export type BusinessSettings = Pick<
+  Env,
+  "businessName" | "businessHours" | "businessTimezone" | "orderLookupUrl"
+>;
+
+export type TemplateInput = {
+  contactName: string | null;
+  segment: string;
+  language: string | null;
+  now?: Date;
+};
+
+type Condition = { variable: TemplateVariable; operator: "==" | "!=" | null; value: string };
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; variable: TemplateVariable; fallback: string }
+  | { type: "if"; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+type OpenBlock = { node: Extract<TemplateNode, { type: "if" }>; inElse: boolean };
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const LITERAL = String.raw`(?:"([^"]*)"|'([^']*)')`;
+const VARIABLE_TAG = new RegExp(String.raw`^([\w.]+)(?:\s*\|\s*${LITERAL})?$`);
+const CONDITION = new RegExp(String.raw`^([\w.]+)(?:\s*(==|!=)\s*${LITERAL})?$`);
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function toVariable(name: string): TemplateVariable {
+  if (!TEMPLATE_VARIABLES.includes(name as TemplateVariable)) {
+    throw new TemplateSyntaxError(`Unknown variable ${name}`);
+  }
+  return name as TemplateVariable;
+}
+
+// Supports {{variable}}, {{variable | "default"}} and
+// {{#if variable}}, {{#if variable == "value"}}, {{else}}, {{/if}}.
+// Nothing in a template is evaluated, so a template cannot run code.
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const blocks: OpenBlock[] = [];
+  const current = () => {
+    const block = blocks.at(-1);
+    if (!block) return root;
+    return block.inElse ? block.node.otherwise : block.node.then;
+  };
+  const pushText = (text: string) => {
+    if (text.includes("{{")) throw new TemplateSyntaxError("Unclosed {{");
+    if (text) current().push({ type: "text", text });
+  };
+
+  let cursor = 0;
+  for (const found of source.matchAll(TAG_PATTERN)) {
+    pushText(source.slice(cursor, found.index));
+    cursor = found.index + found[0].length;
+
+    const tag = found[1].trim();
+    if (tag.startsWith("#if ")) {
+      const condition = CONDITION.exec(tag.slice(4).trim());
+      if (!condition) throw new TemplateSyntaxError(`Invalid condition in {{${tag}}}`);
+
+      const node: OpenBlock["node"] = {
+        type: "if",
+        condition: {
+          variable: toVariable(condition[1]),
+          operator: (condition[2] as Condition["operator"]) ?? null,
+          value: condition[3] ?? condition[4] ?? ""
+        },
+        then: [],
+        otherwise: []
+      };
+      current().push(node);
+      blocks.push({ node, inElse: false });
+    } else if (tag === "else") {
+      const block = blocks.at(-1);
+      if (!block || block.inElse) throw new TemplateSyntaxError("{{else}} outside an {{#if}} block");
+      block.inElse = true;
+    } else if (tag === "/if") {
+      if (!blocks.pop()) throw new TemplateSyntaxError("{{/if}} without a matching {{#if}}");
+    } else {
+      const variable = VARIABLE_TAG.exec(tag);
+      if (!variable) throw new TemplateSyntaxError(`Invalid tag {{${tag}}}`);
+      current().push({
+        type: "variable",
+        variable: toVariable(variable[1]),
+        fallback: variable[2] ?? variable[3] ?? ""
+      });
+    }
+  }
+
+  pushText(source.slice(cursor));
+  if (blocks.length > 0) throw new TemplateSyntaxError("Unclosed {{#if}} block");
+  return root;
+}
+
+export function validateTemplate(source: string): string | null {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error.message;
+    throw error;
+  }
+}
+
+// Checks several named fields at once and reports the first broken one,
+// e.g. "Invalid template (es): Unknown variable contact.email".
+export function findTemplateError(fields: Record<string, string | null | undefined>): string | null {
+  for (const [field, source] of Object.entries(fields)) {
+    const error = source ? validateTemplate(source) : null;
+    if (error) return `Invalid ${field}: ${error}`;
+  }
+  return null;
+}
+
+function isMet(condition: Condition, context: TemplateContext): boolean {
+  const value = context[condition.variable]?.trim() ?? "";
+  if (!condition.operator) return value.length > 0;
+
+  const equal = value.toLowerCase() === condition.value.toLowerCase();
+  return condition.operator === "==" ? equal : !equal;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.text;
+      if (node.type === "variable") return context[node.variable]?.trim() || node.fallback;
+      return renderNodes(isMet(node.condition, context) ? node.then : node.otherwise, context);
+    })
+    .join("");
+}
+
+// Templates are validated on save, but one stored before validation existed
+// is sent as written rather than failing the reply.
+export function renderTemplate(source: string, context: TemplateContext): string {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return source;
+    throw error;
+  }
+
+  return renderNodes(nodes, context)
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+// BUSINESS_HOURS is either free text, shown as is, or a weekly schedule such
+// as "mon-fri 9:00-18:00; sat 10:00-14:00", shown as today's entry. A day the
+// schedule leaves out renders empty so templates can test {{#if business.hours}}.
+export function hoursForToday(hours: string, timeZone: string, now: Date): string {
+  const entries = hours
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => /^([a-z]{3})(?:-([a-z]{3}))?\s+(.+)$/i.exec(entry));
+
+  if (entries.length === 0 || entries.some((entry) => !entry)) return hours.trim();
+
+  const today = new Intl.DateTimeFormat("en-US", { weekday: "short", timeZone })
+    .format(now)
+    .toLowerCase();
+  const todayIndex = WEEKDAYS.indexOf(today);
+
+  for (const entry of entries as RegExpExecArray[]) {
+    const start = WEEKDAYS.indexOf(entry[1].toLowerCase());
+    const end = entry[2] ? WEEKDAYS.indexOf(entry[2].toLowerCase()) : start;
+    if (start === -1 || end === -1) return hours.trim();
+
+    // Ranges may wrap the week, e.g. "fri-mon".
+    const span = (end - start + 7) % 7;
+    if ((todayIndex - start + 7) % 7 <= span) return entry[3].trim();
+  }
+
+  return "";
+}
+
+export function buildTemplateContext(
+  business: BusinessSettings,
+  input: TemplateInput & { intent: string }
+): TemplateContext {
+  return {
+    "contact.name": input.contactName,
+    segment: input.segment,
+    intent: input.intent,
+    language: input.language,
+    "business.name": business.businessName || null,
+    "business.hours":
+      hoursForToday(business.businessHours, business.businessTimezone, input.now ?? new Date()) ||
+      null,
+    "order.lookupUrl": business.orderLookupUrl || null
+  };
+}
+
+// A template that renders to nothing goes to a human instead of sending an
+// empty message.
+export function renderDraftReply<T extends LlmDraft>(
+  draft: T,
+  business: BusinessSettings,
+  input: TemplateInput
+): T {
+  const reply = renderTemplate(
+    draft.reply,
+    buildTemplateContext(business, { ...input, intent: draft.intent })
+  );
+  return reply ? { ...draft, reply } : { ...draft, reply, needs_human_approval: true };
+}
@@ -1,20 +1,77 @@
 import { z } from "zod";
+import { ParsedStory } from "./meta";
 
-export const intentSchema = z.enum([
-  "general_question",
-  "pricing",
-  "order_support",
-  "shipping",
-  "refund",
-  "unknown"
-]);
+// Intents are managed in the database; drafts are checked against the live
+// taxonomy after parsing (see normalizeDraftIntent).
+export const intentNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_]{1,39}$/, "Intent names are snake_case, 2-40 characters");
 
 export const llmDraftSchema = z.object({
-  intent: intentSchema,
+  intent: z.string().min(1),
   confidence: z.number().min(0).max(1),
   reply: z.string().min(1),
   needs_human_approval: z.boolean()
 });
 
-export type Intent = z.infer<typeof intentSchema>;
+export const mockLlmFixtureSchema = z.object({
+  latencyMs: z.number().int().min(0).default(0),
+  entries: z
+    .array(
+      z
+        .object({
+          pattern: z.string().min(1),
+          latencyMs: z.number().int().min(0).optional(),
+          fail: z.enum(["error", "timeout"]).optional(),
+          draft: llmDraftSchema.optional()
+        })
+        .refine((entry) => entry.fail || entry.draft, {
+          message: "Each entry needs a draft or a fail mode"
+        })
+    )
+    .default([]),
+  default: llmDraftSchema.optional()
+});
+
+export type IntentSpec = {
+  name: string;
+  description: string;
+  examples: string[];
+};
+
 export type LlmDraft = z.infer<typeof llmDraftSchema>;
+// `provider` names the LLM that served the draft; rule and template drafts omit it.
+export type ServedDraft = LlmDraft & { provider?: string };
+export type MockLlmFixture = z.infer<typeof mockLlmFixtureSchema>;
+
+export type HistoryTurn = {
+  role: "customer" | "business";
+  text: string;
+  sentAt: Date;
+};
+
+export type KnowledgeSnippet = {
+  articleId: string;
+  title: string;
+  text: string;
+  score: number;
+};
+
+export type VoiceProfile = {
+  persona: string;
+  tone: string | null;
+  bannedPhrases: string[];
+  signOff: string | null;
+  emojiPolicy: "NONE" | "SPARING" | "FREE";
+};
+
+export type DraftContext = {
+  story?: ParsedStory | null;
+  history?: HistoryTurn[];
+  knowledge?: KnowledgeSnippet[];
+  voice?: VoiceProfile | null;
+  intents?: IntentSpec[];
+  // Detected language code (see detectLanguage); null or absent leaves the
+  // reply language to the model.
+  language?: string | null;
+};
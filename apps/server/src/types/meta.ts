@@ -7,6 +7,23 @@ export interface MetaEntry {
   id?: string;
   time?: number;
   messaging?: MetaMessagingEvent[];
+  changes?: MetaChange[];
+}
+
+export interface MetaChange {
+  field?: string;
+  value?: {
+    id?: string;
+    text?: string;
+    parent_id?: string;
+    from?: {
+      id?: string;
+      username?: string;
+    };
+    media?: {
+      id?: string;
+    };
+  };
 }
 
 export interface MetaMessagingEvent {
@@ -24,15 +41,114 @@ export interface MetaMessagingEvent {
     mid?: string;
     text?: string;
     is_echo?: boolean;
+    is_deleted?: boolean;
+    attachments?: MetaAttachment[];
+    quick_reply?: {
+      payload?: string;
+    };
+    reply_to?: {
+      mid?: string;
+      story?: {
+        id?: string;
+        url?: string;
+      };
+    };
+  };
+  postback?: {
+    mid?: string;
+    title?: string;
+    payload?: string;
+  };
+  reaction?: {
+    mid?: string;
+    action?: "react" | "unreact";
+    reaction?: string;
+    emoji?: string;
+  };
+  read?: {
+    mid?: string;
+  };
+  message_edit?: {
+    mid?: string;
+    text?: string;
+    num_edit?: number;
+  };
+}
+
+export interface MetaAttachment {
+  type?: string;
+  payload?: {
+    url?: string;
+    title?: string;
   };
 }
 
+export interface ParsedAttachment {
+  type: string;
+  url: string | null;
+  title: string | null;
+}
+
+export interface ParsedStory {
+  interaction: "reply" | "mention";
+  storyId: string | null;
+  url: string | null;
+}
+
 export interface ParsedWebhookJob {
   messageId: string;
   senderId: string;
   text: string;
+  attachments: ParsedAttachment[];
+  story: ParsedStory | null;
+  actionPayload: string | null;
   timestamp: number;
   threadId: string;
   isFromSelfOrSystem: boolean;
   rawPayload: MetaWebhookPayload;
 }
+
+export type ParsedMessageEvent =
+  | {
+      type: "reaction";
+      messageId: string;
+      action: "react" | "unreact";
+      reaction: string | null;
+      emoji: string | null;
+    }
+  | { type: "read"; messageId: string | null }
+  | { type: "edit"; messageId: string; text: string }
+  | { type: "unsend"; messageId: string };
+
+export interface ParsedMessageEventJob {
+  event: ParsedMessageEvent;
+  senderId: string;
+  timestamp: number;
+  threadId: string;
+  rawPayload: MetaWebhookPayload;
+}
+
+export interface ParsedCommentJob {
+  commentId: string;
+  mediaId: string;
+  parentCommentId: string | null;
+  senderId: string;
+  username: string | null;
+  text: string;
+  timestamp: number;
+  threadId: string;
+  isFromSelf: boolean;
+  rawPayload: MetaWebhookPayload;
+}
+
+export type BurstDraftJob = {
+  burstLeaderId: string;
+  senderId: string;
+  threadId: string;
+};
+
+export type WebhookJob =
+  | ParsedWebhookJob
+  | ParsedMessageEventJob
+  | ParsedCommentJob
+  | BurstDraftJob;
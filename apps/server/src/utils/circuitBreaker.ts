@@ -0,0 +1,58 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number;
+  cooldownMs: number;
+  now?: () => number;
+};
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private current: CircuitState = "closed";
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold;
+    this.cooldownMs = options.cooldownMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.current === "open" && this.now() - this.openedAt >= this.cooldownMs) {
+      return "half_open";
+    }
+    return this.current;
+  }
+
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open") return false;
+
+    // Half-open lets exactly one trial request through until it settles.
+    if (this.trialInFlight) return false;
+    this.current = "half_open";
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.current = "closed";
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures += 1;
+
+    if (this.current === "half_open" || this.failures >= this.failureThreshold) {
+      this.current = "open";
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Prisma } from "@prisma/client";
+
+const RETRYABLE_PRISMA_CODES = new Set(["P1001", "P1002", "P1008", "P1017", "P2024"]);
+
+export class GraphApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "GraphApiError";
+    this.status = status;
+  }
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+export class PermanentJobError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "PermanentJobError";
+  }
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof PermanentJobError) return false;
+  if (error instanceof LlmTimeoutError) return true;
+
+  if (error instanceof GraphApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+
+  if (error instanceof Prisma.PrismaClientInitializationError) return true;
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return RETRYABLE_PRISMA_CODES.has(error.code);
+  }
+
+  return false;
+}
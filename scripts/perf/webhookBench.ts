@@ -4,6 +4,7 @@ import path from "node:path";
 import { performance } from "node:perf_hooks";
 import Fastify from "fastify";
 import formbody from "@fastify/formbody";
+import type { PrismaClient } from "@prisma/client";
 import rawBody from "fastify-raw-body";
 import type { Env } from "../../apps/server/src/config/env";
 import { InMemoryQueue } from "../../apps/server/src/queue/inMemoryQueue";
@@ -16,6 +17,7 @@ type Scenario = {
   concurrency: number;
   queueConcurrency: number;
   workerDelayMs: number;
+  partitionByThread: boolean;
   timeoutMs: number;
 };
 
@@ -25,6 +27,7 @@ type ScenarioResult = {
   concurrency: number;
   queueConcurrency: number;
   workerDelayMs: number;
+  partitionByThread: boolean;
   successes: number;
   failures: number;
   successRate: number;
@@ -33,6 +36,8 @@ type ScenarioResult = {
   totalDurationMs: number;
   queueDrainAfterDispatchMs: number;
   ackThroughputRps: number;
+  processingThroughputJps: number;
+  threadOverlaps: number;
   fullyProcessed: boolean;
   processedJobs: number;
 };
@@ -60,6 +65,7 @@ const PRESETS: Record<"quick" | "resume", Scenario[]> = {
       concurrency: 20,
       queueConcurrency: 1,
       workerDelayMs: 0,
+      partitionByThread: false,
       timeoutMs: 20_000
     }
   ],
@@ -70,6 +76,7 @@ const PRESETS: Record<"quick" | "resume", Scenario[]> = {
       concurrency: 25,
       queueConcurrency: 1,
       workerDelayMs: 0,
+      partitionByThread: false,
       timeoutMs: 30_000
     },
     {
@@ -78,6 +85,7 @@ const PRESETS: Record<"quick" | "resume", Scenario[]> = {
       concurrency: 100,
       queueConcurrency: 1,
       workerDelayMs: 0,
+      partitionByThread: false,
       timeoutMs: 45_000
     },
     {
@@ -86,6 +94,25 @@ const PRESETS: Record<"quick" | "resume", Scenario[]> = {
       concurrency: 50,
       queueConcurrency: 1,
       workerDelayMs: 3,
+      partitionByThread: false,
+      timeoutMs: 60_000
+    },
+    {
+      name: "thread_ordered_serial",
+      requests: 1_000,
+      concurrency: 50,
+      queueConcurrency: 1,
+      workerDelayMs: 5,
+      partitionByThread: true,
+      timeoutMs: 60_000
+    },
+    {
+      name: "thread_ordered_parallel",
+      requests: 1_000,
+      concurrency: 50,
+      queueConcurrency: 8,
+      workerDelayMs: 5,
+      partitionByThread: true,
       timeoutMs: 60_000
     }
   ]
@@ -108,7 +135,9 @@ async function main(): Promise<void> {
         `p50=${result.ackLatencyMs.p50.toFixed(2)}ms`,
         `p95=${result.ackLatencyMs.p95.toFixed(2)}ms`,
         `p99=${result.ackLatencyMs.p99.toFixed(2)}ms`,
-        `throughput=${result.ackThroughputRps.toFixed(2)} req/s`
+        `throughput=${result.ackThroughputRps.toFixed(2)} req/s`,
+        `processed=${result.processingThroughputJps.toFixed(2)} jobs/s`,
+        `threadOverlaps=${result.threadOverlaps}`
       ].join(" | ")
     );
   }
@@ -134,17 +163,25 @@ async function main(): Promise<void> {
 async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
   const appSecret = "benchmark_app_secret";
   let processedJobs = 0;
+  let threadOverlaps = 0;
+  const activeThreads = new Set<string>();
   const queue = new InMemoryQueue<ParsedWebhookJob>({
     concurrency: scenario.queueConcurrency,
+    partitionKey: scenario.partitionByThread ? (job) => job.threadId : undefined,
     onError: () => {
       // Intentionally empty for benchmark harness.
     }
   });
 
-  queue.start(async () => {
+  queue.start(async (job) => {
+    if (activeThreads.has(job.threadId)) {
+      threadOverlaps += 1;
+    }
+    activeThreads.add(job.threadId);
     if (scenario.workerDelayMs > 0) {
       await sleep(scenario.workerDelayMs);
     }
+    activeThreads.delete(job.threadId);
     processedJobs += 1;
   });
 
@@ -160,6 +197,8 @@ async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
   registerWebhookRoutes(app, {
     env: createBenchmarkEnv(appSecret),
     logger: app.log,
+    // Only the POST route is exercised, which never touches the database.
+    prisma: {} as PrismaClient,
     queue
   });
 
@@ -218,6 +257,7 @@ async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
     concurrency: scenario.concurrency,
     queueConcurrency: scenario.queueConcurrency,
     workerDelayMs: scenario.workerDelayMs,
+    partitionByThread: scenario.partitionByThread,
     successes,
     failures,
     successRate: successes / scenario.requests,
@@ -226,6 +266,8 @@ async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
     totalDurationMs,
     queueDrainAfterDispatchMs: finishedAt - dispatchedAt,
     ackThroughputRps: scenario.requests / (dispatchDurationMs / 1_000),
+    processingThroughputJps: processedJobs / (totalDurationMs / 1_000),
+    threadOverlaps,
     fullyProcessed,
     processedJobs
   };
@@ -241,9 +283,37 @@ function createBenchmarkEnv(appSecret: string): Env {
     metaAppId: "",
     metaAppSecret: "",
     metaAppRedirectUri: "",
+    metaWebhookVerifyToken: "",
+    queueDriver: "memory",
+    queueConcurrency: 1,
+    jobMaxAttempts: 5,
+    jobBackoffBaseMs: 1000,
+    jobBackoffMaxMs: 60000,
+    shutdownTimeoutMs: 25000,
+    burstWindowMs: 0,
     llmProvider: "openai",
+    llmFallbackProviders: [],
+    llmProviderTimeoutMs: 20000,
+    llmBreakerThreshold: 3,
+    llmBreakerCooldownMs: 60000,
     openaiApiKey: "benchmark_openai_key",
-    openaiModel: "gpt-4.1-mini"
+    openaiModel: "gpt-4.1-mini",
+    anthropicApiKey: "",
+    anthropicModel: "claude-3-5-haiku-latest",
+    localLlmBaseUrl: "http://localhost:11434/v1",
+    localLlmModel: "llama3.1",
+    localLlmApiKey: "",
+    localLlmTimeoutMs: 60000,
+    localLlmJsonMode: "auto",
+    mockLlmFixtures: "apps/server/fixtures/mock-llm.json",
+    llmHistoryMaxMessages: 10,
+    llmHistoryMaxTokens: 800,
+    llmHistoryTruncation: "drop_oldest",
+    knowledgeTopK: 3,
+    businessName: "",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: ""
   };
 }
 
@@ -381,6 +451,18 @@ function parseArgs(argv: string[]): CliArgs {
         base.out = value;
         i += 1;
         break;
+      case "--partition-by-thread":
+        custom ??= {
+          name: "custom",
+          requests: 200,
+          concurrency: 20,
+          queueConcurrency: 1,
+          workerDelayMs: 0,
+          partitionByThread: false,
+          timeoutMs: 20_000
+        };
+        custom.partitionByThread = true;
+        break;
       case "--requests":
       case "--concurrency":
       case "--queue-concurrency":
@@ -397,6 +479,7 @@ function parseArgs(argv: string[]): CliArgs {
           concurrency: 20,
           queueConcurrency: 1,
           workerDelayMs: 0,
+          partitionByThread: false,
           timeoutMs: 20_000
         };
         if (arg === "--requests") custom.requests = Math.floor(numeric);
@@ -419,6 +502,7 @@ function parseArgs(argv: string[]): CliArgs {
       concurrency: custom.concurrency ?? 20,
       queueConcurrency: custom.queueConcurrency ?? 1,
       workerDelayMs: custom.workerDelayMs ?? 0,
+      partitionByThread: custom.partitionByThread ?? false,
       timeoutMs: custom.timeoutMs ?? 20_000
     };
   }
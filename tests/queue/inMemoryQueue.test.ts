@@ -75,3 +75,163 @@ test("queue calls onError and continues processing", async () => {
   assert.deepEqual(failures, [1, 3]);
   assert.deepEqual(processed, [0, 2, 4]);
 });
+
+test("queue retries retryable failures with backoff before dead-lettering", async () => {
+  const attempts: number[] = [];
+  const deadLetters: Array<{ job: number; attempts: number }> = [];
+
+  const queue = new InMemoryQueue<number>({
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 5,
+      maxDelayMs: 20,
+      isRetryable: (error) => error instanceof Error && error.message === "transient"
+    },
+    onDeadLetter: (job, _error, attemptCount) => {
+      deadLetters.push({ job, attempts: attemptCount });
+    }
+  });
+
+  queue.start(async (job, context) => {
+    attempts.push(context?.attempt ?? 0);
+    throw new Error(job === 1 ? "transient" : "permanent");
+  });
+
+  queue.enqueue(1);
+  await waitFor(() => deadLetters.length === 1);
+  assert.deepEqual(attempts, [1, 2, 3]);
+  assert.deepEqual(deadLetters, [{ job: 1, attempts: 3 }]);
+
+  queue.enqueue(2);
+  await waitFor(() => deadLetters.length === 2);
+  assert.deepEqual(deadLetters[1], { job: 2, attempts: 1 });
+  await queue.stop();
+});
+
+test("queue keeps jobs with the same partition key in order while running others in parallel", async () => {
+  const queue = new InMemoryQueue<{ thread: string; seq: number }>({
+    concurrency: 4,
+    partitionKey: (job) => job.thread
+  });
+  const activeThreads = new Set<string>();
+  const processed: string[] = [];
+  let overlaps = 0;
+  let maxInFlight = 0;
+  let inFlight = 0;
+
+  queue.start(async (job) => {
+    if (activeThreads.has(job.thread)) overlaps += 1;
+    activeThreads.add(job.thread);
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => {
+      setTimeout(resolve, 15);
+    });
+    inFlight -= 1;
+    activeThreads.delete(job.thread);
+    processed.push(`${job.thread}:${job.seq}`);
+  });
+
+  for (let seq = 0; seq < 3; seq += 1) {
+    queue.enqueue({ thread: "a", seq });
+    queue.enqueue({ thread: "b", seq });
+  }
+
+  await waitFor(() => processed.length === 6);
+  assert.equal(overlaps, 0);
+  assert.equal(maxInFlight, 2);
+  assert.deepEqual(
+    processed.filter((entry) => entry.startsWith("a:")),
+    ["a:0", "a:1", "a:2"]
+  );
+  assert.deepEqual(
+    processed.filter((entry) => entry.startsWith("b:")),
+    ["b:0", "b:1", "b:2"]
+  );
+});
+
+test("queue stop waits for in-flight jobs and returns unstarted ones", async () => {
+  const queue = new InMemoryQueue<number>({ concurrency: 1 });
+  const completed: number[] = [];
+
+  queue.start(async (job) => {
+    await new Promise((resolve) => {
+      setTimeout(resolve, 30);
+    });
+    completed.push(job);
+  });
+
+  [0, 1, 2].forEach((job) => queue.enqueue(job));
+
+  const result = await queue.stop({ timeoutMs: 1_000 });
+
+  assert.equal(result.drained, true);
+  assert.equal(result.inFlight, 0);
+  assert.deepEqual(completed, [0]);
+  assert.deepEqual(result.remaining, [
+    { job: 1, attempts: 0 },
+    { job: 2, attempts: 0 }
+  ]);
+});
+
+test("queue stop reports jobs still running after the deadline", async () => {
+  const queue = new InMemoryQueue<number>({ concurrency: 1 });
+  let release: () => void = () => undefined;
+
+  queue.start(
+    () =>
+      new Promise<void>((resolve) => {
+        release = resolve;
+      })
+  );
+  queue.enqueue(0);
+
+  const result = await queue.stop({ timeoutMs: 20 });
+  release();
+
+  assert.equal(result.drained, false);
+  assert.equal(result.inFlight, 1);
+  assert.deepEqual(result.remaining, []);
+});
+
+test("delayed jobs run after their delay and are returned if the queue stops first", async () => {
+  const queue = new InMemoryQueue<number>({ concurrency: 1 });
+  const processed: number[] = [];
+
+  queue.start(async (job) => {
+    processed.push(job);
+  });
+
+  queue.enqueue(1, { delayMs: 20 });
+  queue.enqueue(2);
+  queue.enqueue(3, { delayMs: 10_000 });
+
+  await new Promise((resolve) => {
+    setTimeout(resolve, 60);
+  });
+  assert.deepEqual(processed, [2, 1]);
+
+  const result = await queue.stop({ timeoutMs: 100 });
+  assert.deepEqual(result.remaining, [{ job: 3, attempts: 0 }]);
+});
+
+test("queue stop returns jobs waiting on a retry with the attempts they used", async () => {
+  const queue = new InMemoryQueue<number>({
+    concurrency: 1,
+    retry: { maxAttempts: 5, baseDelayMs: 10_000, maxDelayMs: 10_000, isRetryable: () => true }
+  });
+  let runs = 0;
+
+  queue.start(async () => {
+    runs += 1;
+    throw new Error("transient");
+  });
+  queue.enqueue(7);
+  await waitFor(() => runs === 1);
+  await new Promise((resolve) => {
+    setImmediate(resolve);
+  });
+
+  const result = await queue.stop({ timeoutMs: 100 });
+  assert.deepEqual(result.remaining, [{ job: 7, attempts: 1 }]);
+});
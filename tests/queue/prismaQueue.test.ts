@@ -0,0 +1,358 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { JobStatus, Prisma, PrismaClient } from "@prisma/client";
+import { PrismaJobQueue } from "../../apps/server/src/queue/prismaQueue";
+
+type JobRecord = {
+  id: string;
+  sequence: number;
+  queue: string;
+  partitionKey: string | null;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  lockedUntil: Date | null;
+  availableAt: Date;
+  lastError: string | null;
+  resume: boolean;
+  createdAt: Date;
+};
+
+async function waitFor(check: () => boolean, timeoutMs = 2_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (check()) return;
+    await new Promise((resolve) => {
+      setTimeout(resolve, 10);
+    });
+  }
+  throw new Error("Timed out waiting for queue condition");
+}
+
+// Timestamps come from a fixed clock so ordering can only come from `sequence`,
+// as it must when a webhook enqueues several messages in the same millisecond.
+const CREATED_AT = new Date(0);
+
+function createJobPrismaMock(seeded: Array<Partial<JobRecord>> = []): {
+  prisma: PrismaClient;
+  jobs: Map<string, JobRecord>;
+  claimQueries: string[];
+} {
+  let idCounter = 0;
+  const jobs = new Map<string, JobRecord>();
+  const claimQueries: string[] = [];
+
+  const insert = (data: Partial<JobRecord>): JobRecord => {
+    const record: JobRecord = {
+      id: data.id ?? `job_${++idCounter}`,
+      sequence: data.sequence ?? idCounter,
+      queue: data.queue ?? "test",
+      partitionKey: data.partitionKey ?? null,
+      payload: data.payload ?? null,
+      status: data.status ?? JobStatus.PENDING,
+      attempts: data.attempts ?? 0,
+      lockedUntil: data.lockedUntil ?? null,
+      availableAt: data.availableAt ?? new Date(0),
+      lastError: data.lastError ?? null,
+      resume: data.resume ?? false,
+      createdAt: data.createdAt ?? CREATED_AT
+    };
+    jobs.set(record.id, record);
+    return record;
+  };
+
+  seeded.forEach(insert);
+
+  const prisma = {
+    job: {
+      create: async ({
+        data
+      }: {
+        data: { queue: string; partitionKey: string | null; payload: unknown; availableAt?: Date };
+      }) => insert(data),
+      update: async ({ where, data }: { where: { id: string }; data: Partial<JobRecord> }) => {
+        const existing = jobs.get(where.id);
+        if (!existing) throw new Error(`Job not found: ${where.id}`);
+        Object.assign(existing, data);
+        return existing;
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        const existing = jobs.get(where.id);
+        if (!existing) throw new Error(`Job not found: ${where.id}`);
+        jobs.delete(where.id);
+        return existing;
+      },
+      updateMany: async ({
+        where,
+        data
+      }: {
+        where: { queue: string; status: JobStatus; lockedUntil: { lt: Date } };
+        data: Partial<JobRecord>;
+      }) => {
+        let count = 0;
+        for (const job of jobs.values()) {
+          if (
+            job.queue === where.queue &&
+            job.status === where.status &&
+            job.lockedUntil &&
+            job.lockedUntil < where.lockedUntil.lt
+          ) {
+            Object.assign(job, data);
+            count += 1;
+          }
+        }
+        return { count };
+      }
+    },
+    // Mirrors the claim query: the lowest unfinished sequence per partition,
+    // and nothing from a partition while one of its jobs holds a live lock.
+    $queryRaw: async (query: Prisma.Sql) => {
+      claimQueries.push(query.sql);
+      const limit = query.values.at(-1) as number;
+      const now = new Date();
+      const unfinished = [...jobs.values()].filter(
+        (job) => job.status === JobStatus.PENDING || job.status === JobStatus.PROCESSING
+      );
+      const isBlocked = (job: JobRecord) =>
+        job.partitionKey !== null &&
+        unfinished.some(
+          (other) =>
+            other.id !== job.id &&
+            other.partitionKey === job.partitionKey &&
+            ((other.status === JobStatus.PROCESSING &&
+              other.lockedUntil !== null &&
+              other.lockedUntil >= now) ||
+              other.sequence < job.sequence)
+        );
+      const claimable = unfinished
+        .filter((job) =>
+          job.status === JobStatus.PENDING
+            ? job.availableAt <= now
+            : job.lockedUntil !== null && job.lockedUntil < now
+        )
+        .filter((job) => !isBlocked(job))
+        .sort((a, b) => a.sequence - b.sequence)
+        .slice(0, limit);
+
+      for (const job of claimable) {
+        job.status = JobStatus.PROCESSING;
+        job.attempts += 1;
+        job.lockedUntil = new Date(Date.now() + 60_000);
+      }
+
+      return claimable.map((job) => ({ ...job }));
+    }
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, jobs, claimQueries };
+}
+
+test("prisma queue persists jobs and deletes them once completed", async () => {
+  const db = createJobPrismaMock();
+  const queue = new PrismaJobQueue<{ n: number }>({
+    prisma: db.prisma,
+    queueName: "test",
+    pollIntervalMs: 20
+  });
+  const processed: number[] = [];
+  const attempts: number[] = [];
+
+  queue.start(async (job, context) => {
+    processed.push(job.n);
+    attempts.push(context?.attempt ?? 0);
+  });
+
+  try {
+    await queue.enqueue({ n: 1 });
+    await queue.enqueue({ n: 2 });
+
+    await waitFor(() => processed.length === 2);
+    assert.deepEqual(processed, [1, 2]);
+    assert.deepEqual(attempts, [1, 1]);
+    await waitFor(() => db.jobs.size === 0);
+  } finally {
+    await queue.stop();
+  }
+});
+
+test("prisma queue records failures with last error", async () => {
+  const db = createJobPrismaMock();
+  const failures: number[] = [];
+  const queue = new PrismaJobQueue<{ n: number }>({
+    prisma: db.prisma,
+    queueName: "test",
+    pollIntervalMs: 20,
+    onError: (_error, job) => failures.push(job.n)
+  });
+
+  queue.start(async () => {
+    throw new Error("worker exploded");
+  });
+
+  try {
+    await queue.enqueue({ n: 7 });
+
+    await waitFor(() =>
+      [...db.jobs.values()].some((job) => job.status === JobStatus.FAILED)
+    );
+    const [job] = [...db.jobs.values()];
+    assert.equal(job.lastError, "worker exploded");
+    assert.equal(job.lockedUntil, null);
+    assert.deepEqual(failures, [7]);
+  } finally {
+    await queue.stop();
+  }
+});
+
+test("prisma queue resumes pending and stale jobs on start", async () => {
+  const db = createJobPrismaMock([
+    {
+      id: "job_pending",
+      payload: { n: 1 },
+      status: JobStatus.PENDING,
+      createdAt: new Date(1_000)
+    },
+    {
+      id: "job_stale",
+      payload: { n: 2 },
+      status: JobStatus.PROCESSING,
+      attempts: 1,
+      lockedUntil: new Date(Date.now() - 1_000),
+      createdAt: new Date(2_000)
+    }
+  ]);
+  const queue = new PrismaJobQueue<{ n: number }>({
+    prisma: db.prisma,
+    queueName: "test",
+    pollIntervalMs: 20
+  });
+  const processed: Array<{ n: number; attempt?: number }> = [];
+
+  queue.start(async (job, context) => {
+    processed.push({ n: job.n, attempt: context?.attempt });
+  });
+
+  try {
+    await waitFor(() => processed.length === 2);
+    assert.deepEqual(processed, [
+      { n: 1, attempt: 1 },
+      { n: 2, attempt: 2 }
+    ]);
+  } finally {
+    await queue.stop();
+  }
+});
+
+test("prisma queue reschedules retryable failures and dead-letters the last attempt", async () => {
+  const db = createJobPrismaMock();
+  const deadLetters: Array<{ n: number; attempts: number }> = [];
+  const attempts: number[] = [];
+  const queue = new PrismaJobQueue<{ n: number }>({
+    prisma: db.prisma,
+    queueName: "test",
+    pollIntervalMs: 5,
+    retry: {
+      maxAttempts: 2,
+      baseDelayMs: 10,
+      maxDelayMs: 10,
+      isRetryable: () => true
+    },
+    onDeadLetter: (job, _error, attemptCount) => {
+      deadLetters.push({ n: job.n, attempts: attemptCount });
+    }
+  });
+
+  queue.start(async (_job, context) => {
+    attempts.push(context?.attempt ?? 0);
+    throw new Error("still down");
+  });
+
+  try {
+    await queue.enqueue({ n: 3 });
+
+    await waitFor(() => deadLetters.length === 1);
+    assert.deepEqual(attempts, [1, 2]);
+    assert.deepEqual(deadLetters, [{ n: 3, attempts: 2 }]);
+    const [job] = [...db.jobs.values()];
+    assert.equal(job.status, JobStatus.FAILED);
+    assert.equal(job.lastError, "still down");
+  } finally {
+    await queue.stop();
+  }
+});
+
+test("prisma queue stores the partition key for ordered claiming", async () => {
+  const db = createJobPrismaMock();
+  const queue = new PrismaJobQueue<{ threadId: string }>({
+    prisma: db.prisma,
+    queueName: "test",
+    partitionKey: (job) => job.threadId
+  });
+
+  await queue.enqueue({ threadId: "thread_42" });
+
+  const [job] = [...db.jobs.values()];
+  assert.equal(job.partitionKey, "thread_42");
+  assert.equal(job.status, JobStatus.PENDING);
+});
+
+test("prisma queue defers delayed jobs through availableAt", async () => {
+  const db = createJobPrismaMock();
+  const queue = new PrismaJobQueue<{ n: number }>({
+    prisma: db.prisma,
+    queueName: "test"
+  });
+
+  const before = Date.now();
+  await queue.enqueue({ n: 1 }, { delayMs: 5_000 });
+
+  const [job] = [...db.jobs.values()];
+  assert.ok(job.availableAt.getTime() >= before + 5_000);
+  assert.equal(job.status, JobStatus.PENDING);
+});
+
+test("prisma queue runs same-millisecond jobs of one partition one at a time in sequence", async () => {
+  const db = createJobPrismaMock();
+  const queue = new PrismaJobQueue<{ threadId: string; n: number }>({
+    prisma: db.prisma,
+    queueName: "test",
+    concurrency: 4,
+    pollIntervalMs: 20,
+    partitionKey: (job) => job.threadId
+  });
+  const started: number[] = [];
+  let running = 0;
+  let maxRunningOnThread = 0;
+
+  for (const n of [1, 2, 3]) await queue.enqueue({ threadId: "thread_1", n });
+  await queue.enqueue({ threadId: "thread_2", n: 4 });
+
+  queue.start(async (job) => {
+    started.push(job.n);
+    if (job.threadId === "thread_1") {
+      running += 1;
+      maxRunningOnThread = Math.max(maxRunningOnThread, running);
+    }
+    await new Promise((resolve) => {
+      setTimeout(resolve, 15);
+    });
+    if (job.threadId === "thread_1") running -= 1;
+  });
+
+  try {
+    await waitFor(() => db.jobs.size === 0);
+    assert.equal(maxRunningOnThread, 1);
+    assert.deepEqual(
+      started.filter((n) => n !== 4),
+      [1, 2, 3]
+    );
+    assert.ok(started.indexOf(4) < started.indexOf(2));
+
+    const [claimSql] = db.claimQueries;
+    assert.match(claimSql, /p\."sequence" < j\."sequence"/);
+    assert.match(claimSql, /ORDER BY j\."sequence" ASC/);
+    assert.doesNotMatch(claimSql, /"createdAt"/);
+  } finally {
+    await queue.stop();
+  }
+});
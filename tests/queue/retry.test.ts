@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { Prisma } from "@prisma/client";
+import { computeBackoffMs, shouldRetry } from "../../apps/server/src/queue/retry";
+import {
+  GraphApiError,
+  isRetryableError,
+  LlmTimeoutError,
+  PermanentJobError
+} from "../../apps/server/src/utils/errors";
+
+test("computeBackoffMs grows exponentially with jitter and respects the cap", () => {
+  const options = { baseDelayMs: 100, maxDelayMs: 1_000 };
+
+  assert.equal(computeBackoffMs(1, options, () => 0), 50);
+  assert.equal(computeBackoffMs(1, options, () => 1), 100);
+  assert.equal(computeBackoffMs(3, options, () => 1), 400);
+  assert.equal(computeBackoffMs(10, options, () => 1), 1_000);
+  assert.equal(computeBackoffMs(10, options, () => 0), 500);
+});
+
+test("shouldRetry stops at max attempts and for non-retryable errors", () => {
+  const options = {
+    maxAttempts: 3,
+    baseDelayMs: 10,
+    maxDelayMs: 100,
+    isRetryable: isRetryableError
+  };
+  const transient = new GraphApiError(503, "Meta Graph API error: 503");
+
+  assert.equal(shouldRetry(transient, 1, options), true);
+  assert.equal(shouldRetry(transient, 3, options), false);
+  assert.equal(shouldRetry(new Error("boom"), 1, options), false);
+  assert.equal(shouldRetry(transient, 1, undefined), false);
+});
+
+test("isRetryableError classifies transient and permanent failures", () => {
+  assert.equal(isRetryableError(new GraphApiError(429, "rate limited")), true);
+  assert.equal(isRetryableError(new GraphApiError(500, "server error")), true);
+  assert.equal(isRetryableError(new GraphApiError(400, "bad token")), false);
+  assert.equal(isRetryableError(new LlmTimeoutError("timed out")), true);
+  assert.equal(isRetryableError(new PermanentJobError("sent already")), false);
+  assert.equal(
+    isRetryableError(
+      new Prisma.PrismaClientKnownRequestError("Can't reach database server", {
+        code: "P1001",
+        clientVersion: "test"
+      })
+    ),
+    true
+  );
+  assert.equal(
+    isRetryableError(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "test"
+      })
+    ),
+    false
+  );
+  assert.equal(isRetryableError(new Error("unexpected")), false);
+});
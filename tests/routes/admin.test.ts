@@ -1,11 +1,21 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 import formbody from "@fastify/formbody";
-import { ContactSegment, MessageDirection, PrismaClient } from "@prisma/client";
+import {
+  CommentReplyMode,
+  ContactSegment,
+  IntentDefinition,
+  KnowledgeArticle,
+  MessageDirection,
+  PayloadHandler,
+  PrismaClient
+} from "@prisma/client";
 import Fastify, { FastifyInstance } from "fastify";
 import { Env } from "../../apps/server/src/config/env";
+import { InMemoryQueue } from "../../apps/server/src/queue/inMemoryQueue";
 import { registerAdminRoutes } from "../../apps/server/src/routes/admin";
 import { IgService } from "../../apps/server/src/services/ig";
+import { ParsedWebhookJob } from "../../apps/server/src/types/meta";
 
 type ContactRecord = {
   id: string;
@@ -30,12 +40,26 @@ type MessageRecord = {
   suggestedReply: string | null;
 };
 
+type DeadLetterRecord = {
+  id: string;
+  queue: string;
+  payload: unknown;
+  attempts: number;
+  lastError: string | null;
+  failedAt: Date;
+};
+
 type ReplyPolicyRecord = {
   id: string;
   segment: ContactSegment;
   autoSend: boolean;
   requireHumanApproval: boolean;
   template: string | null;
+  mediaTemplate: string | null;
+  storyAutoSend: boolean;
+  storyTemplate: string | null;
+  commentReplyMode: CommentReplyMode;
+  approvalIntents: string[];
   createdAt: Date;
   updatedAt: Date;
 };
@@ -50,9 +74,37 @@ function createEnv(): Env {
     metaAppId: "",
     metaAppSecret: "",
     metaAppRedirectUri: "",
+    metaWebhookVerifyToken: "",
+    queueDriver: "memory",
+    queueConcurrency: 1,
+    jobMaxAttempts: 5,
+    jobBackoffBaseMs: 1000,
+    jobBackoffMaxMs: 60000,
+    shutdownTimeoutMs: 25000,
+    burstWindowMs: 0,
     llmProvider: "openai",
+    llmFallbackProviders: [],
+    llmProviderTimeoutMs: 20000,
+    llmBreakerThreshold: 3,
+    llmBreakerCooldownMs: 60000,
     openaiApiKey: "openai_key",
-    openaiModel: "gpt-4.1-mini"
+    openaiModel: "gpt-4.1-mini",
+    anthropicApiKey: "",
+    anthropicModel: "claude-3-5-haiku-latest",
+    localLlmBaseUrl: "http://localhost:11434/v1",
+    localLlmModel: "llama3.1",
+    localLlmApiKey: "",
+    localLlmTimeoutMs: 60000,
+    localLlmJsonMode: "auto",
+    mockLlmFixtures: "apps/server/fixtures/mock-llm.json",
+    llmHistoryMaxMessages: 10,
+    llmHistoryMaxTokens: 800,
+    llmHistoryTruncation: "drop_oldest",
+    knowledgeTopK: 3,
+    businessName: "",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: ""
   };
 }
 
@@ -65,9 +117,17 @@ function createAdminPrismaMock(): {
   contacts: Map<string, ContactRecord>;
   messages: Map<string, MessageRecord>;
   policies: Map<ContactSegment, ReplyPolicyRecord>;
+  deadLetters: Map<string, DeadLetterRecord>;
+  payloadHandlers: Map<string, PayloadHandler>;
+  knowledgeArticles: Map<string, KnowledgeArticle>;
+  intentDefinitions: Map<string, IntentDefinition>;
   deliveryLogs: Array<{ messageId: string; status: string; error?: string | null }>;
 } {
   let idCounter = 0;
+  const deadLetters = new Map<string, DeadLetterRecord>();
+  const payloadHandlers = new Map<string, PayloadHandler>();
+  const knowledgeArticles = new Map<string, KnowledgeArticle>();
+  const intentDefinitions = new Map<string, IntentDefinition>();
   const contacts = new Map<string, ContactRecord>();
   const messages = new Map<string, MessageRecord>();
   const policies = new Map<ContactSegment, ReplyPolicyRecord>();
@@ -172,12 +232,22 @@ function createAdminPrismaMock(): {
           autoSend: boolean;
           requireHumanApproval: boolean;
           template: string | null;
+          mediaTemplate: string | null;
+          storyAutoSend: boolean;
+          storyTemplate: string | null;
+          commentReplyMode: CommentReplyMode;
+          approvalIntents: string[];
         };
         create: {
           segment: ContactSegment;
           autoSend: boolean;
           requireHumanApproval: boolean;
           template: string | null;
+          mediaTemplate: string | null;
+          storyAutoSend: boolean;
+          storyTemplate: string | null;
+          commentReplyMode: CommentReplyMode;
+          approvalIntents: string[];
         };
       }): Promise<ReplyPolicyRecord> => {
         const existing = policies.get(where.segment);
@@ -185,6 +255,11 @@ function createAdminPrismaMock(): {
           existing.autoSend = update.autoSend;
           existing.requireHumanApproval = update.requireHumanApproval;
           existing.template = update.template;
+          existing.mediaTemplate = update.mediaTemplate;
+          existing.storyAutoSend = update.storyAutoSend;
+          existing.storyTemplate = update.storyTemplate;
+          existing.commentReplyMode = update.commentReplyMode;
+          existing.approvalIntents = update.approvalIntents;
           existing.updatedAt = new Date();
           policies.set(where.segment, existing);
           return existing;
@@ -197,6 +272,11 @@ function createAdminPrismaMock(): {
           autoSend: create.autoSend,
           requireHumanApproval: create.requireHumanApproval,
           template: create.template,
+          mediaTemplate: create.mediaTemplate,
+          storyAutoSend: create.storyAutoSend,
+          storyTemplate: create.storyTemplate,
+          commentReplyMode: create.commentReplyMode,
+          approvalIntents: create.approvalIntents,
           createdAt: now,
           updatedAt: now
         };
@@ -204,6 +284,121 @@ function createAdminPrismaMock(): {
         return created;
       }
     },
+    deadLetterJob: {
+      findMany: async (): Promise<DeadLetterRecord[]> => [...deadLetters.values()],
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        deadLetters.get(where.id) ?? null,
+      delete: async ({ where }: { where: { id: string } }) => {
+        const existing = deadLetters.get(where.id);
+        deadLetters.delete(where.id);
+        return existing;
+      }
+    },
+    payloadHandler: {
+      findMany: async (): Promise<PayloadHandler[]> => [...payloadHandlers.values()],
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        payloadHandlers.get(where.id) ?? null,
+      upsert: async ({
+        where,
+        update,
+        create
+      }: {
+        where: { payload: string };
+        update: Omit<PayloadHandler, "id" | "payload" | "createdAt" | "updatedAt">;
+        create: Omit<PayloadHandler, "id" | "createdAt" | "updatedAt">;
+      }): Promise<PayloadHandler> => {
+        const existing = [...payloadHandlers.values()].find(
+          (handler) => handler.payload === where.payload
+        );
+        if (existing) {
+          Object.assign(existing, update, { updatedAt: new Date() });
+          return existing;
+        }
+        const created: PayloadHandler = {
+          id: nextId("handler"),
+          ...create,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        payloadHandlers.set(created.id, created);
+        return created;
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        const existing = payloadHandlers.get(where.id);
+        payloadHandlers.delete(where.id);
+        return existing;
+      }
+    },
+    knowledgeArticle: {
+      findMany: async (): Promise<KnowledgeArticle[]> => [...knowledgeArticles.values()],
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        knowledgeArticles.get(where.id) ?? null,
+      upsert: async ({
+        where,
+        update,
+        create
+      }: {
+        where: { title: string };
+        update: Omit<KnowledgeArticle, "id" | "title" | "createdAt" | "updatedAt">;
+        create: Omit<KnowledgeArticle, "id" | "createdAt" | "updatedAt">;
+      }): Promise<KnowledgeArticle> => {
+        const existing = [...knowledgeArticles.values()].find(
+          (article) => article.title === where.title
+        );
+        if (existing) {
+          Object.assign(existing, update, { updatedAt: new Date() });
+          return existing;
+        }
+        const created: KnowledgeArticle = {
+          id: nextId("article"),
+          ...create,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        knowledgeArticles.set(created.id, created);
+        return created;
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        const existing = knowledgeArticles.get(where.id);
+        knowledgeArticles.delete(where.id);
+        return existing;
+      }
+    },
+    intentDefinition: {
+      findMany: async (): Promise<IntentDefinition[]> => [...intentDefinitions.values()],
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        intentDefinitions.get(where.id) ?? null,
+      upsert: async ({
+        where,
+        update,
+        create
+      }: {
+        where: { name: string };
+        update: Pick<IntentDefinition, "description" | "examples">;
+        create: Pick<IntentDefinition, "name" | "description" | "examples">;
+      }): Promise<IntentDefinition> => {
+        const existing = [...intentDefinitions.values()].find(
+          (intent) => intent.name === where.name
+        );
+        if (existing) {
+          Object.assign(existing, update, { updatedAt: new Date() });
+          return existing;
+        }
+        const created: IntentDefinition = {
+          id: nextId("intent"),
+          ...create,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        intentDefinitions.set(created.id, created);
+        return created;
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        const existing = intentDefinitions.get(where.id);
+        intentDefinitions.delete(where.id);
+        return existing;
+      }
+    },
     deliveryLog: {
       create: async ({
         data
@@ -226,16 +421,25 @@ function createAdminPrismaMock(): {
     contacts,
     messages,
     policies,
+    deadLetters,
+    payloadHandlers,
+    knowledgeArticles,
+    intentDefinitions,
     deliveryLogs
   };
 }
 
-async function buildApp(prisma: PrismaClient, ig: IgService): Promise<FastifyInstance> {
+async function buildApp(
+  prisma: PrismaClient,
+  ig: IgService,
+  queue = new InMemoryQueue<ParsedWebhookJob>()
+): Promise<FastifyInstance> {
   const app = Fastify();
   await app.register(formbody);
   registerAdminRoutes(app, {
     prisma,
     ig,
+    queue,
     env: createEnv(),
     logger: app.log
   });
@@ -268,7 +472,9 @@ test("GET /admin renders escaped content and policy tables", async () => {
   });
 
   const ig: IgService = {
-    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 })
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
   };
   const app = await buildApp(db.prisma, ig);
 
@@ -287,7 +493,9 @@ test("GET /admin renders escaped content and policy tables", async () => {
 test("POST /admin/contact-segment validates input and updates contact", async () => {
   const db = createAdminPrismaMock();
   const ig: IgService = {
-    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 })
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
   };
   const app = await buildApp(db.prisma, ig);
 
@@ -317,7 +525,9 @@ test("POST /admin/contact-segment validates input and updates contact", async ()
 test("POST /admin/policy upserts policy flags and template", async () => {
   const db = createAdminPrismaMock();
   const ig: IgService = {
-    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 })
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
   };
   const app = await buildApp(db.prisma, ig);
 
@@ -329,7 +539,10 @@ test("POST /admin/policy upserts policy flags and template", async () => {
       payload: form({
         segment: "STRANGER",
         autoSend: "on",
-        template: "Thanks for reaching out!"
+        template: "Thanks for reaching out!",
+        mediaTemplate: "Thanks for the photo!",
+        storyAutoSend: "on",
+        storyTemplate: "Glad you liked the story!"
       })
     });
 
@@ -341,6 +554,9 @@ test("POST /admin/policy upserts policy flags and template", async () => {
     assert.equal(updated.autoSend, true);
     assert.equal(updated.requireHumanApproval, false);
     assert.equal(updated.template, "Thanks for reaching out!");
+    assert.equal(updated.mediaTemplate, "Thanks for the photo!");
+    assert.equal(updated.storyAutoSend, true);
+    assert.equal(updated.storyTemplate, "Glad you liked the story!");
   } finally {
     await app.close();
   }
@@ -365,6 +581,8 @@ test("POST /admin/send handles not-found, success, and send failure flows", asyn
 
   let sendShouldFail = false;
   const ig: IgService = {
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 }),
     sendMessage: async () => {
       if (sendShouldFail) {
         throw new Error("network fail");
@@ -412,3 +630,297 @@ test("POST /admin/send handles not-found, success, and send failure flows", asyn
     await app.close();
   }
 });
+
+test("dead-letter routes list, requeue, and discard failed jobs", async () => {
+  const db = createAdminPrismaMock();
+  const job: ParsedWebhookJob = {
+    messageId: "mid_dead",
+    senderId: "user_dead",
+    text: "Where is my order?",
+    attachments: [],
+    story: null,
+    actionPayload: null,
+    timestamp: 1_700_000_000_000,
+    threadId: "thread_dead",
+    isFromSelfOrSystem: false,
+    rawPayload: { object: "instagram", entry: [] }
+  };
+  db.deadLetters.set("dead_1", {
+    id: "dead_1",
+    queue: "instagram-webhook",
+    payload: job,
+    attempts: 5,
+    lastError: "Meta Graph API error: 503 <html>",
+    failedAt: new Date()
+  });
+  db.deadLetters.set("dead_2", {
+    id: "dead_2",
+    queue: "instagram-webhook",
+    payload: { ...job, messageId: "mid_dead_2" },
+    attempts: 1,
+    lastError: "bad payload",
+    failedAt: new Date()
+  });
+
+  const queue = new InMemoryQueue<ParsedWebhookJob>();
+  const requeued: ParsedWebhookJob[] = [];
+  queue.enqueue = (queuedJob: ParsedWebhookJob): void => {
+    requeued.push(queuedJob);
+  };
+  const ig: IgService = {
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
+  };
+  const app = await buildApp(db.prisma, ig, queue);
+
+  try {
+    const page = await app.inject({ method: "GET", url: "/admin/dead-letters" });
+    assert.equal(page.statusCode, 200);
+    assert.match(page.body, /Dead-Letter Jobs/);
+    assert.match(page.body, /503 &lt;html&gt;/);
+
+    const api = await app.inject({ method: "GET", url: "/api/admin/dead-letters" });
+    assert.equal(api.json().deadLetters.length, 2);
+
+    const requeue = await app.inject({
+      method: "POST",
+      url: "/admin/dead-letters/dead_1/requeue"
+    });
+    assert.equal(requeue.statusCode, 302);
+    assert.equal(requeued.length, 1);
+    assert.equal(requeued[0].messageId, "mid_dead");
+    assert.equal(db.deadLetters.has("dead_1"), false);
+
+    const discard = await app.inject({
+      method: "POST",
+      url: "/api/admin/dead-letters/dead_2/discard"
+    });
+    assert.equal(discard.statusCode, 200);
+    assert.equal(db.deadLetters.size, 0);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: "/api/admin/dead-letters/missing/requeue"
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("payload handler routes validate, save, list, and delete handlers", async () => {
+  const db = createAdminPrismaMock();
+  const ig: IgService = {
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
+  };
+  const app = await buildApp(db.prisma, ig);
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/admin/payload-handlers",
+      payload: { payload: "BECOME_VIP", action: "SET_SEGMENT" }
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.match(invalid.json().error, /segment is required/);
+
+    const badReply = await app.inject({
+      method: "POST",
+      url: "/api/admin/payload-handlers",
+      payload: { payload: "STORE_HOURS", action: "REPLY", reply: "Open {{business.open}}" }
+    });
+    assert.equal(badReply.statusCode, 400);
+    assert.equal(badReply.json().error, "Invalid reply: Unknown variable business.open");
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/admin/payload-handlers",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: form({
+        payload: "STORE_HOURS",
+        action: "REPLY",
+        reply: "We are open 9-6.",
+        segment: "",
+        enabled: "on"
+      })
+    });
+    assert.equal(created.statusCode, 302);
+
+    const list = await app.inject({ method: "GET", url: "/api/admin/payload-handlers" });
+    const [handler] = list.json().handlers;
+    assert.equal(handler.payload, "STORE_HOURS");
+    assert.equal(handler.action, "REPLY");
+    assert.equal(handler.reply, "We are open 9-6.");
+    assert.equal(handler.segment, null);
+    assert.equal(handler.enabled, true);
+
+    const page = await app.inject({ method: "GET", url: "/admin/payload-handlers" });
+    assert.match(page.body, /STORE_HOURS/);
+
+    const deleted = await app.inject({
+      method: "POST",
+      url: `/api/admin/payload-handlers/${handler.id}/delete`
+    });
+    assert.equal(deleted.statusCode, 200);
+    assert.equal(db.payloadHandlers.size, 0);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: `/admin/payload-handlers/${handler.id}/delete`
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("knowledge routes validate, chunk, list, and delete articles", async () => {
+  const db = createAdminPrismaMock();
+  const ig: IgService = {
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
+  };
+  const app = await buildApp(db.prisma, ig);
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/admin/knowledge",
+      payload: { title: "Shipping zones", body: "   " }
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.match(invalid.json().error, /body is required/);
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/admin/knowledge",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: form({
+        title: "Shipping zones",
+        body: "We ship to Canada and the US.\n\nEurope takes 7-10 days.",
+        enabled: "on"
+      })
+    });
+    assert.equal(created.statusCode, 302);
+
+    const list = await app.inject({ method: "GET", url: "/api/admin/knowledge" });
+    const [article] = list.json().articles;
+    assert.equal(article.title, "Shipping zones");
+    assert.deepEqual(article.chunks, ["We ship to Canada and the US. Europe takes 7-10 days."]);
+    assert.equal(article.enabled, true);
+
+    const page = await app.inject({ method: "GET", url: "/admin/knowledge" });
+    assert.match(page.body, /Shipping zones/);
+
+    const deleted = await app.inject({
+      method: "POST",
+      url: `/api/admin/knowledge/${article.id}/delete`
+    });
+    assert.equal(deleted.statusCode, 200);
+    assert.equal(db.knowledgeArticles.size, 0);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: `/admin/knowledge/${article.id}/delete`
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("intent routes validate, override built-ins, and gate policy approval intents", async () => {
+  const db = createAdminPrismaMock();
+  const ig: IgService = {
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 5 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
+  };
+  const app = await buildApp(db.prisma, ig);
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/admin/intents",
+      payload: { name: "Wholesale Orders", description: "Bulk orders." }
+    });
+    assert.equal(invalid.statusCode, 400);
+
+    const unknownPolicy = await app.inject({
+      method: "POST",
+      url: "/admin/policy",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: form({ segment: "STRANGER", approvalIntents: "refund, wholesale" })
+    });
+    assert.equal(unknownPolicy.statusCode, 400);
+    assert.match(unknownPolicy.json().error, /Unknown intents: wholesale/);
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/admin/intents",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: form({
+        name: "wholesale",
+        description: "Bulk or reseller orders.",
+        examples: "Do you sell in bulk?\n\nReseller pricing?"
+      })
+    });
+    assert.equal(created.statusCode, 302);
+
+    const override = await app.inject({
+      method: "POST",
+      url: "/api/admin/intents",
+      payload: { name: "refund", description: "Refunds and exchanges.", examples: [] }
+    });
+    assert.equal(override.statusCode, 200);
+
+    const list = await app.inject({ method: "GET", url: "/api/admin/intents" });
+    const intents = list.json().intents as Array<{
+      id: string | null;
+      name: string;
+      description: string;
+      examples: string[];
+      builtIn: boolean;
+    }>;
+    const wholesale = intents.find((intent) => intent.name === "wholesale");
+    const refund = intents.find((intent) => intent.name === "refund");
+    assert.deepEqual(wholesale?.examples, ["Do you sell in bulk?", "Reseller pricing?"]);
+    assert.equal(wholesale?.builtIn, false);
+    assert.equal(refund?.description, "Refunds and exchanges.");
+    assert.equal(refund?.builtIn, true);
+
+    const page = await app.inject({ method: "GET", url: "/admin/intents" });
+    assert.match(page.body, /Bulk or reseller orders\./);
+
+    const savedPolicy = await app.inject({
+      method: "POST",
+      url: "/admin/policy",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: form({ segment: "STRANGER", approvalIntents: "refund, wholesale" })
+    });
+    assert.equal(savedPolicy.statusCode, 302);
+    assert.deepEqual(db.policies.get(ContactSegment.STRANGER)?.approvalIntents, [
+      "refund",
+      "wholesale"
+    ]);
+
+    const reset = await app.inject({
+      method: "POST",
+      url: `/api/admin/intents/${refund?.id}/delete`
+    });
+    assert.equal(reset.json().builtIn, true);
+    assert.equal(db.intentDefinitions.size, 1);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: `/admin/intents/${refund?.id}/delete`
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
@@ -2,15 +2,20 @@ import assert from "node:assert/strict";
 import test from "node:test";
 import formbody from "@fastify/formbody";
 import {
+  CommentReplyMode,
   ConnectionStatus,
   ContactSegment,
+  IntentPolicy,
   MessageDirection,
-  PrismaClient
+  PrismaClient,
+  PromptProfile,
+  ReplyRule
 } from "@prisma/client";
 import Fastify, { FastifyInstance } from "fastify";
 import { Env } from "../../apps/server/src/config/env";
 import { registerFrontendRoutes } from "../../apps/server/src/routes/app";
 import { IgService } from "../../apps/server/src/services/ig";
+import { KeywordRulesService } from "../../apps/server/src/services/rules";
 
 type ConnectionRecord = {
   id: string;
@@ -23,6 +28,7 @@ type ConnectionRecord = {
   scope: string | null;
   lastError: string | null;
   connectedAt: Date | null;
+  webhookVerifiedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -37,9 +43,37 @@ function createEnv(overrides: Partial<Env> = {}): Env {
     metaAppId: "",
     metaAppSecret: "",
     metaAppRedirectUri: "",
+    metaWebhookVerifyToken: "",
+    queueDriver: "memory",
+    queueConcurrency: 1,
+    jobMaxAttempts: 5,
+    jobBackoffBaseMs: 1000,
+    jobBackoffMaxMs: 60000,
+    shutdownTimeoutMs: 25000,
+    burstWindowMs: 0,
     llmProvider: "openai",
+    llmFallbackProviders: [],
+    llmProviderTimeoutMs: 20000,
+    llmBreakerThreshold: 3,
+    llmBreakerCooldownMs: 60000,
     openaiApiKey: "openai_key",
     openaiModel: "gpt-4.1-mini",
+    anthropicApiKey: "",
+    anthropicModel: "claude-3-5-haiku-latest",
+    localLlmBaseUrl: "http://localhost:11434/v1",
+    localLlmModel: "llama3.1",
+    localLlmApiKey: "",
+    localLlmTimeoutMs: 60000,
+    localLlmJsonMode: "auto",
+    mockLlmFixtures: "apps/server/fixtures/mock-llm.json",
+    llmHistoryMaxMessages: 10,
+    llmHistoryMaxTokens: 800,
+    llmHistoryTruncation: "drop_oldest",
+    knowledgeTopK: 3,
+    businessName: "",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: "",
     ...overrides
   };
 }
@@ -51,8 +85,14 @@ function form(payload: Record<string, string>): string {
 function createPrismaMock(): {
   prisma: PrismaClient;
   connection: ConnectionRecord;
+  promptProfiles: PromptProfile[];
+  intentPolicies: IntentPolicy[];
+  replyRules: ReplyRule[];
 } {
   let idCounter = 0;
+  const promptProfiles: PromptProfile[] = [];
+  const intentPolicies: IntentPolicy[] = [];
+  const replyRules: ReplyRule[] = [];
   const connection: ConnectionRecord = {
     id: "connection_1",
     status: ConnectionStatus.DISCONNECTED,
@@ -64,11 +104,40 @@ function createPrismaMock(): {
     scope: null,
     lastError: null,
     connectedAt: null,
+    webhookVerifiedAt: null,
     createdAt: new Date(),
     updatedAt: new Date()
   };
 
+  const byNewestVersion = (a: PromptProfile, b: PromptProfile) => b.version - a.version;
+
   const prisma = {
+    promptProfile: {
+      findMany: async ({
+        where
+      }: { where?: { OR: Array<{ segment: ContactSegment | null }> } } = {}) =>
+        promptProfiles
+          .filter(
+            (profile) =>
+              !where || where.OR.some((clause) => clause.segment === profile.segment)
+          )
+          .sort(byNewestVersion),
+      findFirst: async ({ where }: { where: { segment: ContactSegment | null } }) =>
+        promptProfiles
+          .filter((profile) => profile.segment === where.segment)
+          .sort(byNewestVersion)[0] ?? null,
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        promptProfiles.find((profile) => profile.id === where.id) ?? null,
+      create: async ({
+        data
+      }: {
+        data: Omit<PromptProfile, "id" | "createdAt">;
+      }): Promise<PromptProfile> => {
+        const created = { id: `profile_${++idCounter}`, createdAt: new Date(), ...data };
+        promptProfiles.push(created);
+        return created;
+      }
+    },
     instagramConnection: {
       findFirst: async (): Promise<ConnectionRecord | null> => connection,
       create: async (): Promise<ConnectionRecord> => connection,
@@ -93,6 +162,12 @@ function createPrismaMock(): {
           autoSend: boolean;
           requireHumanApproval: boolean;
           template: string | null;
+          templateVariants?: Record<string, string>;
+          mediaTemplate: string | null;
+          storyAutoSend: boolean;
+          storyTemplate: string | null;
+          commentReplyMode: CommentReplyMode;
+          approvalIntents: string[];
         };
       }) => ({
         id: `policy_${++idCounter}`,
@@ -100,11 +175,119 @@ function createPrismaMock(): {
         autoSend: create.autoSend,
         requireHumanApproval: create.requireHumanApproval,
         template: create.template,
+        templateVariants: create.templateVariants ?? {},
+        mediaTemplate: create.mediaTemplate,
+        storyAutoSend: create.storyAutoSend,
+        storyTemplate: create.storyTemplate,
+        commentReplyMode: create.commentReplyMode,
+        approvalIntents: create.approvalIntents,
         createdAt: new Date(),
         updatedAt: new Date()
       })
     },
+    intentDefinition: {
+      findMany: async () => []
+    },
+    replyRule: {
+      findMany: async () => [...replyRules],
+      findUnique: async ({ where }: { where: { id?: string; name?: string } }) =>
+        replyRules.find((rule) => (where.id ? rule.id === where.id : rule.name === where.name)) ??
+        null,
+      update: async ({
+        where,
+        data
+      }: {
+        where: { id: string };
+        data: Omit<ReplyRule, "id" | "createdAt" | "updatedAt">;
+      }): Promise<ReplyRule> => {
+        const existing = replyRules.find((rule) => rule.id === where.id);
+        if (!existing) throw new Error(`Rule not found: ${where.id}`);
+        return Object.assign(existing, data, { updatedAt: new Date() });
+      },
+      upsert: async ({
+        where,
+        update,
+        create
+      }: {
+        where: { name: string };
+        update: Omit<ReplyRule, "id" | "name" | "createdAt" | "updatedAt">;
+        create: Omit<ReplyRule, "id" | "createdAt" | "updatedAt">;
+      }): Promise<ReplyRule> => {
+        const existing = replyRules.find((rule) => rule.name === where.name);
+        if (existing) {
+          Object.assign(existing, update, { updatedAt: new Date() });
+          return existing;
+        }
+        const created = {
+          id: `rule_${++idCounter}`,
+          ...create,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        replyRules.push(created);
+        return created;
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        const index = replyRules.findIndex((rule) => rule.id === where.id);
+        return replyRules.splice(index, 1)[0];
+      }
+    },
+    intentPolicy: {
+      findMany: async () => [...intentPolicies],
+      findUnique: async ({
+        where
+      }: {
+        where: { id?: string; segment_intent?: { segment: ContactSegment; intent: string } };
+      }) =>
+        intentPolicies.find((policy) =>
+          where.segment_intent
+            ? policy.segment === where.segment_intent.segment &&
+              policy.intent === where.segment_intent.intent
+            : policy.id === where.id
+        ) ?? null,
+      upsert: async ({
+        where,
+        update,
+        create
+      }: {
+        where: { segment_intent: { segment: ContactSegment; intent: string } };
+        update: Omit<IntentPolicy, "id" | "segment" | "intent" | "createdAt" | "updatedAt">;
+        create: Omit<IntentPolicy, "id" | "createdAt" | "updatedAt">;
+      }): Promise<IntentPolicy> => {
+        const existing = intentPolicies.find(
+          (policy) =>
+            policy.segment === where.segment_intent.segment &&
+            policy.intent === where.segment_intent.intent
+        );
+        if (existing) {
+          Object.assign(existing, update, { updatedAt: new Date() });
+          return existing;
+        }
+        const created = {
+          id: `intent_policy_${++idCounter}`,
+          ...create,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        intentPolicies.push(created);
+        return created;
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        const index = intentPolicies.findIndex((policy) => policy.id === where.id);
+        return intentPolicies.splice(index, 1)[0];
+      }
+    },
     contact: {
+      findMany: async () => [],
+      upsert: async ({
+        create,
+        update
+      }: {
+        create: Record<string, unknown>;
+        update: Record<string, unknown>;
+      }) => ({ id: "contact_1", ...create, ...update })
+    },
+    comment: {
       findMany: async () => []
     },
     message: {
@@ -126,25 +309,62 @@ function createPrismaMock(): {
             suggestedReply: "Hi there!",
             direction: MessageDirection.IN,
             needsHumanApproval: false,
-            receivedAt: new Date()
+            receivedAt: new Date(),
+            storyInteraction: "REPLY",
+            storyId: "story_1",
+            storyUrl: "https://cdn.example.com/story.jpg",
+            readAt: null,
+            editedAt: new Date(),
+            deletedAt: null,
+            reactions: [
+              {
+                id: "reaction_1",
+                messageId: "msg_1",
+                senderIgId: "biz_1",
+                reaction: "love",
+                emoji: "❤️",
+                createdAt: new Date(),
+                updatedAt: new Date()
+              }
+            ],
+            attachments: [
+              {
+                id: "att_1",
+                messageId: "msg_1",
+                type: "image",
+                url: "https://cdn.example.com/photo.jpg",
+                title: null,
+                createdAt: new Date()
+              }
+            ]
           }
         ];
       }
     }
   };
 
-  return { prisma: prisma as unknown as PrismaClient, connection };
+  return {
+    prisma: prisma as unknown as PrismaClient,
+    connection,
+    promptProfiles,
+    intentPolicies,
+    replyRules
+  };
 }
 
 async function buildApp(prisma: PrismaClient, env: Env): Promise<FastifyInstance> {
   const app = Fastify();
   await app.register(formbody);
   const ig: IgService = {
-    sendMessage: async () => ({ messageId: "out_1", latencyMs: 1 })
+    sendMessage: async () => ({ messageId: "out_1", latencyMs: 1 }),
+    replyToComment: async () => ({ messageId: "comment_reply_1", latencyMs: 1 }),
+    sendPrivateReply: async () => ({ messageId: "private_reply_1", latencyMs: 1 })
   };
   registerFrontendRoutes(app, {
     prisma,
     ig,
+    knowledge: { search: async () => [] },
+    rules: new KeywordRulesService(),
     env,
     logger: app.log
   });
@@ -161,6 +381,10 @@ test("GET /app renders frontend dashboard", async () => {
     assert.match(response.body, /InstaReply Console/);
     assert.match(response.body, /DISCONNECTED/);
     assert.match(response.body, /Inbound Message Inbox/);
+    assert.match(response.body, /href="https:\/\/cdn\.example\.com\/photo\.jpg"/);
+    assert.match(response.body, /Story reply/);
+    assert.match(response.body, /\(edited\)/);
+    assert.match(response.body, /Reactions: ❤️/);
   } finally {
     await app.close();
   }
@@ -192,6 +416,14 @@ test("GET /api/app/state returns connection, policies, contacts, and messages",
     assert.ok(Array.isArray(payload.policies));
     assert.ok(Array.isArray(payload.contacts));
     assert.ok(Array.isArray(payload.messages));
+    assert.equal(payload.messages[0].attachments[0].type, "image");
+    assert.deepEqual(payload.messages[0].story, {
+      interaction: "REPLY",
+      storyId: "story_1",
+      url: "https://cdn.example.com/story.jpg"
+    });
+    assert.equal(payload.messages[0].reactions[0].emoji, "❤️");
+    assert.equal(payload.messages[0].deletedAt, null);
     assert.ok(Array.isArray(payload.accountSummaries));
     assert.ok(payload.oauth);
   } finally {
@@ -265,3 +497,558 @@ test("GET /oauth/meta/start redirects to facebook oauth dialog when configured",
     await app.close();
   }
 });
+
+test("prompt profile routes version, restore, and preview the rendered prompt", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/app/prompt-profiles",
+      payload: { segment: "VIP", persona: "Formal concierge.", emojiPolicy: "LOTS" }
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.match(invalid.json().error, /emojiPolicy/);
+
+    const saved = await app.inject({
+      method: "POST",
+      url: "/app/prompt-profiles",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      payload: form({
+        segment: "",
+        persona: "You are the voice of Acme Outfitters.",
+        tone: "warm and playful",
+        bannedPhrases: "no worries\n\nto be honest",
+        signOff: "- Team Acme",
+        emojiPolicy: "NONE"
+      })
+    });
+    assert.equal(saved.statusCode, 302);
+    assert.match(String(saved.headers.location), /version%201/);
+
+    const vip = await app.inject({
+      method: "POST",
+      url: "/api/app/prompt-profiles",
+      payload: {
+        segment: "VIP",
+        persona: "You are the concierge of Acme Outfitters.",
+        tone: "formal",
+        bannedPhrases: ["hey"]
+      }
+    });
+    assert.equal(vip.statusCode, 200);
+    assert.equal(vip.json().profile.version, 1);
+    assert.equal(vip.json().profile.emojiPolicy, "SPARING");
+
+    const [defaultV1] = db.promptProfiles;
+    assert.deepEqual(defaultV1.bannedPhrases, ["no worries", "to be honest"]);
+
+    await app.inject({
+      method: "POST",
+      url: "/api/app/prompt-profiles",
+      payload: { persona: "Temporary persona." }
+    });
+    const restored = await app.inject({
+      method: "POST",
+      url: `/api/app/prompt-profiles/${defaultV1.id}/restore`
+    });
+    assert.equal(restored.json().profile.version, 3);
+    assert.equal(restored.json().profile.persona, "You are the voice of Acme Outfitters.");
+
+    const strangerPreview = await app.inject({
+      method: "POST",
+      url: "/api/app/prompt-profiles/preview",
+      payload: { text: "Do you ship to Canada?", segment: "STRANGER" }
+    });
+    const [system, user] = strangerPreview.json().messages;
+    assert.equal(strangerPreview.json().profile.version, 3);
+    assert.match(system.content, /^You are the voice of Acme Outfitters\./);
+    assert.match(system.content, /concise and warm and playful/);
+    assert.match(system.content, /Never use these phrases: "no worries", "to be honest"/);
+    assert.match(system.content, /sign-off "- Team Acme"/);
+    assert.match(system.content, /Do not use emoji/);
+    assert.equal(user.content, 'Incoming DM: "Do you ship to Canada?"');
+
+    const vipPreview = await app.inject({
+      method: "POST",
+      url: "/api/app/prompt-profiles/preview",
+      payload: { text: "hello", segment: "VIP" }
+    });
+    assert.match(vipPreview.json().messages[0].content, /concierge.*concise and formal/);
+
+    const page = await app.inject({
+      method: "GET",
+      url: "/app?previewText=Do%20you%20ship%3F&previewSegment=VIP"
+    });
+    assert.match(page.body, /Brand Voice/);
+    assert.match(page.body, /Using VIP v1/);
+    assert.match(page.body, /You are the concierge of Acme Outfitters/);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: "/api/app/prompt-profiles/missing/restore"
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("intent policy routes validate, upsert, and remove intent × segment overrides", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/app/intent-policies",
+      payload: { segment: "STRANGER", intent: "refund", minConfidence: "1.5" }
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.match(invalid.json().error, /minConfidence/);
+
+    const unknown = await app.inject({
+      method: "POST",
+      url: "/api/app/intent-policies",
+      payload: { segment: "STRANGER", intent: "wholesale" }
+    });
+    assert.equal(unknown.statusCode, 400);
+    assert.match(unknown.json().error, /Unknown intents: wholesale/);
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/api/app/intent-policies",
+      payload: {
+        segment: "STRANGER",
+        intent: "refund",
+        autoSend: "false",
+        requireHumanApproval: "",
+        minConfidence: "0.8",
+        template: "  "
+      }
+    });
+    assert.equal(created.statusCode, 200);
+    const cell = created.json().intentPolicy;
+    assert.equal(cell.autoSend, false);
+    assert.equal(cell.requireHumanApproval, null);
+    assert.equal(cell.template, null);
+    assert.equal(cell.minConfidence, 0.8);
+
+    await app.inject({
+      method: "POST",
+      url: "/api/app/intent-policies",
+      payload: {
+        segment: "STRANGER",
+        intent: "refund",
+        autoSend: true,
+        template: "Refunds take 5 days."
+      }
+    });
+    assert.equal(db.intentPolicies.length, 1);
+    assert.equal(db.intentPolicies[0].autoSend, true);
+    assert.equal(db.intentPolicies[0].minConfidence, null);
+
+    const state = await app.inject({ method: "GET", url: "/api/app/state" });
+    assert.ok(state.json().intents.includes("refund"));
+    assert.equal(state.json().intentPolicies[0].template, "Refunds take 5 days.");
+
+    const removed = await app.inject({
+      method: "POST",
+      url: `/api/app/intent-policies/${db.intentPolicies[0].id}/delete`
+    });
+    assert.equal(removed.statusCode, 200);
+    assert.equal(db.intentPolicies.length, 0);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: "/api/app/intent-policies/missing/delete"
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("rule routes validate patterns and intents, upsert by name, and delete rules", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const badPattern = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: {
+        name: "Order numbers",
+        matchType: "REGEX",
+        keywords: "#\\d{4,}\n[unclosed",
+        intent: "order_support",
+        reply: "Let me look that up."
+      }
+    });
+    assert.equal(badPattern.statusCode, 400);
+    assert.match(badPattern.json().error, /Invalid pattern \[unclosed/);
+
+    const badSegment = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: {
+        name: "Order numbers",
+        keywords: ["order"],
+        intent: "order_support",
+        reply: "Let me look that up.",
+        segments: ["VIP", "PARTNER"]
+      }
+    });
+    assert.match(badSegment.json().error, /Unknown segment: PARTNER/);
+
+    const badLanguage = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: {
+        name: "Order numbers",
+        keywords: ["order"],
+        intent: "order_support",
+        reply: "Let me look that up.",
+        variants: { fr: { keywords: "commande" } }
+      }
+    });
+    assert.match(badLanguage.json().error, /Unsupported language: fr/);
+
+    const badReply = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: {
+        name: "Order numbers",
+        keywords: ["order"],
+        intent: "order_support",
+        reply: "Track it at {{order.lookupUrl}}",
+        variants: { es: { keywords: "pedido", reply: "Hola {{contact.nombre}}" } }
+      }
+    });
+    assert.equal(badReply.json().error, "Invalid reply (es): Unknown variable contact.nombre");
+
+    const unknownIntent = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: { name: "Bulk", keywords: ["bulk"], intent: "wholesale", reply: "Sure." }
+    });
+    assert.match(unknownIntent.json().error, /Unknown intents: wholesale/);
+
+    const created = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: {
+        name: "Order numbers",
+        matchType: "REGEX",
+        keywords: "#\\d{4,}, order\n\n",
+        intent: "order_support",
+        confidence: "0.85",
+        priority: "50",
+        segments: ["VIP"],
+        enabled: true,
+        reply: "Let me look that up."
+      }
+    });
+    assert.equal(created.statusCode, 200);
+    const rule = created.json().rule;
+    assert.deepEqual(rule.keywords, ["#\\d{4,}, order"]);
+    assert.deepEqual(rule.segments, ["VIP"]);
+    assert.equal(rule.priority, 50);
+
+    await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: {
+        name: "Order numbers",
+        keywords: ["order"],
+        intent: "order_support",
+        reply: "Share your order number.",
+        enabled: false,
+        variants: {
+          es: { keywords: "pedido\nmi compra", reply: " Envíanos tu número de pedido. " },
+          pt: { keywords: "", reply: "" }
+        }
+      }
+    });
+    assert.equal(db.replyRules.length, 1);
+    assert.equal(db.replyRules[0].matchType, "CONTAINS");
+    assert.deepEqual(db.replyRules[0].variants, {
+      es: { keywords: ["pedido", "mi compra"], reply: "Envíanos tu número de pedido." }
+    });
+    assert.equal(db.replyRules[0].enabled, false);
+
+    const state = await app.inject({ method: "GET", url: "/api/app/state" });
+    assert.equal(state.json().rules[0].reply, "Share your order number.");
+
+    const deleted = await app.inject({ method: "POST", url: `/api/app/rules/${rule.id}/delete` });
+    assert.equal(deleted.statusCode, 200);
+    assert.equal(db.replyRules.length, 0);
+
+    const missing = await app.inject({ method: "POST", url: `/api/app/rules/${rule.id}/delete` });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("rule updates by id keep the rule through a rename", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+  const payload = { keywords: ["order"], intent: "order_support", reply: "Share your order number." };
+
+  try {
+    const created = await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: { ...payload, name: "Orders" }
+    });
+    const rule = created.json().rule;
+    await app.inject({
+      method: "POST",
+      url: "/api/app/rules",
+      payload: { ...payload, name: "Invoices", keywords: ["invoice"] }
+    });
+
+    const renamed = await app.inject({
+      method: "POST",
+      url: `/api/app/rules/${rule.id}`,
+      payload: { ...payload, name: "Order help", priority: "15" }
+    });
+    assert.equal(renamed.statusCode, 200);
+    assert.equal(renamed.json().rule.id, rule.id);
+    assert.deepEqual(
+      db.replyRules.map((stored) => [stored.name, stored.priority]),
+      [
+        ["Order help", 15],
+        ["Invoices", 0]
+      ]
+    );
+
+    const clash = await app.inject({
+      method: "POST",
+      url: `/api/app/rules/${rule.id}`,
+      payload: { ...payload, name: "Invoices" }
+    });
+    assert.equal(clash.statusCode, 409);
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: `/api/app/rules/${rule.id}`,
+      payload: { ...payload, name: "Order help", intent: "wholesale" }
+    });
+    assert.match(invalid.json().error, /Unknown intents: wholesale/);
+
+    const missing = await app.inject({
+      method: "POST",
+      url: "/api/app/rules/rule_missing",
+      payload: { ...payload, name: "Ghost" }
+    });
+    assert.equal(missing.statusCode, 404);
+  } finally {
+    await app.close();
+  }
+});
+
+test("POST /api/app/rules/test explains the draft path without sending", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/app/rules/test",
+      payload: { text: "How much?", segment: "PARTNER" }
+    });
+    assert.equal(invalid.statusCode, 400);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/app/rules/test",
+      payload: { text: "How much is shipping?", segment: "STRANGER" }
+    });
+    assert.equal(response.statusCode, 200);
+    const result = response.json();
+    assert.equal(result.path, "rule");
+    assert.deepEqual(result.match, {
+      ruleId: null,
+      ruleName: "Pricing",
+      keyword: "how much",
+      term: "How much",
+      index: 0,
+      language: null
+    });
+    assert.equal(result.language, "en");
+    assert.equal(result.policy.segment, "STRANGER");
+    assert.equal(result.intent, "pricing");
+    assert.equal(result.wouldSend, true);
+
+    const spanish = await app.inject({
+      method: "POST",
+      url: "/api/app/rules/test",
+      payload: { text: "¿Cuánto cuesta el envío?", segment: "KNOWN" }
+    });
+    assert.equal(spanish.json().language, "es");
+    assert.equal(spanish.json().match.language, "es");
+    assert.equal(spanish.json().match.keyword, "cuánto cuesta");
+    assert.match(spanish.json().reply, /^Gracias por escribirnos/);
+
+    const llm = await app.inject({
+      method: "POST",
+      url: "/api/app/rules/test",
+      payload: { text: "Love your feed" }
+    });
+    assert.equal(llm.json().path, "llm");
+  } finally {
+    await app.close();
+  }
+});
+
+test("POST /api/app/policy stores per-language template variants", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/app/policy",
+      payload: { segment: "VIP", templateVariants: { de: "Hallo" } }
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.match(invalid.json().error, /Unsupported language: de/);
+
+    const saved = await app.inject({
+      method: "POST",
+      url: "/api/app/policy",
+      payload: {
+        segment: "VIP",
+        template: "Thanks, a human will reply.",
+        templateVariants: { es: " Gracias, te respondemos pronto. ", pt: "" }
+      }
+    });
+    assert.equal(saved.statusCode, 200);
+    assert.deepEqual(saved.json().policy.templateVariants, {
+      es: "Gracias, te respondemos pronto."
+    });
+  } finally {
+    await app.close();
+  }
+});
+
+test("POST /api/app/policy rejects templates with unknown variables or open blocks", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const unknown = await app.inject({
+      method: "POST",
+      url: "/api/app/policy",
+      payload: { segment: "VIP", template: "Hi {{contact.email}}" }
+    });
+    assert.equal(unknown.statusCode, 400);
+    assert.equal(unknown.json().error, "Invalid template: Unknown variable contact.email");
+
+    const variant = await app.inject({
+      method: "POST",
+      url: "/api/app/policy",
+      payload: { segment: "VIP", templateVariants: { es: "{{#if segment}}Hola" } }
+    });
+    assert.equal(variant.statusCode, 400);
+    assert.equal(variant.json().error, "Invalid template (es): Unclosed {{#if}} block");
+
+    const story = await app.inject({
+      method: "POST",
+      url: "/api/app/policy",
+      payload: { segment: "VIP", storyTemplate: "Thanks{{/if}}" }
+    });
+    assert.equal(story.statusCode, 400);
+    assert.match(story.json().error, /^Invalid storyTemplate:/);
+
+    const intentPolicy = await app.inject({
+      method: "POST",
+      url: "/api/app/intent-policies",
+      payload: { segment: "VIP", intent: "refund", template: "{{order.id}}" }
+    });
+    assert.equal(intentPolicy.statusCode, 400);
+    assert.equal(intentPolicy.json().error, "Invalid template: Unknown variable order.id");
+
+    const saved = await app.inject({
+      method: "POST",
+      url: "/api/app/policy",
+      payload: {
+        segment: "VIP",
+        template: `Hi {{contact.name | "there"}}{{#if language == "es"}}, hola{{/if}}!`
+      }
+    });
+    assert.equal(saved.statusCode, 200);
+  } finally {
+    await app.close();
+  }
+});
+
+test("POST /api/app/templates/preview renders a template with sample values", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(
+    db.prisma,
+    createEnv({ businessName: "Acme", orderLookupUrl: "https://acme.test/orders" })
+  );
+
+  try {
+    const rendered = await app.inject({
+      method: "POST",
+      url: "/api/app/templates/preview",
+      payload: {
+        template:
+          `{{#if language == "es"}}Hola{{else}}Hi{{/if}} {{contact.name | "there"}}, ` +
+          `{{business.name}} here.{{#if intent == "order_support"}} {{order.lookupUrl}}{{/if}}`,
+        segment: "VIP",
+        intent: "order_support",
+        language: "es",
+        contactName: "Maya"
+      }
+    });
+    assert.equal(rendered.statusCode, 200);
+    assert.equal(rendered.json().rendered, "Hola Maya, Acme here. https://acme.test/orders");
+
+    const defaults = await app.inject({
+      method: "POST",
+      url: "/api/app/templates/preview",
+      payload: { template: `Hi {{contact.name | "there"}}` }
+    });
+    assert.equal(defaults.json().rendered, "Hi there");
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/app/templates/preview",
+      payload: { template: "{{#if segment}}" }
+    });
+    assert.equal(invalid.statusCode, 400);
+    assert.equal(invalid.json().error, "Invalid template: Unclosed {{#if}} block");
+  } finally {
+    await app.close();
+  }
+});
+
+test("POST /api/app/contact-segment sets and clears the contact name", async () => {
+  const db = createPrismaMock();
+  const app = await buildApp(db.prisma, createEnv());
+
+  try {
+    const named = await app.inject({
+      method: "POST",
+      url: "/api/app/contact-segment",
+      payload: { senderIgId: "user_1", segment: "VIP", name: " Maya " }
+    });
+    assert.equal(named.statusCode, 200);
+    assert.equal(named.json().contact.name, "Maya");
+
+    const cleared = await app.inject({
+      method: "POST",
+      url: "/api/app/contact-segment",
+      payload: { senderIgId: "user_1", segment: "VIP", name: "" }
+    });
+    assert.equal(cleared.json().contact.name, null);
+  } finally {
+    await app.close();
+  }
+});
@@ -2,12 +2,14 @@ import assert from "node:assert/strict";
 import crypto from "node:crypto";
 import test from "node:test";
 import formbody from "@fastify/formbody";
+import { PrismaClient } from "@prisma/client";
 import Fastify, { FastifyInstance } from "fastify";
 import rawBody from "fastify-raw-body";
 import { Env } from "../../apps/server/src/config/env";
 import { InMemoryQueue } from "../../apps/server/src/queue/inMemoryQueue";
+import { JobQueue } from "../../apps/server/src/queue/jobQueue";
 import { registerWebhookRoutes } from "../../apps/server/src/routes/webhook";
-import { ParsedWebhookJob } from "../../apps/server/src/types/meta";
+import { ParsedWebhookJob, WebhookJob } from "../../apps/server/src/types/meta";
 
 function sign(rawBodyValue: string, appSecret: string): string {
   const digest = crypto
@@ -17,7 +19,7 @@ function sign(rawBodyValue: string, appSecret: string): string {
   return `sha256=${digest}`;
 }
 
-function createEnv(appSecret: string): Env {
+function createEnv(appSecret: string, overrides: Partial<Env> = {}): Env {
   return {
     port: 3000,
     databaseUrl: "postgresql://local/test",
@@ -27,13 +29,67 @@ function createEnv(appSecret: string): Env {
     metaAppId: "",
     metaAppSecret: "",
     metaAppRedirectUri: "",
+    metaWebhookVerifyToken: "",
+    queueDriver: "memory",
+    queueConcurrency: 1,
+    jobMaxAttempts: 5,
+    jobBackoffBaseMs: 1000,
+    jobBackoffMaxMs: 60000,
+    shutdownTimeoutMs: 25000,
+    burstWindowMs: 0,
     llmProvider: "openai",
+    llmFallbackProviders: [],
+    llmProviderTimeoutMs: 20000,
+    llmBreakerThreshold: 3,
+    llmBreakerCooldownMs: 60000,
     openaiApiKey: "openai_key",
-    openaiModel: "gpt-4.1-mini"
+    openaiModel: "gpt-4.1-mini",
+    anthropicApiKey: "",
+    anthropicModel: "claude-3-5-haiku-latest",
+    localLlmBaseUrl: "http://localhost:11434/v1",
+    localLlmModel: "llama3.1",
+    localLlmApiKey: "",
+    localLlmTimeoutMs: 60000,
+    localLlmJsonMode: "auto",
+    mockLlmFixtures: "apps/server/fixtures/mock-llm.json",
+    llmHistoryMaxMessages: 10,
+    llmHistoryMaxTokens: 800,
+    llmHistoryTruncation: "drop_oldest",
+    knowledgeTopK: 3,
+    businessName: "",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: "",
+    ...overrides
   };
 }
 
-async function buildApp(queue: InMemoryQueue<ParsedWebhookJob>, env: Env): Promise<FastifyInstance> {
+function createConnectionPrismaMock(): {
+  prisma: PrismaClient;
+  connection: { id: string; webhookVerifiedAt: Date | null };
+} {
+  const connection = { id: "connection_1", webhookVerifiedAt: null as Date | null };
+
+  const prisma = {
+    instagramConnection: {
+      findFirst: async () => connection,
+      create: async () => connection,
+      update: async ({ data }: { data: { webhookVerifiedAt?: Date } }) => {
+        Object.assign(connection, data);
+        return connection;
+      }
+    }
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, connection };
+}
+
+async function buildApp(
+  queue: JobQueue<WebhookJob>,
+  env: Env,
+  prisma: PrismaClient = createConnectionPrismaMock().prisma,
+  isShuttingDown?: () => boolean
+): Promise<FastifyInstance> {
   const app = Fastify();
   await app.register(formbody);
   await app.register(rawBody, {
@@ -46,7 +102,9 @@ async function buildApp(queue: InMemoryQueue<ParsedWebhookJob>, env: Env): Promi
   registerWebhookRoutes(app, {
     env,
     logger: app.log,
-    queue
+    prisma,
+    queue,
+    isShuttingDown
   });
 
   return app;
@@ -148,8 +206,416 @@ test("webhook accepts valid signature and enqueues parsed jobs", async () => {
     assert.equal(queuedJobs[0].senderId, "user_1");
     assert.equal(queuedJobs[0].threadId, "thread_1");
     assert.equal(queuedJobs[0].text, "hello there");
+    assert.deepEqual(queuedJobs[0].attachments, []);
+    assert.equal(queuedJobs[0].story, null);
     assert.equal(queuedJobs[0].isFromSelfOrSystem, false);
   } finally {
     await app.close();
   }
 });
+
+test("webhook parses message attachments into the queued job", async () => {
+  const appSecret = "webhook_secret";
+  const env = createEnv(appSecret);
+  const queue = new InMemoryQueue<ParsedWebhookJob>();
+  const queuedJobs: ParsedWebhookJob[] = [];
+  queue.enqueue = (job: ParsedWebhookJob): void => {
+    queuedJobs.push(job);
+  };
+
+  const app = await buildApp(queue, env);
+  try {
+    const payload = {
+      object: "instagram",
+      entry: [
+        {
+          id: "entry_1",
+          messaging: [
+            {
+              sender: { id: "user_1" },
+              recipient: { id: "biz_1" },
+              timestamp: Date.now(),
+              message: {
+                mid: "mid_media",
+                attachments: [
+                  { type: "image", payload: { url: "https://cdn.example.com/a.jpg" } },
+                  {
+                    type: "share",
+                    payload: { url: "https://instagram.com/p/abc", title: "Summer drop" }
+                  },
+                  { payload: {} }
+                ]
+              }
+            }
+          ]
+        }
+      ]
+    };
+    const rawBodyValue = JSON.stringify(payload);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/webhook/instagram",
+      payload: rawBodyValue,
+      headers: {
+        "content-type": "application/json",
+        "x-hub-signature-256": sign(rawBodyValue, appSecret)
+      }
+    });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(queuedJobs.length, 1);
+    assert.equal(queuedJobs[0].text, "");
+    assert.deepEqual(queuedJobs[0].attachments, [
+      { type: "image", url: "https://cdn.example.com/a.jpg", title: null },
+      { type: "share", url: "https://instagram.com/p/abc", title: "Summer drop" },
+      { type: "unknown", url: null, title: null }
+    ]);
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook captures story replies and story mentions", async () => {
+  const appSecret = "webhook_secret";
+  const env = createEnv(appSecret);
+  const queue = new InMemoryQueue<ParsedWebhookJob>();
+  const queuedJobs: ParsedWebhookJob[] = [];
+  queue.enqueue = (job: ParsedWebhookJob): void => {
+    queuedJobs.push(job);
+  };
+
+  const app = await buildApp(queue, env);
+  try {
+    const payload = {
+      object: "instagram",
+      entry: [
+        {
+          id: "entry_1",
+          messaging: [
+            {
+              sender: { id: "user_1" },
+              recipient: { id: "biz_1" },
+              timestamp: Date.now(),
+              message: {
+                mid: "mid_story_reply",
+                text: "love it",
+                reply_to: { story: { id: "story_1", url: "https://cdn.example.com/s1.jpg" } }
+              }
+            },
+            {
+              sender: { id: "user_2" },
+              recipient: { id: "biz_1" },
+              timestamp: Date.now(),
+              message: {
+                mid: "mid_story_mention",
+                attachments: [
+                  { type: "story_mention", payload: { url: "https://cdn.example.com/m1.jpg" } }
+                ]
+              }
+            }
+          ]
+        }
+      ]
+    };
+    const rawBodyValue = JSON.stringify(payload);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/webhook/instagram",
+      payload: rawBodyValue,
+      headers: {
+        "content-type": "application/json",
+        "x-hub-signature-256": sign(rawBodyValue, appSecret)
+      }
+    });
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(
+      queuedJobs.map((job) => job.story),
+      [
+        { interaction: "reply", storyId: "story_1", url: "https://cdn.example.com/s1.jpg" },
+        { interaction: "mention", storyId: null, url: "https://cdn.example.com/m1.jpg" }
+      ]
+    );
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook parses reactions, reads, edits and unsends into event jobs", async () => {
+  const appSecret = "webhook_secret";
+  const env = createEnv(appSecret);
+  const queue = new InMemoryQueue<WebhookJob>();
+  const queuedJobs: WebhookJob[] = [];
+  queue.enqueue = (job: WebhookJob): void => {
+    queuedJobs.push(job);
+  };
+
+  const app = await buildApp(queue, env);
+  try {
+    const base = { sender: { id: "user_1" }, recipient: { id: "biz_1" }, timestamp: 1_000 };
+    const payload = {
+      object: "instagram",
+      entry: [
+        {
+          id: "entry_1",
+          messaging: [
+            { ...base, reaction: { mid: "mid_out", action: "react", reaction: "love", emoji: "❤️" } },
+            { ...base, read: { mid: "mid_out" } },
+            { ...base, message_edit: { mid: "mid_in", text: "edited text", num_edit: 1 } },
+            { ...base, message: { mid: "mid_gone", is_deleted: true } }
+          ]
+        }
+      ]
+    };
+    const rawBodyValue = JSON.stringify(payload);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/webhook/instagram",
+      payload: rawBodyValue,
+      headers: {
+        "content-type": "application/json",
+        "x-hub-signature-256": sign(rawBodyValue, appSecret)
+      }
+    });
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(
+      queuedJobs.map((job) => ("event" in job ? job.event : null)),
+      [
+        { type: "reaction", messageId: "mid_out", action: "react", reaction: "love", emoji: "❤️" },
+        { type: "read", messageId: "mid_out" },
+        { type: "edit", messageId: "mid_in", text: "edited text" },
+        { type: "unsend", messageId: "mid_gone" }
+      ]
+    );
+    assert.ok(queuedJobs.every((job) => job.threadId === "entry_1_user_1"));
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook parses postbacks and quick-reply payloads", async () => {
+  const appSecret = "webhook_secret";
+  const env = createEnv(appSecret);
+  const queue = new InMemoryQueue<ParsedWebhookJob>();
+  const queuedJobs: ParsedWebhookJob[] = [];
+  queue.enqueue = (job: ParsedWebhookJob): void => {
+    queuedJobs.push(job);
+  };
+
+  const app = await buildApp(queue, env);
+  try {
+    const base = { sender: { id: "user_1" }, recipient: { id: "biz_1" }, timestamp: 1_000 };
+    const payload = {
+      object: "instagram",
+      entry: [
+        {
+          id: "entry_1",
+          messaging: [
+            { ...base, postback: { mid: "mid_postback", title: "Store hours", payload: "STORE_HOURS" } },
+            {
+              ...base,
+              message: { mid: "mid_quick", text: "Talk to a human", quick_reply: { payload: "HANDOFF" } }
+            }
+          ]
+        }
+      ]
+    };
+    const rawBodyValue = JSON.stringify(payload);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/webhook/instagram",
+      payload: rawBodyValue,
+      headers: {
+        "content-type": "application/json",
+        "x-hub-signature-256": sign(rawBodyValue, appSecret)
+      }
+    });
+
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(
+      queuedJobs.map((job) => [job.messageId, job.text, job.actionPayload]),
+      [
+        ["mid_postback", "Store hours", "STORE_HOURS"],
+        ["mid_quick", "Talk to a human", "HANDOFF"]
+      ]
+    );
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook parses comment changes and ignores the account's own comments", async () => {
+  const appSecret = "webhook_secret";
+  const env = createEnv(appSecret);
+  const queue = new InMemoryQueue<WebhookJob>();
+  const queuedJobs: WebhookJob[] = [];
+  queue.enqueue = (job: WebhookJob): void => {
+    queuedJobs.push(job);
+  };
+
+  const app = await buildApp(queue, env);
+  try {
+    const payload = {
+      object: "instagram",
+      entry: [
+        {
+          id: "biz_1",
+          time: 1_700_000_000,
+          changes: [
+            {
+              field: "comments",
+              value: {
+                id: "comment_1",
+                text: "How much is this?",
+                from: { id: "user_1", username: "shopper" },
+                media: { id: "media_1" }
+              }
+            },
+            {
+              field: "comments",
+              value: {
+                id: "comment_2",
+                text: "Thanks!",
+                parent_id: "comment_1",
+                from: { id: "biz_1", username: "our_shop" },
+                media: { id: "media_1" }
+              }
+            },
+            { field: "mentions", value: { id: "mention_1" } }
+          ]
+        }
+      ]
+    };
+    const rawBodyValue = JSON.stringify(payload);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/webhook/instagram",
+      payload: rawBodyValue,
+      headers: {
+        "content-type": "application/json",
+        "x-hub-signature-256": sign(rawBodyValue, appSecret)
+      }
+    });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(queuedJobs.length, 2);
+    const [comment, ownReply] = queuedJobs;
+    assert.ok("commentId" in comment && "commentId" in ownReply);
+    assert.equal(comment.commentId, "comment_1");
+    assert.equal(comment.mediaId, "media_1");
+    assert.equal(comment.username, "shopper");
+    assert.equal(comment.text, "How much is this?");
+    assert.equal(comment.timestamp, 1_700_000_000_000);
+    assert.equal(comment.threadId, "comments_media_1_user_1");
+    assert.equal(comment.isFromSelf, false);
+    assert.equal(ownReply.parentCommentId, "comment_1");
+    assert.equal(ownReply.isFromSelf, true);
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook verification echoes challenge and records subscription", async () => {
+  const env = createEnv("webhook_secret", { metaWebhookVerifyToken: "verify_me" });
+  const db = createConnectionPrismaMock();
+  const app = await buildApp(new InMemoryQueue<ParsedWebhookJob>(), env, db.prisma);
+
+  try {
+    const response = await app.inject({
+      method: "GET",
+      url: "/webhook/instagram",
+      query: {
+        "hub.mode": "subscribe",
+        "hub.verify_token": "verify_me",
+        "hub.challenge": "challenge_123"
+      }
+    });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.body, "challenge_123");
+    assert.ok(db.connection.webhookVerifiedAt instanceof Date);
+  } finally {
+    await app.close();
+  }
+});
+
+test("webhook verification rejects wrong or unconfigured verify token", async () => {
+  const db = createConnectionPrismaMock();
+  const configured = await buildApp(
+    new InMemoryQueue<ParsedWebhookJob>(),
+    createEnv("webhook_secret", { metaWebhookVerifyToken: "verify_me" }),
+    db.prisma
+  );
+  const unconfigured = await buildApp(
+    new InMemoryQueue<ParsedWebhookJob>(),
+    createEnv("webhook_secret"),
+    db.prisma
+  );
+
+  try {
+    const wrongToken = await configured.inject({
+      method: "GET",
+      url: "/webhook/instagram",
+      query: {
+        "hub.mode": "subscribe",
+        "hub.verify_token": "nope",
+        "hub.challenge": "challenge_123"
+      }
+    });
+    const missingConfig = await unconfigured.inject({
+      method: "GET",
+      url: "/webhook/instagram",
+      query: {
+        "hub.mode": "subscribe",
+        "hub.verify_token": "",
+        "hub.challenge": "challenge_123"
+      }
+    });
+
+    assert.equal(wrongToken.statusCode, 403);
+    assert.equal(missingConfig.statusCode, 403);
+    assert.equal(db.connection.webhookVerifiedAt, null);
+  } finally {
+    await configured.close();
+    await unconfigured.close();
+  }
+});
+
+test("webhook returns 503 while the server is shutting down", async () => {
+  const appSecret = "webhook_secret";
+  const queue = new InMemoryQueue<ParsedWebhookJob>();
+  const queuedJobs: ParsedWebhookJob[] = [];
+  queue.enqueue = (job: ParsedWebhookJob): void => {
+    queuedJobs.push(job);
+  };
+
+  const app = await buildApp(
+    queue,
+    createEnv(appSecret),
+    createConnectionPrismaMock().prisma,
+    () => true
+  );
+  try {
+    const rawBodyValue = JSON.stringify({ object: "instagram", entry: [] });
+    const response = await app.inject({
+      method: "POST",
+      url: "/webhook/instagram",
+      payload: rawBodyValue,
+      headers: {
+        "content-type": "application/json",
+        "x-hub-signature-256": sign(rawBodyValue, appSecret)
+      }
+    });
+
+    assert.equal(response.statusCode, 503);
+    assert.equal(queuedJobs.length, 0);
+  } finally {
+    await app.close();
+  }
+});
@@ -1,10 +1,25 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { ContactSegment, MessageDirection, PrismaClient } from "@prisma/client";
+import {
+  CommentReplyMode,
+  ContactSegment,
+  DeadLetterJob,
+  IntentPolicy,
+  MessageDirection,
+  PayloadAction,
+  PayloadHandler,
+  Prisma,
+  PrismaClient,
+  PromptProfile
+} from "@prisma/client";
 import { Env } from "../../apps/server/src/config/env";
+import { InMemoryQueue } from "../../apps/server/src/queue/inMemoryQueue";
 import { createWebhookWorker } from "../../apps/server/src/routes/webhook";
-import { LlmDraft } from "../../apps/server/src/types/llm";
-import { ParsedWebhookJob } from "../../apps/server/src/types/meta";
+import { recordDeadLetter, requeueDeadLetter } from "../../apps/server/src/services/deadLetters";
+import { RuleDraft } from "../../apps/server/src/services/rules";
+import { DraftContext, LlmDraft, ServedDraft } from "../../apps/server/src/types/llm";
+import { GraphApiError } from "../../apps/server/src/utils/errors";
+import { ParsedCommentJob, ParsedWebhookJob, WebhookJob } from "../../apps/server/src/types/meta";
 
 type StoredMessage = {
   id: string;
@@ -18,11 +33,37 @@ type StoredMessage = {
   confidence: number | null;
   needsHumanApproval: boolean;
   suggestedReply: string | null;
+  llmProvider: string | null;
+  knowledgeArticleIds: string[];
+  promptProfileId: string | null;
+  ruleMatch: unknown;
+  language: string | null;
+  attachments: Array<{ type: string; url: string | null; title: string | null }>;
+  storyInteraction: string | null;
+  storyUrl: string | null;
+  awaitingDraft: boolean;
+  coalescedIntoId: string | null;
+  deletedAt: Date | null;
+};
+
+type StoredComment = {
+  id: string;
+  igCommentId: string;
+  mediaId: string;
+  senderIgId: string;
+  text: string;
+  suggestedReply: string | null;
+  knowledgeArticleIds?: string[];
+  replyMode: CommentReplyMode | null;
+  replyStatus: string | null;
+  replyError: string | null;
+  replyIgId: string | null;
 };
 
 type StoredContact = {
   id: string;
   senderIgId: string;
+  name?: string | null;
   segment: ContactSegment;
 };
 
@@ -32,6 +73,12 @@ type StoredPolicy = {
   autoSend: boolean;
   requireHumanApproval: boolean;
   template: string | null;
+  templateVariants?: Record<string, string>;
+  mediaTemplate: string | null;
+  storyAutoSend: boolean;
+  storyTemplate: string | null;
+  commentReplyMode: CommentReplyMode;
+  approvalIntents: string[];
 };
 
 function createEnv(): Env {
@@ -44,9 +91,51 @@ function createEnv(): Env {
     metaAppId: "",
     metaAppSecret: "",
     metaAppRedirectUri: "",
+    metaWebhookVerifyToken: "",
+    queueDriver: "memory",
+    queueConcurrency: 1,
+    jobMaxAttempts: 5,
+    jobBackoffBaseMs: 1000,
+    jobBackoffMaxMs: 60000,
+    shutdownTimeoutMs: 25000,
+    burstWindowMs: 0,
     llmProvider: "openai",
+    llmFallbackProviders: [],
+    llmProviderTimeoutMs: 20000,
+    llmBreakerThreshold: 3,
+    llmBreakerCooldownMs: 60000,
     openaiApiKey: "openai_key",
-    openaiModel: "gpt-4.1-mini"
+    openaiModel: "gpt-4.1-mini",
+    anthropicApiKey: "",
+    anthropicModel: "claude-3-5-haiku-latest",
+    localLlmBaseUrl: "http://localhost:11434/v1",
+    localLlmModel: "llama3.1",
+    localLlmApiKey: "",
+    localLlmTimeoutMs: 60000,
+    localLlmJsonMode: "auto",
+    mockLlmFixtures: "apps/server/fixtures/mock-llm.json",
+    llmHistoryMaxMessages: 10,
+    llmHistoryMaxTokens: 800,
+    llmHistoryTruncation: "drop_oldest",
+    knowledgeTopK: 3,
+    businessName: "",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: ""
+  };
+}
+
+function toRuleDraft(draft: LlmDraft): RuleDraft {
+  return {
+    ...draft,
+    match: {
+      ruleId: "rule_1",
+      ruleName: "Test rule",
+      keyword: "test",
+      term: "test",
+      index: 0,
+      language: null
+    }
   };
 }
 
@@ -55,6 +144,9 @@ function createJob(overrides: Partial<ParsedWebhookJob> = {}): ParsedWebhookJob
     messageId: "mid_1",
     senderId: "sender_1",
     text: "How much does this cost?",
+    attachments: [],
+    story: null,
+    actionPayload: null,
     timestamp: Date.now(),
     threadId: "thread_1",
     isFromSelfOrSystem: false,
@@ -63,25 +155,59 @@ function createJob(overrides: Partial<ParsedWebhookJob> = {}): ParsedWebhookJob
   };
 }
 
+function createCommentJob(overrides: Partial<ParsedCommentJob> = {}): ParsedCommentJob {
+  return {
+    commentId: "comment_1",
+    mediaId: "media_1",
+    parentCommentId: null,
+    senderId: "commenter_1",
+    username: "commenter",
+    text: "Where do you ship?",
+    timestamp: Date.now(),
+    threadId: "comments_media_1_commenter_1",
+    isFromSelf: false,
+    rawPayload: { object: "instagram", entry: [] },
+    ...overrides
+  };
+}
+
 function createWebhookPrismaMock(): {
   prisma: PrismaClient;
   messagesByIgId: Map<string, StoredMessage>;
+  commentsByIgId: Map<string, StoredComment>;
   contactsBySender: Map<string, StoredContact>;
   policiesBySegment: Map<ContactSegment, StoredPolicy>;
+  intentPolicies: IntentPolicy[];
+  promptProfiles: PromptProfile[];
   deliveryLogs: Array<{ messageId: string; status: string; error?: string | null }>;
+  deadLetters: DeadLetterJob[];
 } {
   let idCounter = 0;
   const messagesById = new Map<string, StoredMessage>();
   const messagesByIgId = new Map<string, StoredMessage>();
+  const commentsByIgId = new Map<string, StoredComment>();
   const threadsByIgId = new Map<string, { id: string; igThreadId: string }>();
   const contactsBySender = new Map<string, StoredContact>();
   const policiesBySegment = new Map<ContactSegment, StoredPolicy>();
+  const intentPolicies: IntentPolicy[] = [];
+  const promptProfiles: PromptProfile[] = [];
   const rawEventsByIgMessageId = new Set<string>();
   const deliveryLogs: Array<{ messageId: string; status: string; error?: string | null }> = [];
+  const deadLetters: DeadLetterJob[] = [];
 
   const nextId = (prefix: string): string => `${prefix}_${++idCounter}`;
 
   const prisma = {
+    promptProfile: {
+      findMany: async ({
+        where
+      }: {
+        where: { OR: Array<{ segment: ContactSegment | null }> };
+      }): Promise<PromptProfile[]> =>
+        promptProfiles
+          .filter((profile) => where.OR.some((clause) => clause.segment === profile.segment))
+          .sort((a, b) => b.version - a.version)
+    },
     rawEvent: {
       upsert: async ({
         where
@@ -97,17 +223,67 @@ function createWebhookPrismaMock(): {
     },
     message: {
       findUnique: async ({
-        where
+        where,
+        include
       }: {
         where: { igMessageId?: string; id?: string };
-      }): Promise<StoredMessage | null> => {
-        if (where.igMessageId) {
-          return messagesByIgId.get(where.igMessageId) ?? null;
-        }
-        if (where.id) {
-          return messagesById.get(where.id) ?? null;
+        include?: { coalescedMessages?: unknown };
+      }): Promise<(StoredMessage & { coalescedMessages?: StoredMessage[] }) | null> => {
+        const found = where.igMessageId
+          ? messagesByIgId.get(where.igMessageId)
+          : where.id
+            ? messagesById.get(where.id)
+            : undefined;
+        if (!found) return null;
+        if (!include?.coalescedMessages) return found;
+        return {
+          ...found,
+          coalescedMessages: [...messagesById.values()]
+            .filter((message) => message.coalescedIntoId === found.id)
+            .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime())
+        };
+      },
+      findMany: async ({
+        where,
+        orderBy,
+        take
+      }: {
+        where: {
+          threadId: string;
+          id?: { not: string };
+          receivedAt?: { lte: Date };
+          awaitingDraft?: boolean;
+        };
+        orderBy: { receivedAt: "asc" | "desc" };
+        take?: number;
+      }): Promise<StoredMessage[]> =>
+        [...messagesById.values()]
+          .filter(
+            (message) =>
+              message.threadId === where.threadId &&
+              (!where.id || message.id !== where.id.not) &&
+              (!where.receivedAt || message.receivedAt <= where.receivedAt.lte) &&
+              (where.awaitingDraft === undefined || message.awaitingDraft === where.awaitingDraft) &&
+              message.text !== null
+          )
+          .sort((a, b) =>
+            orderBy.receivedAt === "asc"
+              ? a.receivedAt.getTime() - b.receivedAt.getTime()
+              : b.receivedAt.getTime() - a.receivedAt.getTime()
+          )
+          .slice(0, take),
+      updateMany: async ({
+        where,
+        data
+      }: {
+        where: { id: { in: string[] } };
+        data: { awaitingDraft?: boolean; coalescedIntoId?: string };
+      }): Promise<{ count: number }> => {
+        for (const id of where.id.in) {
+          const existing = messagesById.get(id);
+          if (existing) Object.assign(existing, data);
         }
-        return null;
+        return { count: where.id.in.length };
       },
       create: async ({
         data
@@ -118,7 +294,14 @@ function createWebhookPrismaMock(): {
           senderIgId: string;
           direction: MessageDirection;
           text?: string | null;
+          language?: string | null;
           receivedAt: Date;
+          storyInteraction?: string | null;
+          storyUrl?: string | null;
+          awaitingDraft?: boolean;
+          attachments?: {
+            create: Array<{ type: string; url: string | null; title: string | null }>;
+          };
         };
       }): Promise<StoredMessage> => {
         const created: StoredMessage = {
@@ -132,7 +315,18 @@ function createWebhookPrismaMock(): {
           intent: null,
           confidence: null,
           needsHumanApproval: false,
-          suggestedReply: null
+          suggestedReply: null,
+          llmProvider: null,
+          knowledgeArticleIds: [],
+          promptProfileId: null,
+          ruleMatch: null,
+          language: data.language ?? null,
+          attachments: data.attachments?.create ?? [],
+          storyInteraction: data.storyInteraction ?? null,
+          storyUrl: data.storyUrl ?? null,
+          awaitingDraft: data.awaitingDraft ?? false,
+          coalescedIntoId: null,
+          deletedAt: null
         };
         messagesById.set(created.id, created);
         messagesByIgId.set(created.igMessageId, created);
@@ -144,25 +338,76 @@ function createWebhookPrismaMock(): {
       }: {
         where: { id: string };
         data: {
-          intent: string;
-          confidence: number;
-          suggestedReply: string;
+          intent?: string;
+          confidence?: number;
+          suggestedReply: string | null;
           needsHumanApproval: boolean;
+          llmProvider?: string | null;
+          knowledgeArticleIds?: string[];
+          promptProfileId?: string | null;
+          ruleMatch?: unknown;
+          language?: string | null;
         };
       }): Promise<StoredMessage> => {
         const existing = messagesById.get(where.id);
         if (!existing) {
           throw new Error(`Message not found: ${where.id}`);
         }
-        existing.intent = data.intent;
-        existing.confidence = data.confidence;
+        existing.intent = data.intent ?? existing.intent;
+        existing.confidence = data.confidence ?? existing.confidence;
         existing.suggestedReply = data.suggestedReply;
         existing.needsHumanApproval = data.needsHumanApproval;
+        existing.llmProvider = data.llmProvider ?? existing.llmProvider;
+        existing.knowledgeArticleIds = data.knowledgeArticleIds ?? existing.knowledgeArticleIds;
+        existing.promptProfileId = data.promptProfileId ?? existing.promptProfileId;
+        if (data.ruleMatch !== undefined) {
+          existing.ruleMatch = data.ruleMatch === Prisma.DbNull ? null : data.ruleMatch;
+        }
+        if (data.language !== undefined) existing.language = data.language;
         messagesById.set(existing.id, existing);
         messagesByIgId.set(existing.igMessageId, existing);
         return existing;
       }
     },
+    comment: {
+      findUnique: async ({
+        where
+      }: {
+        where: { igCommentId: string };
+      }): Promise<StoredComment | null> => commentsByIgId.get(where.igCommentId) ?? null,
+      create: async ({
+        data
+      }: {
+        data: { igCommentId: string; mediaId: string; senderIgId: string; text: string };
+      }): Promise<StoredComment> => {
+        const created: StoredComment = {
+          id: nextId("comment"),
+          igCommentId: data.igCommentId,
+          mediaId: data.mediaId,
+          senderIgId: data.senderIgId,
+          text: data.text,
+          suggestedReply: null,
+          replyMode: null,
+          replyStatus: null,
+          replyError: null,
+          replyIgId: null
+        };
+        commentsByIgId.set(created.igCommentId, created);
+        return created;
+      },
+      update: async ({
+        where,
+        data
+      }: {
+        where: { id: string };
+        data: Partial<StoredComment>;
+      }): Promise<StoredComment> => {
+        const existing = [...commentsByIgId.values()].find((comment) => comment.id === where.id);
+        if (!existing) throw new Error(`Comment not found: ${where.id}`);
+        Object.assign(existing, data);
+        return existing;
+      }
+    },
     thread: {
       upsert: async ({
         where,
@@ -187,19 +432,44 @@ function createWebhookPrismaMock(): {
         create
       }: {
         where: { senderIgId: string };
-        create: { senderIgId: string; segment: ContactSegment };
+        create: { senderIgId: string; name?: string | null; segment: ContactSegment };
       }): Promise<StoredContact> => {
         const existing = contactsBySender.get(where.senderIgId);
         if (existing) return existing;
         const createdContact: StoredContact = {
           id: nextId("contact"),
           senderIgId: create.senderIgId,
+          name: create.name ?? null,
           segment: create.segment
         };
         contactsBySender.set(createdContact.senderIgId, createdContact);
         return createdContact;
+      },
+      update: async ({
+        where,
+        data
+      }: {
+        where: { id: string };
+        data: { segment: ContactSegment };
+      }): Promise<StoredContact> => {
+        const existing = [...contactsBySender.values()].find((contact) => contact.id === where.id);
+        if (!existing) throw new Error(`Contact not found: ${where.id}`);
+        existing.segment = data.segment;
+        return existing;
       }
     },
+    intentPolicy: {
+      findUnique: async ({
+        where
+      }: {
+        where: { segment_intent: { segment: ContactSegment; intent: string } };
+      }): Promise<IntentPolicy | null> =>
+        intentPolicies.find(
+          (policy) =>
+            policy.segment === where.segment_intent.segment &&
+            policy.intent === where.segment_intent.intent
+        ) ?? null
+    },
     replyPolicy: {
       upsert: async ({
         where,
@@ -211,6 +481,11 @@ function createWebhookPrismaMock(): {
           autoSend: boolean;
           requireHumanApproval: boolean;
           template: string | null;
+          mediaTemplate: string | null;
+          storyAutoSend: boolean;
+          storyTemplate: string | null;
+          commentReplyMode: CommentReplyMode;
+          approvalIntents: string[];
         };
       }): Promise<StoredPolicy> => {
         const existing = policiesBySegment.get(where.segment);
@@ -220,7 +495,12 @@ function createWebhookPrismaMock(): {
           segment: create.segment,
           autoSend: create.autoSend,
           requireHumanApproval: create.requireHumanApproval,
-          template: create.template
+          template: create.template,
+          mediaTemplate: create.mediaTemplate,
+          storyAutoSend: create.storyAutoSend,
+          storyTemplate: create.storyTemplate,
+          commentReplyMode: create.commentReplyMode,
+          approvalIntents: create.approvalIntents
         };
         policiesBySegment.set(createdPolicy.segment, createdPolicy);
         return createdPolicy;
@@ -239,6 +519,53 @@ function createWebhookPrismaMock(): {
         };
         deliveryLogs.push(created);
         return created;
+      },
+      findFirst: async ({
+        where
+      }: {
+        where: {
+          status: { in: string[] };
+          OR: [
+            { messageId: string },
+            {
+              message: {
+                threadId: string;
+                direction: MessageDirection;
+                receivedAt: { gte: Date };
+              };
+            }
+          ];
+        };
+      }): Promise<{ id: string } | null> => {
+        const [own, reply] = where.OR;
+        const found = deliveryLogs.find((log) => {
+          if (!where.status.in.includes(log.status)) return false;
+          if (log.messageId === own.messageId) return true;
+          const message = messagesById.get(log.messageId);
+          return (
+            message?.threadId === reply.message.threadId &&
+            message.direction === reply.message.direction &&
+            message.receivedAt >= reply.message.receivedAt.gte
+          );
+        });
+        return found ? { id: `log_${found.messageId}` } : null;
+      }
+    },
+    deadLetterJob: {
+      create: async ({
+        data
+      }: {
+        data: Pick<DeadLetterJob, "queue" | "payload" | "attempts" | "lastError">;
+      }): Promise<DeadLetterJob> => {
+        const created = { id: nextId("dead"), failedAt: new Date(), ...data };
+        deadLetters.push(created);
+        return created;
+      },
+      findUnique: async ({ where }: { where: { id: string } }) =>
+        deadLetters.find((deadLetter) => deadLetter.id === where.id) ?? null,
+      delete: async ({ where }: { where: { id: string } }) => {
+        const index = deadLetters.findIndex((deadLetter) => deadLetter.id === where.id);
+        return deadLetters.splice(index, 1)[0];
       }
     }
   };
@@ -246,12 +573,31 @@ function createWebhookPrismaMock(): {
   return {
     prisma: prisma as unknown as PrismaClient,
     messagesByIgId,
+    commentsByIgId,
     contactsBySender,
     policiesBySegment,
-    deliveryLogs
+    intentPolicies,
+    promptProfiles,
+    deliveryLogs,
+    deadLetters
   };
 }
 
+async function waitFor(check: () => boolean, timeoutMs = 2_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (check()) return;
+    await new Promise((resolve) => {
+      setTimeout(resolve, 10);
+    });
+  }
+  throw new Error("Timed out waiting for worker condition");
+}
+
+async function rejectCommentReply(): Promise<never> {
+  throw new Error("Comment replies are not expected in DM tests");
+}
+
 function createLoggerMock(): { info: (...args: unknown[]) => void; error: (...args: unknown[]) => void } {
   return {
     info: () => undefined,
@@ -301,9 +647,17 @@ test("webhook worker skips duplicate inbound message IDs", async () => {
       })
     },
     rules: {
-      generateDraft: () => null
+      generateDraft: async () => null
     },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
     ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
       sendMessage: async () => {
         sendCount += 1;
         return { messageId: "out_should_not_happen", latencyMs: 1 };
@@ -335,9 +689,17 @@ test("webhook worker logs skip for empty inbound text", async () => {
       })
     },
     rules: {
-      generateDraft: () => null
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
     },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
     ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
       sendMessage: async () => {
         sendCount += 1;
         return { messageId: "out_1", latencyMs: 1 };
@@ -353,17 +715,81 @@ test("webhook worker logs skip for empty inbound text", async () => {
   assert.match(String(db.deliveryLogs[0].error), /empty message text/);
 });
 
-test("webhook worker applies FRIEND policy and skips auto-send", async () => {
+test("webhook worker stores attachments and acknowledges media-only messages via policy", async () => {
   const db = createWebhookPrismaMock();
   const env = createEnv();
-  let sendCount = 0;
+  const sent: string[] = [];
 
-  db.contactsBySender.set("friend_sender", {
-    id: "contact_friend",
-    senderIgId: "friend_sender",
-    segment: ContactSegment.FRIEND
+  db.policiesBySegment.set(ContactSegment.STRANGER, {
+    id: "policy_stranger",
+    segment: ContactSegment.STRANGER,
+    autoSend: true,
+    requireHumanApproval: false,
+    template: null,
+    mediaTemplate: "Thanks for sharing! We'll take a look.",
+    storyAutoSend: true,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
+  });
+
+  let llmCalls = 0;
+  const worker = createWebhookWorker({
+    env,
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => {
+        llmCalls += 1;
+        return {
+          intent: "general_question",
+          confidence: 0.9,
+          reply: "hello",
+          needs_human_approval: false
+        };
+      }
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipientId, text) => {
+        sent.push(text);
+        return { messageId: "out_media", latencyMs: 1 };
+      }
+    }
   });
 
+  await worker(
+    createJob({
+      messageId: "mid_media",
+      text: "",
+      attachments: [{ type: "image", url: "https://cdn.example.com/photo.jpg", title: null }]
+    })
+  );
+
+  const inbound = db.messagesByIgId.get("mid_media");
+  assert.deepEqual(inbound?.attachments, [
+    { type: "image", url: "https://cdn.example.com/photo.jpg", title: null }
+  ]);
+  assert.equal(llmCalls, 0);
+  assert.deepEqual(sent, ["Thanks for sharing! We'll take a look."]);
+  assert.equal(db.deliveryLogs.at(-1)?.status, "SENT");
+});
+
+test("webhook worker skips media-only messages when the policy has no media template", async () => {
+  const db = createWebhookPrismaMock();
+  const env = createEnv();
+  let sendCount = 0;
+
   const worker = createWebhookWorker({
     env,
     logger: createLoggerMock() as never,
@@ -372,19 +798,22 @@ test("webhook worker applies FRIEND policy and skips auto-send", async () => {
       generateDraft: async (): Promise<LlmDraft> => ({
         intent: "general_question",
         confidence: 0.9,
-        reply: "llm fallback",
+        reply: "hello",
         needs_human_approval: false
       })
     },
     rules: {
-      generateDraft: () => ({
-        intent: "pricing",
-        confidence: 0.95,
-        reply: "Rule draft",
-        needs_human_approval: false
-      })
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
     },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
     ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
       sendMessage: async () => {
         sendCount += 1;
         return { messageId: "out_1", latencyMs: 1 };
@@ -392,66 +821,162 @@ test("webhook worker applies FRIEND policy and skips auto-send", async () => {
     }
   });
 
-  await worker(createJob({ messageId: "mid_friend", senderId: "friend_sender" }));
+  await worker(
+    createJob({
+      messageId: "mid_video",
+      text: "",
+      attachments: [{ type: "video", url: "https://cdn.example.com/clip.mp4", title: null }]
+    })
+  );
 
   assert.equal(sendCount, 0);
   assert.equal(db.deliveryLogs.length, 1);
   assert.equal(db.deliveryLogs[0].status, "SKIPPED");
-  assert.match(String(db.deliveryLogs[0].error), /auto-send disabled for segment FRIEND/);
+  assert.match(String(db.deliveryLogs[0].error), /no media template for segment STRANGER/);
 });
 
-test("webhook worker auto-sends for default STRANGER policy on confident rule draft", async () => {
+test("webhook worker answers story replies with the story template", async () => {
   const db = createWebhookPrismaMock();
   const env = createEnv();
-  let sendCount = 0;
+  const sent: string[] = [];
+
+  db.policiesBySegment.set(ContactSegment.STRANGER, {
+    id: "policy_stranger",
+    segment: ContactSegment.STRANGER,
+    autoSend: true,
+    requireHumanApproval: false,
+    template: "Generic template",
+    mediaTemplate: null,
+    storyAutoSend: true,
+    storyTemplate: "Thanks for watching our story!",
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
+  });
 
   const worker = createWebhookWorker({
     env,
     logger: createLoggerMock() as never,
     prisma: db.prisma,
     llm: {
-      generateDraft: async (): Promise<LlmDraft> => ({
-        intent: "unknown",
-        confidence: 0.1,
-        reply: "llm fallback",
-        needs_human_approval: true
-      })
+      generateDraft: async (): Promise<LlmDraft> => {
+        throw new Error("LLM should not be called");
+      }
     },
     rules: {
-      generateDraft: () => ({
-        intent: "shipping",
-        confidence: 0.91,
-        reply: "Shipping reply",
-        needs_human_approval: false
-      })
+      generateDraft: async () => null
     },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
     ig: {
-      sendMessage: async () => {
-        sendCount += 1;
-        return { messageId: "out_sent_1", latencyMs: 9 };
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipientId, text) => {
+        sent.push(text);
+        return { messageId: "out_story", latencyMs: 1 };
       }
     }
   });
 
-  await worker(createJob({ messageId: "mid_send_ok", senderId: "stranger_sender" }));
+  await worker(
+    createJob({
+      messageId: "mid_story",
+      text: "love this!",
+      story: { interaction: "reply", storyId: "story_9", url: "https://cdn.example.com/s.jpg" }
+    })
+  );
 
-  assert.equal(sendCount, 1);
+  const inbound = db.messagesByIgId.get("mid_story");
+  assert.equal(inbound?.storyInteraction, "REPLY");
+  assert.equal(inbound?.storyUrl, "https://cdn.example.com/s.jpg");
+  assert.equal(inbound?.intent, "story_engagement");
+  assert.deepEqual(sent, ["Thanks for watching our story!"]);
+});
 
-  const inbound = db.messagesByIgId.get("mid_send_ok");
-  assert.ok(inbound);
-  assert.equal(inbound.intent, "shipping");
-  assert.equal(inbound.suggestedReply, "Shipping reply");
+test("webhook worker passes story context to the LLM and honors story auto-send", async () => {
+  const db = createWebhookPrismaMock();
+  const env = createEnv();
+  let sendCount = 0;
+  let llmStory: unknown;
 
-  const outbound = [...db.messagesByIgId.values()].find(
-    (message) => message.igMessageId === "out_sent_1" && message.direction === MessageDirection.OUT
+  db.policiesBySegment.set(ContactSegment.STRANGER, {
+    id: "policy_stranger",
+    segment: ContactSegment.STRANGER,
+    autoSend: true,
+    requireHumanApproval: false,
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
+  });
+
+  const worker = createWebhookWorker({
+    env,
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (_text, context): Promise<LlmDraft> => {
+        llmStory = context?.story;
+        return {
+          intent: "story_engagement",
+          confidence: 0.9,
+          reply: "So glad you enjoyed it!",
+          needs_human_approval: false
+        };
+      }
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        sendCount += 1;
+        return { messageId: "out_1", latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(
+    createJob({
+      messageId: "mid_mention",
+      text: "check this out",
+      story: { interaction: "mention", storyId: null, url: "https://cdn.example.com/m.jpg" }
+    })
   );
-  assert.ok(outbound);
-  assert.ok(db.deliveryLogs.some((log) => log.status === "SENT"));
+
+  assert.deepEqual(llmStory, {
+    interaction: "mention",
+    storyId: null,
+    url: "https://cdn.example.com/m.jpg"
+  });
+  assert.equal(sendCount, 0);
+  assert.equal(db.messagesByIgId.get("mid_mention")?.storyInteraction, "MENTION");
+  assert.match(String(db.deliveryLogs[0].error), /auto-send disabled for story interactions/);
 });
 
-test("webhook worker falls back to LLM draft and records send errors", async () => {
+test("webhook worker applies FRIEND policy and skips auto-send", async () => {
   const db = createWebhookPrismaMock();
   const env = createEnv();
+  let sendCount = 0;
+
+  db.contactsBySender.set("friend_sender", {
+    id: "contact_friend",
+    senderIgId: "friend_sender",
+    segment: ContactSegment.FRIEND
+  });
 
   const worker = createWebhookWorker({
     env,
@@ -460,33 +985,1355 @@ test("webhook worker falls back to LLM draft and records send errors", async ()
     llm: {
       generateDraft: async (): Promise<LlmDraft> => ({
         intent: "general_question",
-        confidence: 0.93,
-        reply: "LLM reply",
+        confidence: 0.9,
+        reply: "llm fallback",
         needs_human_approval: false
       })
     },
     rules: {
-      generateDraft: () => null
+      generateDraft: async () =>
+        toRuleDraft({
+          intent: "pricing",
+          confidence: 0.95,
+          reply: "Rule draft",
+          needs_human_approval: false
+        })
+    },
+    payloadHandlers: {
+      resolve: async () => null
     },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
     ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
       sendMessage: async () => {
-        throw new Error("Meta unavailable");
+        sendCount += 1;
+        return { messageId: "out_1", latencyMs: 1 };
       }
     }
   });
 
-  await worker(
-    createJob({
-      messageId: "mid_llm_fallback",
-      senderId: "stranger_llm",
-      text: "Completely unrelated question"
-    })
+  await worker(createJob({ messageId: "mid_friend", senderId: "friend_sender" }));
+
+  assert.equal(sendCount, 0);
+  assert.equal(db.deliveryLogs.length, 1);
+  assert.equal(db.deliveryLogs[0].status, "SKIPPED");
+  assert.match(String(db.deliveryLogs[0].error), /auto-send disabled for segment FRIEND/);
+});
+
+test("webhook worker holds drafts whose intent the segment policy reserves for approval", async () => {
+  const db = createWebhookPrismaMock();
+  const contexts: DraftContext[] = [];
+  const sent: string[] = [];
+  const intents = [
+    { name: "unknown", description: "Anything else.", examples: [] },
+    { name: "wholesale", description: "Bulk or reseller orders.", examples: [] }
+  ];
+
+  db.policiesBySegment.set(ContactSegment.STRANGER, {
+    id: "policy_stranger",
+    segment: ContactSegment.STRANGER,
+    autoSend: true,
+    requireHumanApproval: false,
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: ["wholesale"]
+  });
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (_text, context): Promise<LlmDraft> => {
+        contexts.push(context ?? {});
+        return {
+          intent: "wholesale",
+          confidence: 0.95,
+          reply: "Our wholesale team will reach out.",
+          needs_human_approval: false
+        };
+      }
+    },
+    rules: {
+      generateDraft: async (text) =>
+        text.includes("price")
+          ? toRuleDraft({
+              intent: "pricing",
+              confidence: 0.95,
+              reply: "Rule draft",
+              needs_human_approval: false
+            })
+          : null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => intents },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipient, text) => {
+        sent.push(text);
+        return { messageId: `out_${sent.length}`, latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(createJob({ messageId: "mid_bulk", text: "Can I order 200 units?" }));
+  await worker(createJob({ messageId: "mid_price", text: "What is the price?" }));
+
+  assert.deepEqual(contexts[0].intents, intents);
+  assert.deepEqual(sent, ["Rule draft"]);
+  assert.equal(db.deliveryLogs[0].status, "SKIPPED");
+  assert.match(
+    String(db.deliveryLogs[0].error),
+    /intent wholesale requires approval for segment STRANGER/
   );
+});
 
-  const inbound = db.messagesByIgId.get("mid_llm_fallback");
-  assert.ok(inbound);
-  assert.equal(inbound.intent, "general_question");
-  assert.equal(inbound.suggestedReply, "LLM reply");
-  assert.ok(db.deliveryLogs.some((log) => log.status === "ERROR"));
-  assert.ok(db.deliveryLogs.some((log) => String(log.error).includes("Meta unavailable")));
+test("webhook worker applies intent × segment overrides before the segment policy", async () => {
+  const db = createWebhookPrismaMock();
+  const sent: string[] = [];
+  const cell = (
+    segment: ContactSegment,
+    intent: string,
+    overrides: Partial<IntentPolicy>
+  ): IntentPolicy => ({
+    id: `cell_${segment}_${intent}`,
+    segment,
+    intent,
+    autoSend: null,
+    requireHumanApproval: null,
+    template: null,
+    minConfidence: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  db.intentPolicies.push(
+    cell(ContactSegment.STRANGER, "refund", { autoSend: false }),
+    cell(ContactSegment.STRANGER, "pricing", { template: "Prices start at $20." }),
+    cell(ContactSegment.STRANGER, "order_support", { minConfidence: 0.9 }),
+    cell(ContactSegment.FRIEND, "pricing", { autoSend: true, requireHumanApproval: false })
+  );
+  db.contactsBySender.set("friend_sender", {
+    id: "contact_friend",
+    senderIgId: "friend_sender",
+    segment: ContactSegment.FRIEND
+  });
+
+  const ruleDrafts: Record<string, RuleDraft> = {
+    refund: toRuleDraft({
+      intent: "refund",
+      confidence: 0.9,
+      reply: "Refund rule",
+      needs_human_approval: false
+    }),
+    price: toRuleDraft({
+      intent: "pricing",
+      confidence: 0.95,
+      reply: "Pricing rule",
+      needs_human_approval: false
+    }),
+    order: toRuleDraft({
+      intent: "order_support",
+      confidence: 0.88,
+      reply: "Order rule",
+      needs_human_approval: false
+    })
+  };
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => ({
+        intent: "shipping",
+        confidence: 0.7,
+        reply: "It ships tomorrow.",
+        needs_human_approval: false
+      })
+    },
+    rules: {
+      generateDraft: async (text) => ruleDrafts[text] ?? null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipient, text) => {
+        sent.push(text);
+        return { messageId: `out_${sent.length}`, latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(createJob({ messageId: "mid_refund", text: "refund" }));
+  await worker(createJob({ messageId: "mid_price", text: "price" }));
+  await worker(createJob({ messageId: "mid_order", text: "order" }));
+  await worker(createJob({ messageId: "mid_ship", text: "ship?" }));
+  await worker(createJob({ messageId: "mid_friend", senderId: "friend_sender", text: "price" }));
+  await worker(createJob({ messageId: "mid_friend_ship", senderId: "friend_sender", text: "ship?" }));
+
+  assert.deepEqual(sent, ["Prices start at $20.", "It ships tomorrow.", "Pricing rule"]);
+  assert.equal(db.messagesByIgId.get("mid_price")?.suggestedReply, "Prices start at $20.");
+  assert.deepEqual(
+    db.deliveryLogs.filter((log) => log.status === "SKIPPED").map((log) => log.error),
+    [
+      "Policy: auto-send disabled for intent refund in segment STRANGER",
+      "Guardrail: low confidence or human approval required",
+      "Policy: auto-send disabled for segment FRIEND"
+    ]
+  );
+});
+
+test("webhook worker auto-sends for default STRANGER policy on confident rule draft", async () => {
+  const db = createWebhookPrismaMock();
+  const env = createEnv();
+  let sendCount = 0;
+
+  const worker = createWebhookWorker({
+    env,
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => ({
+        intent: "unknown",
+        confidence: 0.1,
+        reply: "llm fallback",
+        needs_human_approval: true
+      })
+    },
+    rules: {
+      generateDraft: async () =>
+        toRuleDraft({
+          intent: "shipping",
+          confidence: 0.91,
+          reply: "Shipping reply",
+          needs_human_approval: false
+        })
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        sendCount += 1;
+        return { messageId: "out_sent_1", latencyMs: 9 };
+      }
+    }
+  });
+
+  await worker(createJob({ messageId: "mid_send_ok", senderId: "stranger_sender" }));
+
+  assert.equal(sendCount, 1);
+
+  const inbound = db.messagesByIgId.get("mid_send_ok");
+  assert.ok(inbound);
+  assert.equal(inbound.intent, "shipping");
+  assert.equal(inbound.suggestedReply, "Shipping reply");
+  assert.deepEqual(inbound.ruleMatch, {
+    ruleId: "rule_1",
+    ruleName: "Test rule",
+    keyword: "test",
+    term: "test",
+    index: 0,
+    language: null
+  });
+
+  const outbound = [...db.messagesByIgId.values()].find(
+    (message) => message.igMessageId === "out_sent_1" && message.direction === MessageDirection.OUT
+  );
+  assert.ok(outbound);
+  assert.ok(db.deliveryLogs.some((log) => log.status === "SENT"));
+});
+
+test("webhook worker falls back to LLM draft and records send errors", async () => {
+  const db = createWebhookPrismaMock();
+  const env = createEnv();
+
+  const worker = createWebhookWorker({
+    env,
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<ServedDraft> => ({
+        intent: "general_question",
+        confidence: 0.93,
+        reply: "LLM reply",
+        needs_human_approval: false,
+        provider: "anthropic"
+      })
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        throw new Error("Meta unavailable");
+      }
+    }
+  });
+
+  await worker(
+    createJob({
+      messageId: "mid_llm_fallback",
+      senderId: "stranger_llm",
+      text: "Completely unrelated question"
+    })
+  );
+
+  const inbound = db.messagesByIgId.get("mid_llm_fallback");
+  assert.ok(inbound);
+  assert.equal(inbound.intent, "general_question");
+  assert.equal(inbound.suggestedReply, "LLM reply");
+  assert.equal(inbound.llmProvider, "anthropic");
+  assert.equal(inbound.ruleMatch, null);
+  assert.ok(db.deliveryLogs.some((log) => log.status === "ERROR"));
+  assert.ok(db.deliveryLogs.some((log) => String(log.error).includes("Meta unavailable")));
+});
+
+test("webhook worker detects the message language for templates, rules and the LLM", async () => {
+  const db = createWebhookPrismaMock();
+  const contexts: DraftContext[] = [];
+  const ruleLanguages: Array<string | null> = [];
+  db.policiesBySegment.set(ContactSegment.KNOWN, {
+    id: "policy_known",
+    segment: ContactSegment.KNOWN,
+    autoSend: false,
+    requireHumanApproval: true,
+    template: null,
+    templateVariants: { pt: "Oi! Respondemos em breve." },
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
+  });
+  db.contactsBySender.set("known_pt", {
+    id: "contact_pt",
+    senderIgId: "known_pt",
+    segment: ContactSegment.KNOWN
+  });
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (_text, context): Promise<ServedDraft> => {
+        contexts.push(context ?? {});
+        return {
+          intent: "general_question",
+          confidence: 0.4,
+          reply: "Claro, te ayudo.",
+          needs_human_approval: false
+        };
+      }
+    },
+    rules: {
+      generateDraft: async (_text, _segment, language) => {
+        ruleLanguages.push(language);
+        return null;
+      }
+    },
+    payloadHandlers: { resolve: async () => null },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => ({ messageId: "out_unused", latencyMs: 1 })
+    }
+  });
+
+  await worker(
+    createJob({ messageId: "mid_es", senderId: "stranger_es", text: "Hola, ¿tienen tallas grandes?" })
+  );
+  await worker(
+    createJob({ messageId: "mid_pt", senderId: "known_pt", text: "Olá, vocês têm tamanhos grandes?" })
+  );
+
+  const spanish = db.messagesByIgId.get("mid_es");
+  assert.equal(spanish?.language, "es");
+  assert.deepEqual(ruleLanguages, ["es"]);
+  assert.equal(contexts[0].language, "es");
+  assert.equal(spanish?.suggestedReply, "Claro, te ayudo.");
+
+  const portuguese = db.messagesByIgId.get("mid_pt");
+  assert.equal(portuguese?.language, "pt");
+  assert.equal(portuguese?.suggestedReply, "Oi! Respondemos em breve.");
+  assert.equal(contexts.length, 1);
+});
+
+test("webhook worker renders template variables in rule and intent replies but not LLM text", async () => {
+  const db = createWebhookPrismaMock();
+  const privateReplies: string[] = [];
+  const sent: string[] = [];
+  db.contactsBySender.set("vip_1", {
+    id: "contact_vip",
+    senderIgId: "vip_1",
+    name: "Maya",
+    segment: ContactSegment.VIP
+  });
+  db.intentPolicies.push({
+    id: "intent_policy_order",
+    segment: ContactSegment.STRANGER,
+    intent: "order_support",
+    autoSend: null,
+    requireHumanApproval: null,
+    template: `{{#if order.lookupUrl}}Track it here: {{order.lookupUrl}}{{else}}We'll check.{{/if}}`,
+    minConfidence: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const worker = createWebhookWorker({
+    env: { ...createEnv(), businessName: "Acme", orderLookupUrl: "https://acme.test/orders" },
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (text): Promise<LlmDraft> => ({
+        intent: text.includes("order") ? "order_support" : "general_question",
+        confidence: 0.95,
+        reply: "Hi {{contact.name}}",
+        needs_human_approval: false
+      })
+    },
+    rules: {
+      generateDraft: async (text) =>
+        text.includes("ship")
+          ? toRuleDraft({
+              intent: "shipping",
+              confidence: 0.92,
+              reply: `Hi {{contact.name | "there"}}, {{business.name}} ships worldwide.`,
+              needs_human_approval: false
+            })
+          : null
+    },
+    payloadHandlers: { resolve: async () => null },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: async (_commentId, text) => {
+        privateReplies.push(text);
+        return { messageId: "dm_reply_1", latencyMs: 3 };
+      },
+      sendMessage: async (_recipientId, text) => {
+        sent.push(text);
+        return { messageId: `out_${sent.length}`, latencyMs: 2 };
+      }
+    }
+  });
+
+  await worker(createCommentJob({ username: "maya.shop" }));
+  await worker(createJob({ messageId: "mid_ship", senderId: "vip_1", text: "Do you ship to Peru?" }));
+  await worker(createJob({ messageId: "mid_order", text: "Where is my order?" }));
+  await worker(createJob({ messageId: "mid_llm", senderId: "user_2", text: "Love it" }));
+
+  assert.deepEqual(privateReplies, ["Hi maya.shop, Acme ships worldwide."]);
+  assert.equal(db.contactsBySender.get("commenter_1")?.name, "maya.shop");
+  assert.equal(
+    db.messagesByIgId.get("mid_ship")?.suggestedReply,
+    "Hi Maya, Acme ships worldwide."
+  );
+  assert.equal(
+    db.messagesByIgId.get("mid_order")?.suggestedReply,
+    "Track it here: https://acme.test/orders"
+  );
+  assert.equal(db.messagesByIgId.get("mid_llm")?.suggestedReply, "Hi {{contact.name}}");
+});
+
+test("webhook worker grounds LLM drafts in knowledge base matches and records the articles", async () => {
+  const db = createWebhookPrismaMock();
+  const contexts: DraftContext[] = [];
+  const searches: Array<[string, number]> = [];
+  const snippets = [
+    { articleId: "article_shipping", title: "Shipping", text: "Canada: 5-7 days.", score: 2.1 },
+    { articleId: "article_shipping", title: "Shipping", text: "Free over $50.", score: 1.4 },
+    { articleId: "article_refunds", title: "Refunds", text: "30 day refunds.", score: 0.3 }
+  ];
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (_text, context): Promise<LlmDraft> => {
+        contexts.push(context ?? {});
+        return {
+          intent: "shipping",
+          confidence: 0.4,
+          reply: "Canada takes 5-7 days.",
+          needs_human_approval: true
+        };
+      }
+    },
+    rules: {
+      generateDraft: async (text) =>
+        text.includes("hours")
+          ? toRuleDraft({
+              intent: "general_question",
+              confidence: 0.9,
+              reply: "9-6",
+              needs_human_approval: false
+            })
+          : null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: {
+      search: async (query, limit) => {
+        searches.push([query, limit]);
+        return snippets;
+      }
+    },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => ({ messageId: "out_1", latencyMs: 1 })
+    }
+  });
+
+  await worker(createJob({ messageId: "mid_kb", text: "How long to ship to Canada?" }));
+  await worker(createJob({ messageId: "mid_hours", text: "What are your hours?" }));
+
+  assert.deepEqual(searches, [["How long to ship to Canada?", 3]]);
+  assert.deepEqual(contexts[0].knowledge, snippets);
+  assert.deepEqual(db.messagesByIgId.get("mid_kb")?.knowledgeArticleIds, [
+    "article_shipping",
+    "article_refunds"
+  ]);
+  assert.deepEqual(db.messagesByIgId.get("mid_hours")?.knowledgeArticleIds, []);
+});
+
+test("webhook worker drafts in the segment's brand voice and enforces it on the reply", async () => {
+  const db = createWebhookPrismaMock();
+  const contexts: DraftContext[] = [];
+  const sent: string[] = [];
+  const profile = (overrides: Partial<PromptProfile>): PromptProfile => ({
+    id: "profile_default_1",
+    segment: null,
+    version: 1,
+    persona: "You are Acme's assistant.",
+    tone: null,
+    bannedPhrases: [],
+    signOff: null,
+    emojiPolicy: "SPARING",
+    createdAt: new Date(),
+    ...overrides
+  });
+
+  db.promptProfiles.push(
+    profile({}),
+    profile({
+      id: "profile_vip_2",
+      segment: ContactSegment.VIP,
+      version: 2,
+      persona: "You are Acme's concierge.",
+      bannedPhrases: ["No worries"],
+      signOff: "- Acme Concierge",
+      emojiPolicy: "NONE"
+    })
+  );
+  db.contactsBySender.set("vip_sender", {
+    id: "contact_vip",
+    senderIgId: "vip_sender",
+    segment: ContactSegment.VIP
+  });
+  db.policiesBySegment.set(ContactSegment.VIP, {
+    id: "policy_vip",
+    segment: ContactSegment.VIP,
+    autoSend: true,
+    requireHumanApproval: false,
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PRIVATE,
+    approvalIntents: []
+  });
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (text, context): Promise<LlmDraft> => {
+        contexts.push(context ?? {});
+        return {
+          intent: "shipping",
+          confidence: 0.9,
+          reply: text.includes("refund") ? "No worries, refunds take 5 days 🎉" : "It ships today 🚚",
+          needs_human_approval: false
+        };
+      }
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipient, text) => {
+        sent.push(text);
+        return { messageId: `out_${sent.length}`, latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(createJob({ messageId: "mid_vip", senderId: "vip_sender", text: "When does it ship?" }));
+  await worker(createJob({ messageId: "mid_vip_refund", senderId: "vip_sender", text: "refund?" }));
+  await worker(createJob({ messageId: "mid_stranger", senderId: "stranger_1", text: "Ship?" }));
+
+  assert.equal(contexts[0].voice?.persona, "You are Acme's concierge.");
+  assert.equal(contexts[2].voice?.persona, "You are Acme's assistant.");
+  assert.deepEqual(sent, ["It ships today\n- Acme Concierge", "It ships today 🚚"]);
+
+  const refund = db.messagesByIgId.get("mid_vip_refund");
+  assert.equal(refund?.needsHumanApproval, true);
+  assert.equal(refund?.suggestedReply, "No worries, refunds take 5 days\n- Acme Concierge");
+  assert.equal(refund?.promptProfileId, "profile_vip_2");
+  assert.equal(db.messagesByIgId.get("mid_stranger")?.promptProfileId, "profile_default_1");
+});
+
+test("webhook worker passes earlier thread messages to the LLM as history", async () => {
+  const db = createWebhookPrismaMock();
+  const contexts: DraftContext[] = [];
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (_text, context): Promise<LlmDraft> => {
+        contexts.push(context ?? {});
+        return {
+          intent: "pricing",
+          confidence: 0.4,
+          reply: "Let me check the blue one.",
+          needs_human_approval: true
+        };
+      }
+    },
+    rules: {
+      generateDraft: async (text) =>
+        text.includes("red")
+          ? toRuleDraft({
+              intent: "pricing",
+              confidence: 0.95,
+              reply: "The red one is $35.",
+              needs_human_approval: false
+            })
+          : null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => ({ messageId: "out_red", latencyMs: 1 })
+    }
+  });
+
+  const startedAt = Date.now();
+  await worker(
+    createJob({ messageId: "mid_red", text: "How much is the red one?", timestamp: startedAt - 60_000 })
+  );
+  await worker(
+    createJob({ messageId: "mid_blue", text: "what about the blue one?", timestamp: startedAt + 60_000 })
+  );
+
+  assert.equal(contexts.length, 1);
+  assert.deepEqual(
+    contexts[0].history?.map((turn) => [turn.role, turn.text]),
+    [
+      ["customer", "How much is the red one?"],
+      ["business", "The red one is $35."]
+    ]
+  );
+});
+
+test("webhook worker rethrows retryable send errors and resumes on retry", async () => {
+  const db = createWebhookPrismaMock();
+  const env = createEnv();
+  let sendCount = 0;
+
+  const worker = createWebhookWorker({
+    env,
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => ({
+        intent: "unknown",
+        confidence: 0.1,
+        reply: "llm fallback",
+        needs_human_approval: true
+      })
+    },
+    rules: {
+      generateDraft: async () =>
+        toRuleDraft({
+          intent: "pricing",
+          confidence: 0.95,
+          reply: "Pricing reply",
+          needs_human_approval: false
+        })
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        sendCount += 1;
+        if (sendCount === 1) {
+          throw new GraphApiError(503, "Meta Graph API error: 503 unavailable");
+        }
+        return { messageId: "out_retry_1", latencyMs: 4 };
+      }
+    }
+  });
+
+  const job = createJob({ messageId: "mid_retry", senderId: "stranger_retry" });
+
+  await assert.rejects(() => worker(job, { attempt: 1 }), GraphApiError);
+  assert.ok(db.deliveryLogs.some((log) => log.status === "ERROR"));
+
+  await worker(job, { attempt: 2 });
+
+  assert.equal(sendCount, 2);
+  assert.equal(
+    [...db.messagesByIgId.values()].filter((message) => message.igMessageId === "mid_retry").length,
+    1
+  );
+  assert.ok(db.messagesByIgId.has("out_retry_1"));
+  assert.ok(db.deliveryLogs.some((log) => log.status === "SENT"));
+});
+
+test("webhook worker drafts and sends a message requeued from the dead-letter store", async () => {
+  const db = createWebhookPrismaMock();
+  let graphDown = true;
+  const sent: string[] = [];
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => {
+        throw new Error("LLM should not be called when a rule matches");
+      }
+    },
+    rules: {
+      generateDraft: async () =>
+        toRuleDraft({
+          intent: "pricing",
+          confidence: 0.95,
+          reply: "Pricing reply",
+          needs_human_approval: false
+        })
+    },
+    payloadHandlers: { resolve: async () => null },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipientId, text) => {
+        if (graphDown) throw new GraphApiError(503, "Meta Graph API error: 503 unavailable");
+        sent.push(text);
+        return { messageId: "out_requeued", latencyMs: 2 };
+      }
+    }
+  });
+
+  const queue = new InMemoryQueue<WebhookJob>({
+    retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, isRetryable: () => true },
+    onDeadLetter: async (job, error, attempts) => {
+      await recordDeadLetter(db.prisma, { queue: "webhook", payload: job, attempts, error });
+    }
+  });
+  queue.start(worker);
+
+  queue.enqueue(createJob({ messageId: "mid_dead", senderId: "stranger_dead" }));
+  await waitFor(() => db.deadLetters.length === 1);
+  assert.equal(db.deadLetters[0].attempts, 1);
+  assert.equal(db.messagesByIgId.get("mid_dead")?.suggestedReply, "Pricing reply");
+
+  graphDown = false;
+  await requeueDeadLetter(db.prisma, queue, db.deadLetters[0].id);
+  await waitFor(() => sent.length === 1);
+  await queue.stop({ timeoutMs: 1_000 });
+
+  assert.deepEqual(sent, ["Pricing reply"]);
+  assert.equal(db.deadLetters.length, 0);
+  assert.ok(db.messagesByIgId.has("out_requeued"));
+  assert.equal(
+    [...db.messagesByIgId.values()].filter((message) => message.igMessageId === "mid_dead").length,
+    1
+  );
+});
+
+test("webhook worker does not resend a requeued message whose reply already went out", async () => {
+  const db = createWebhookPrismaMock();
+  const sent: string[] = [];
+  const messages = (db.prisma as unknown as {
+    message: { create: (args: { data: { direction: MessageDirection } }) => Promise<StoredMessage> };
+  }).message;
+  const createMessage = messages.create;
+  messages.create = async (args) => {
+    if (args.data.direction === MessageDirection.OUT) throw new Error("database unavailable");
+    return createMessage(args);
+  };
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => {
+        throw new Error("LLM should not be called when a rule matches");
+      }
+    },
+    rules: {
+      generateDraft: async () =>
+        toRuleDraft({
+          intent: "pricing",
+          confidence: 0.95,
+          reply: "Pricing reply",
+          needs_human_approval: false
+        })
+    },
+    payloadHandlers: { resolve: async () => null },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipientId, text) => {
+        sent.push(text);
+        return { messageId: `out_${sent.length}`, latencyMs: 2 };
+      }
+    }
+  });
+
+  const queue = new InMemoryQueue<WebhookJob>({
+    retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, isRetryable: () => true },
+    onDeadLetter: async (job, error, attempts) => {
+      await recordDeadLetter(db.prisma, { queue: "webhook", payload: job, attempts, error });
+    }
+  });
+  queue.start(worker);
+
+  queue.enqueue(createJob({ messageId: "mid_sent", senderId: "stranger_sent" }));
+  await waitFor(() => db.deadLetters.length === 1);
+  assert.match(String(db.deadLetters[0].lastError), /outbound record could not be saved/);
+
+  messages.create = createMessage;
+  await requeueDeadLetter(db.prisma, queue, db.deadLetters[0].id);
+  await waitFor(() => db.deadLetters.length === 0);
+  await queue.stop({ timeoutMs: 1_000 });
+
+  assert.deepEqual(sent, ["Pricing reply"]);
+  assert.deepEqual(
+    db.deliveryLogs.map((log) => log.status),
+    ["SENT"]
+  );
+});
+
+test("webhook worker does not answer a retried message that was unsent", async () => {
+  const db = createWebhookPrismaMock();
+  let sendCount = 0;
+
+  const stored = await (db.prisma as unknown as {
+    message: {
+      create: (args: {
+        data: {
+          igMessageId: string;
+          threadId: string;
+          senderIgId: string;
+          direction: MessageDirection;
+          text: string;
+          receivedAt: Date;
+        };
+      }) => Promise<StoredMessage>;
+    };
+  }).message.create({
+    data: {
+      igMessageId: "mid_unsent",
+      threadId: "thread_unsent",
+      senderIgId: "sender_unsent",
+      direction: MessageDirection.IN,
+      text: "How much is it?",
+      receivedAt: new Date()
+    }
+  });
+  stored.deletedAt = new Date();
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => {
+        throw new Error("LLM should not be called for an unsent message");
+      }
+    },
+    rules: { generateDraft: async () => null },
+    payloadHandlers: { resolve: async () => null },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        sendCount += 1;
+        return { messageId: "out_unsent", latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(createJob({ messageId: "mid_unsent" }), { attempt: 2 });
+
+  assert.equal(sendCount, 0);
+  assert.equal(db.deliveryLogs.length, 0);
+});
+
+function createPayloadHandler(overrides: Partial<PayloadHandler>): PayloadHandler {
+  return {
+    id: "handler_1",
+    payload: "PAYLOAD",
+    action: PayloadAction.REPLY,
+    reply: null,
+    segment: null,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+test("webhook worker answers quick-reply payloads before rules and the LLM", async () => {
+  const db = createWebhookPrismaMock();
+  const sent: string[] = [];
+  const resolved: string[] = [];
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => {
+        throw new Error("LLM should not be called");
+      }
+    },
+    rules: {
+      generateDraft: async () => {
+        throw new Error("Rules should not be called");
+      }
+    },
+    payloadHandlers: {
+      resolve: async (payload) => {
+        resolved.push(payload);
+        return createPayloadHandler({
+          payload,
+          reply: "Our store hours are 9am-6pm, Monday to Saturday."
+        });
+      }
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipientId, text) => {
+        sent.push(text);
+        return { messageId: "out_payload", latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(
+    createJob({ messageId: "mid_quick", text: "Store hours", actionPayload: "STORE_HOURS" })
+  );
+
+  assert.deepEqual(resolved, ["STORE_HOURS"]);
+  assert.deepEqual(sent, ["Our store hours are 9am-6pm, Monday to Saturday."]);
+});
+
+test("webhook worker applies segment-change and handoff payload handlers", async () => {
+  const db = createWebhookPrismaMock();
+  let sendCount = 0;
+  const handlers = new Map<string, PayloadHandler>([
+    [
+      "BECOME_VIP",
+      createPayloadHandler({
+        payload: "BECOME_VIP",
+        action: PayloadAction.SET_SEGMENT,
+        segment: ContactSegment.VIP
+      })
+    ],
+    [
+      "TALK_TO_HUMAN",
+      createPayloadHandler({
+        payload: "TALK_TO_HUMAN",
+        action: PayloadAction.HANDOFF,
+        reply: "Connecting you with the team."
+      })
+    ]
+  ]);
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => ({
+        intent: "general_question",
+        confidence: 0.9,
+        reply: "hello",
+        needs_human_approval: false
+      })
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async (payload) => handlers.get(payload) ?? null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        sendCount += 1;
+        return { messageId: `out_${sendCount}`, latencyMs: 1 };
+      }
+    }
+  });
+
+  await worker(
+    createJob({ messageId: "mid_vip", text: "Join VIP", actionPayload: "BECOME_VIP" })
+  );
+  assert.equal(db.contactsBySender.get("sender_1")?.segment, ContactSegment.VIP);
+  assert.equal(sendCount, 0);
+  assert.match(String(db.deliveryLogs.at(-1)?.error), /auto-send disabled for segment VIP/);
+
+  await worker(
+    createJob({ messageId: "mid_human", text: "Talk to a person", actionPayload: "TALK_TO_HUMAN" })
+  );
+  const handedOff = db.messagesByIgId.get("mid_human");
+  assert.equal(handedOff?.needsHumanApproval, true);
+  assert.equal(handedOff?.suggestedReply, "Connecting you with the team.");
+  assert.equal(sendCount, 0);
+  assert.match(String(db.deliveryLogs.at(-1)?.error), /Handoff: payload TALK_TO_HUMAN/);
+});
+
+test("webhook worker answers comments by private reply under the default policy", async () => {
+  const db = createWebhookPrismaMock();
+  const privateReplies: Array<{ commentId: string; text: string }> = [];
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => {
+        throw new Error("LLM should not be called when a rule matches");
+      }
+    },
+    rules: {
+      generateDraft: async () =>
+        toRuleDraft({
+          intent: "shipping",
+          confidence: 0.92,
+          reply: "We ship worldwide.",
+          needs_human_approval: false
+        })
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: async (commentId, text) => {
+        privateReplies.push({ commentId, text });
+        return { messageId: "dm_reply_1", latencyMs: 3 };
+      },
+      sendMessage: async () => {
+        throw new Error("Comments must not be answered through sendMessage");
+      }
+    }
+  });
+
+  await worker(createCommentJob());
+  await worker(createCommentJob());
+  await worker(createCommentJob({ commentId: "comment_self", isFromSelf: true }));
+
+  assert.deepEqual(privateReplies, [{ commentId: "comment_1", text: "We ship worldwide." }]);
+  const stored = db.commentsByIgId.get("comment_1");
+  assert.equal(stored?.replyMode, CommentReplyMode.PRIVATE);
+  assert.equal(stored?.replyStatus, "SENT");
+  assert.equal(stored?.replyIgId, "dm_reply_1");
+  assert.equal(db.commentsByIgId.has("comment_self"), false);
+});
+
+test("webhook worker grounds LLM comment drafts in knowledge base matches", async () => {
+  const db = createWebhookPrismaMock();
+  const contexts: DraftContext[] = [];
+  const searches: Array<[string, number]> = [];
+  const snippets = [
+    { articleId: "article_shipping", title: "Shipping", text: "Canada: 5-7 days.", score: 2.1 },
+    { articleId: "article_shipping", title: "Shipping", text: "Free over $50.", score: 1.4 }
+  ];
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (_text, context): Promise<LlmDraft> => {
+        contexts.push(context ?? {});
+        return {
+          intent: "shipping",
+          confidence: 0.4,
+          reply: "Canada takes 5-7 days.",
+          needs_human_approval: true
+        };
+      }
+    },
+    rules: { generateDraft: async () => null },
+    payloadHandlers: { resolve: async () => null },
+    knowledge: {
+      search: async (query, limit) => {
+        searches.push([query, limit]);
+        return snippets;
+      }
+    },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        throw new Error("Comments must not be answered through sendMessage");
+      }
+    }
+  });
+
+  await worker(createCommentJob({ text: "How long to ship to Canada?" }));
+
+  assert.deepEqual(searches, [["How long to ship to Canada?", 3]]);
+  assert.deepEqual(contexts[0].knowledge, snippets);
+  assert.deepEqual(db.commentsByIgId.get("comment_1")?.knowledgeArticleIds, ["article_shipping"]);
+});
+
+test("webhook worker posts public comment replies and honors segment auto-send", async () => {
+  const db = createWebhookPrismaMock();
+  const publicReplies: string[] = [];
+
+  db.policiesBySegment.set(ContactSegment.STRANGER, {
+    id: "policy_stranger",
+    segment: ContactSegment.STRANGER,
+    autoSend: true,
+    requireHumanApproval: false,
+    template: "Thanks for the comment! Check your DMs.",
+    mediaTemplate: null,
+    storyAutoSend: true,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PUBLIC,
+    approvalIntents: []
+  });
+  db.policiesBySegment.set(ContactSegment.FRIEND, {
+    id: "policy_friend",
+    segment: ContactSegment.FRIEND,
+    autoSend: false,
+    requireHumanApproval: true,
+    template: null,
+    mediaTemplate: null,
+    storyAutoSend: false,
+    storyTemplate: null,
+    commentReplyMode: CommentReplyMode.PUBLIC,
+    approvalIntents: []
+  });
+  db.contactsBySender.set("friend_1", {
+    id: "contact_friend",
+    senderIgId: "friend_1",
+    segment: ContactSegment.FRIEND
+  });
+
+  const worker = createWebhookWorker({
+    env: createEnv(),
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (): Promise<LlmDraft> => ({
+        intent: "general_question",
+        confidence: 0.95,
+        reply: "Happy to help!",
+        needs_human_approval: false
+      })
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: { enqueue: () => undefined },
+    ig: {
+      replyToComment: async (_commentId, text) => {
+        publicReplies.push(text);
+        return { messageId: `reply_${publicReplies.length}`, latencyMs: 2 };
+      },
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async () => {
+        throw new Error("Comments must not be answered through sendMessage");
+      }
+    }
+  });
+
+  await worker(createCommentJob({ commentId: "comment_public" }));
+  await worker(createCommentJob({ commentId: "comment_friend", senderId: "friend_1" }));
+
+  assert.deepEqual(publicReplies, ["Thanks for the comment! Check your DMs."]);
+  assert.equal(db.commentsByIgId.get("comment_public")?.replyStatus, "SENT");
+
+  const friendComment = db.commentsByIgId.get("comment_friend");
+  assert.equal(friendComment?.suggestedReply, "Happy to help!");
+  assert.equal(friendComment?.replyStatus, "SKIPPED");
+  assert.match(String(friendComment?.replyError), /auto-send disabled for segment FRIEND/);
+});
+
+test("webhook worker coalesces a burst of DMs into one draft and one reply", async () => {
+  const db = createWebhookPrismaMock();
+  const deferred: Array<{ job: WebhookJob; delayMs?: number }> = [];
+  const drafted: string[] = [];
+  const sent: string[] = [];
+
+  const worker = createWebhookWorker({
+    env: { ...createEnv(), burstWindowMs: 8_000 },
+    logger: createLoggerMock() as never,
+    prisma: db.prisma,
+    llm: {
+      generateDraft: async (text): Promise<LlmDraft> => {
+        drafted.push(text);
+        return {
+          intent: "shipping",
+          confidence: 0.93,
+          reply: "Shipping to Canada is $12.",
+          needs_human_approval: false
+        };
+      }
+    },
+    rules: {
+      generateDraft: async () => null
+    },
+    payloadHandlers: {
+      resolve: async () => null
+    },
+    knowledge: { search: async () => [] },
+    intents: { list: async () => [] },
+    queue: {
+      enqueue: (job, options) => {
+        deferred.push({ job, delayMs: options?.delayMs });
+      }
+    },
+    ig: {
+      replyToComment: rejectCommentReply,
+      sendPrivateReply: rejectCommentReply,
+      sendMessage: async (_recipientId, text) => {
+        sent.push(text);
+        return { messageId: `out_${sent.length}`, latencyMs: 1 };
+      }
+    }
+  });
+
+  const startedAt = Date.now();
+  const texts = ["hi", "quick question", "how much is shipping to Canada?"];
+  for (const [index, text] of texts.entries()) {
+    await worker(createJob({ messageId: `mid_burst_${index}`, text, timestamp: startedAt + index * 3_000 }));
+  }
+
+  assert.equal(drafted.length, 0);
+  assert.deepEqual(
+    deferred.map((entry) => entry.delayMs),
+    [8_000, 8_000, 8_000]
+  );
+
+  for (const entry of deferred) {
+    await worker(entry.job);
+  }
+
+  assert.deepEqual(drafted, ["hi\nquick question\nhow much is shipping to Canada?"]);
+  assert.deepEqual(sent, ["Shipping to Canada is $12."]);
+
+  const leader = db.messagesByIgId.get("mid_burst_2");
+  assert.equal(leader?.suggestedReply, "Shipping to Canada is $12.");
+  assert.equal(leader?.awaitingDraft, false);
+  for (const messageId of ["mid_burst_0", "mid_burst_1"]) {
+    const member = db.messagesByIgId.get(messageId);
+    assert.equal(member?.coalescedIntoId, leader?.id);
+    assert.equal(member?.suggestedReply, null);
+    assert.equal(member?.awaitingDraft, false);
+  }
 });
@@ -109,3 +109,38 @@ test("InstagramGraphService throws and logs when Meta API responds with error",
     globalThis.fetch = originalFetch;
   }
 });
+
+test("InstagramGraphService answers comments publicly and by private reply", async () => {
+  const originalFetch = globalThis.fetch;
+  const { logger } = createLoggerMock();
+  const requests: Array<{ url: string; body: string }> = [];
+
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: String(input), body: String(init?.body ?? "") });
+    const payload = requests.length === 1 ? { id: "reply_comment_1" } : { message_id: "dm_1" };
+    return new Response(JSON.stringify(payload), {
+      status: 200,
+      headers: { "content-type": "application/json" }
+    });
+  }) as typeof fetch;
+
+  try {
+    const service = new InstagramGraphService({
+      accessToken: "test_token",
+      businessAccountId: "ig_biz_123",
+      logger: logger as never
+    });
+
+    const publicReply = await service.replyToComment("comment_9", "Thanks!");
+    const privateReply = await service.sendPrivateReply("comment_9", "Sent you the details.");
+
+    assert.equal(publicReply.messageId, "reply_comment_1");
+    assert.equal(privateReply.messageId, "dm_1");
+    assert.equal(requests[0].url, "https://graph.facebook.com/v20.0/comment_9/replies");
+    assert.match(requests[0].body, /"message":"Thanks!"/);
+    assert.equal(requests[1].url, "https://graph.facebook.com/v20.0/ig_biz_123/messages");
+    assert.match(requests[1].body, /"recipient":\{"comment_id":"comment_9"\}/);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { IntentDefinition, PrismaClient } from "@prisma/client";
+import {
+  BUILT_IN_INTENTS,
+  findUnknownIntents,
+  mergeIntents,
+  normalizeDraftIntent,
+  parseIntentNames,
+  PrismaIntentTaxonomy
+} from "../../apps/server/src/services/intents";
+
+function createIntent(
+  id: string,
+  name: string,
+  overrides: Partial<IntentDefinition> = {}
+): IntentDefinition {
+  return {
+    id,
+    name,
+    description: `${name} description`,
+    examples: [],
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    ...overrides
+  };
+}
+
+test("mergeIntents keeps built-ins first, applies overrides, and sorts custom intents", () => {
+  const merged = mergeIntents([
+    createIntent("i2", "wholesale"),
+    createIntent("i1", "collab_request"),
+    createIntent("i3", "pricing", { description: "Quotes for custom prints.", examples: ["Quote?"] })
+  ]);
+
+  assert.deepEqual(
+    merged.map((intent) => intent.name),
+    [...BUILT_IN_INTENTS.map((intent) => intent.name), "collab_request", "wholesale"]
+  );
+
+  const pricing = merged.find((intent) => intent.name === "pricing");
+  assert.equal(pricing?.id, "i3");
+  assert.equal(pricing?.builtIn, true);
+  assert.equal(pricing?.description, "Quotes for custom prints.");
+  assert.deepEqual(pricing?.examples, ["Quote?"]);
+
+  const shipping = merged.find((intent) => intent.name === "shipping");
+  assert.equal(shipping?.id, null);
+  assert.equal(merged.at(-1)?.builtIn, false);
+});
+
+test("normalizeDraftIntent sends intents outside the taxonomy to a human as unknown", () => {
+  const draft = { intent: "wholesale", confidence: 0.9, reply: "Sure!", needs_human_approval: false };
+
+  assert.equal(normalizeDraftIntent(draft, BUILT_IN_INTENTS).intent, "unknown");
+  assert.equal(normalizeDraftIntent(draft, BUILT_IN_INTENTS).needs_human_approval, true);
+
+  const custom = [...BUILT_IN_INTENTS, { name: "wholesale", description: "Bulk orders.", examples: [] }];
+  assert.equal(normalizeDraftIntent(draft, custom), draft);
+});
+
+test("parseIntentNames and findUnknownIntents validate policy intent lists", async () => {
+  assert.deepEqual(parseIntentNames("refund, wholesale  refund\n"), ["refund", "wholesale"]);
+  assert.deepEqual(parseIntentNames(["pricing", " "]), ["pricing"]);
+  assert.deepEqual(parseIntentNames(undefined), []);
+
+  const prisma = {
+    intentDefinition: { findMany: async () => [createIntent("i1", "wholesale")] }
+  } as unknown as PrismaClient;
+
+  assert.deepEqual(await findUnknownIntents(prisma, ["refund", "wholesale", "collab"]), ["collab"]);
+  assert.deepEqual(await findUnknownIntents(prisma, []), []);
+});
+
+test("Prisma intent taxonomy reloads only when intent definitions change", async () => {
+  let rows = [createIntent("i1", "wholesale")];
+  let findManyCalls = 0;
+  const prisma = {
+    intentDefinition: {
+      aggregate: async () => ({
+        _count: { _all: rows.length },
+        _max: {
+          updatedAt: rows.reduce<Date | null>(
+            (latest, row) => (!latest || row.updatedAt > latest ? row.updatedAt : latest),
+            null
+          )
+        }
+      }),
+      findMany: async () => {
+        findManyCalls += 1;
+        return rows;
+      }
+    }
+  } as unknown as PrismaClient;
+  const taxonomy = new PrismaIntentTaxonomy(prisma);
+
+  assert.ok((await taxonomy.list()).some((intent) => intent.name === "wholesale"));
+  await taxonomy.list();
+  assert.equal(findManyCalls, 1);
+
+  rows = [
+    createIntent("i1", "wholesale", {
+      description: "Bulk and reseller orders.",
+      updatedAt: new Date("2026-02-01T00:00:00.000Z")
+    })
+  ];
+  const reloaded = await taxonomy.list();
+  assert.equal(findManyCalls, 2);
+  assert.equal(
+    reloaded.find((intent) => intent.name === "wholesale")?.description,
+    "Bulk and reseller orders."
+  );
+  assert.deepEqual(Object.keys(reloaded[0]).sort(), ["description", "examples", "name"]);
+});
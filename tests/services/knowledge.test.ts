@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { KnowledgeArticle, PrismaClient } from "@prisma/client";
+import {
+  Bm25Index,
+  chunkArticle,
+  PrismaKnowledgeBase,
+  tokenize
+} from "../../apps/server/src/services/knowledge";
+
+function createArticle(
+  id: string,
+  title: string,
+  chunks: string[],
+  overrides: Partial<KnowledgeArticle> = {}
+): KnowledgeArticle {
+  return {
+    id,
+    title,
+    body: chunks.join("\n\n"),
+    chunks,
+    enabled: true,
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    ...overrides
+  };
+}
+
+test("tokenize folds case, accents, plurals, and stopwords", () => {
+  assert.deepEqual(tokenize("Do you ship Crème brûlée REFUNDS to the U.S.?"), [
+    "ship",
+    "creme",
+    "brulee",
+    "refund"
+  ]);
+  assert.deepEqual(tokenize("the a of"), []);
+});
+
+test("chunkArticle packs paragraphs and splits long ones on word boundaries", () => {
+  assert.deepEqual(chunkArticle("First para.\n\nSecond   para.\n\n\n"), ["First para. Second para."]);
+
+  const long = Array.from({ length: 250 }, (_, index) => `w${index}`).join(" ");
+  const chunks = chunkArticle(`Intro line.\n\n${long}`);
+  assert.deepEqual(
+    chunks.map((chunk) => chunk.split(" ").length),
+    [2, 120, 120, 10]
+  );
+  assert.equal(chunks[1].split(" ")[0], "w0");
+});
+
+test("BM25 index ranks the most specific chunk first and ignores non-matching chunks", () => {
+  const index = new Bm25Index([
+    createArticle("shipping", "Shipping zones", [
+      "We ship to Canada in 5-7 business days.",
+      "Orders to the US arrive in 3-5 days."
+    ]),
+    createArticle("refunds", "Refund policy", ["Refunds are issued within 30 days of delivery."]),
+    createArticle("hours", "Store hours", ["Open 9-6 Monday to Saturday."])
+  ]);
+
+  const results = index.search("how long does shipping to canada take?", 5);
+  assert.deepEqual(
+    results.map((result) => [result.articleId, result.text]),
+    [
+      ["shipping", "We ship to Canada in 5-7 business days."],
+      ["shipping", "Orders to the US arrive in 3-5 days."]
+    ]
+  );
+  assert.ok(results[0].score > results[1].score);
+
+  assert.equal(index.search("can I get a refund?", 1)[0].articleId, "refunds");
+  assert.deepEqual(index.search("the and of", 3), []);
+  assert.deepEqual(index.search("refund", 0), []);
+});
+
+test("Prisma knowledge base rebuilds its index only when articles change", async () => {
+  let articles = [createArticle("refunds", "Refund policy", ["Refunds within 30 days."])];
+  let findManyCalls = 0;
+  const prisma = {
+    knowledgeArticle: {
+      aggregate: async () => ({
+        _count: { _all: articles.length },
+        _max: {
+          updatedAt: articles.reduce<Date | null>(
+            (latest, article) =>
+              !latest || article.updatedAt > latest ? article.updatedAt : latest,
+            null
+          )
+        }
+      }),
+      findMany: async ({ where }: { where: { enabled: boolean } }) => {
+        findManyCalls += 1;
+        return articles.filter((article) => article.enabled === where.enabled);
+      }
+    }
+  } as unknown as PrismaClient;
+  const knowledge = new PrismaKnowledgeBase(prisma);
+
+  assert.equal((await knowledge.search("refund please", 3)).length, 1);
+  assert.equal((await knowledge.search("refund again", 3)).length, 1);
+  assert.equal(findManyCalls, 1);
+
+  articles = [
+    createArticle("refunds", "Refund policy", ["Refunds within 30 days."], {
+      enabled: false,
+      updatedAt: new Date("2026-02-01T00:00:00.000Z")
+    })
+  ];
+  assert.deepEqual(await knowledge.search("refund please", 3), []);
+  assert.equal(findManyCalls, 2);
+
+  assert.deepEqual(await knowledge.search("refund please", 0), []);
+});
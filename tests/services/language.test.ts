@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  detectLanguage,
+  readLanguageVariants
+} from "../../apps/server/src/services/language";
+
+test("detectLanguage tells English, Spanish and Portuguese apart", () => {
+  assert.equal(detectLanguage("How much is the black hoodie?"), "en");
+  assert.equal(detectLanguage("Hola, ¿cuánto cuesta el envío?"), "es");
+  assert.equal(detectLanguage("Quero devolver, não funciona"), "pt");
+  assert.equal(detectLanguage("Olá! Vocês fazem entrega no Brasil?"), "pt");
+  assert.equal(detectLanguage("QUIERO UN REEMBOLSO"), "es");
+});
+
+test("detectLanguage returns null without a clear signal", () => {
+  assert.equal(detectLanguage(""), null);
+  assert.equal(detectLanguage("ok 👍"), null);
+  assert.equal(detectLanguage("pedido 4821"), null);
+});
+
+test("readLanguageVariants drops unknown languages and malformed entries", () => {
+  const isText = (value: unknown): value is string => typeof value === "string";
+
+  assert.deepEqual(readLanguageVariants({ es: "Hola", fr: "Bonjour", pt: 3 }, isText), {
+    es: "Hola"
+  });
+  assert.deepEqual(readLanguageVariants(["es"], isText), {});
+  assert.deepEqual(readLanguageVariants(null, isText), {});
+});
@@ -1,9 +1,23 @@
 import assert from "node:assert/strict";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import test from "node:test";
 import { Env } from "../../apps/server/src/config/env";
-import { createLlmService } from "../../apps/server/src/services/llm";
+import OpenAI from "openai";
+import {
+  buildPromptMessages,
+  createLlmProvider,
+  extractJsonObject,
+  FailoverLlmService,
+  fitHistoryToBudget,
+  loadMockLlmFixture
+} from "../../apps/server/src/services/llm";
+import { DraftContext, HistoryTurn, LlmDraft } from "../../apps/server/src/types/llm";
+import { CircuitBreaker } from "../../apps/server/src/utils/circuitBreaker";
+import { LlmTimeoutError } from "../../apps/server/src/utils/errors";
 
-function createEnv(): Env {
+function createEnv(overrides: Partial<Env> = {}): Env {
   return {
     port: 3000,
     databaseUrl: "postgresql://local/test",
@@ -13,9 +27,38 @@ function createEnv(): Env {
     metaAppId: "",
     metaAppSecret: "",
     metaAppRedirectUri: "",
+    metaWebhookVerifyToken: "",
+    queueDriver: "memory",
+    queueConcurrency: 1,
+    jobMaxAttempts: 5,
+    jobBackoffBaseMs: 1000,
+    jobBackoffMaxMs: 60000,
+    shutdownTimeoutMs: 25000,
+    burstWindowMs: 0,
     llmProvider: "openai",
+    llmFallbackProviders: [],
+    llmProviderTimeoutMs: 20000,
+    llmBreakerThreshold: 3,
+    llmBreakerCooldownMs: 60000,
     openaiApiKey: "openai_key",
-    openaiModel: "gpt-4.1-mini"
+    openaiModel: "gpt-4.1-mini",
+    anthropicApiKey: "",
+    anthropicModel: "claude-3-5-haiku-latest",
+    localLlmBaseUrl: "http://localhost:11434/v1",
+    localLlmModel: "llama3.1",
+    localLlmApiKey: "",
+    localLlmTimeoutMs: 60000,
+    localLlmJsonMode: "auto",
+    mockLlmFixtures: "apps/server/fixtures/mock-llm.json",
+    llmHistoryMaxMessages: 10,
+    llmHistoryMaxTokens: 800,
+    llmHistoryTruncation: "drop_oldest",
+    knowledgeTopK: 3,
+    businessName: "",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: "",
+    ...overrides
   };
 }
 
@@ -39,7 +82,7 @@ function createLoggerMock(): {
 
 test("OpenAI service returns parsed structured draft on valid response", async () => {
   const { logger, infoCalls, errorCalls } = createLoggerMock();
-  const service = createLlmService(createEnv(), logger as never) as unknown as {
+  const service = createLlmProvider("openai", createEnv(), logger as never) as unknown as {
     generateDraft: (text: string) => Promise<{
       intent: string;
       confidence: number;
@@ -82,9 +125,132 @@ test("OpenAI service returns parsed structured draft on valid response", async (
   assert.equal(errorCalls.length, 0);
 });
 
+test("OpenAI client uses the provider timeout and leaves retries to the failover chain", () => {
+  const { logger } = createLoggerMock();
+  const service = createLlmProvider(
+    "openai",
+    createEnv({ llmProviderTimeoutMs: 7_500 }),
+    logger as never
+  ) as unknown as { client: { timeout: number; maxRetries: number } };
+
+  assert.equal(service.client.timeout, 7_500);
+  assert.equal(service.client.maxRetries, 0);
+});
+
+test("OpenAI service adds knowledge base excerpts to the system prompt", async () => {
+  const { logger } = createLoggerMock();
+  const service = createLlmProvider("openai", createEnv(), logger as never) as unknown as {
+    generateDraft: (text: string, context: DraftContext) => Promise<{ intent: string }>;
+    client: {
+      chat: {
+        completions: {
+          create: (body: { messages: Array<{ role: string; content: string }> }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+  const systemPrompts: string[] = [];
+
+  service.client.chat.completions.create = async (body) => {
+    systemPrompts.push(body.messages[0].content);
+    return {
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              intent: "shipping",
+              confidence: 0.8,
+              reply: "Canada takes 5-7 days.",
+              needs_human_approval: false
+            })
+          }
+        }
+      ]
+    };
+  };
+
+  await service.generateDraft("Shipping to Canada?", {
+    knowledge: [
+      { articleId: "a1", title: "Shipping zones", text: "Canada: 5-7 business days.", score: 1.2 }
+    ]
+  });
+  await service.generateDraft("Shipping to Canada?", {});
+
+  assert.match(systemPrompts[0], /knowledge base excerpts/);
+  assert.match(systemPrompts[0], /\[Shipping zones\] Canada: 5-7 business days\./);
+  assert.doesNotMatch(systemPrompts[1], /knowledge base/);
+});
+
+test("prompt asks for a reply in the detected language", () => {
+  const [spanish] = buildPromptMessages("¿Hacen envíos?", { language: "es" }, []);
+  const [unknown] = buildPromptMessages("ok", { language: null }, []);
+
+  assert.match(spanish.content, /Write the reply in Spanish/);
+  assert.doesNotMatch(unknown.content, /Write the reply in/);
+});
+
+test("OpenAI service offers custom intents and normalizes labels outside the taxonomy", async () => {
+  const { logger } = createLoggerMock();
+  const service = createLlmProvider("openai", createEnv(), logger as never) as unknown as {
+    generateDraft: (text: string, context: DraftContext) => Promise<LlmDraft>;
+    client: {
+      chat: {
+        completions: {
+          create: (body: { messages: Array<{ role: string; content: string }> }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+  const systemPrompts: string[] = [];
+  let answer = "wholesale";
+
+  service.client.chat.completions.create = async (body) => {
+    systemPrompts.push(body.messages[0].content);
+    return {
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              intent: answer,
+              confidence: 0.9,
+              reply: "Our wholesale team will reach out.",
+              needs_human_approval: false
+            })
+          }
+        }
+      ]
+    };
+  };
+
+  const intents = [
+    { name: "unknown", description: "Anything else.", examples: [] },
+    { name: "wholesale", description: "Bulk or reseller orders.", examples: ["Do you sell in bulk?"] }
+  ];
+  const custom = await service.generateDraft("Can I buy 200 units?", { intents });
+
+  assert.match(systemPrompts[0], /wholesale: Bulk or reseller orders\. e\.g\. "Do you sell in bulk\?"/);
+  assert.doesNotMatch(systemPrompts[0], /order_support/);
+  assert.equal(custom.intent, "wholesale");
+  assert.equal(custom.needs_human_approval, false);
+
+  answer = "collab_request";
+  const invented = await service.generateDraft("Can I buy 200 units?", { intents });
+  assert.equal(invented.intent, "unknown");
+  assert.equal(invented.needs_human_approval, true);
+
+  answer = "wholesale";
+  const builtInOnly = await service.generateDraft("Can I buy 200 units?", {});
+  assert.match(systemPrompts[2], /order_support: /);
+  assert.equal(builtInOnly.intent, "unknown");
+});
+
 test("OpenAI service falls back safely when provider call fails", async () => {
   const { logger, errorCalls } = createLoggerMock();
-  const service = createLlmService(createEnv(), logger as never) as unknown as {
+  const service = createLlmProvider("openai", createEnv(), logger as never) as unknown as {
     generateDraft: (text: string) => Promise<{
       intent: string;
       confidence: number;
@@ -112,3 +278,553 @@ test("OpenAI service falls back safely when provider call fails", async () => {
   assert.match(draft.reply, /team member will review this shortly/i);
   assert.equal(errorCalls.length, 1);
 });
+
+test("OpenAI service includes story context and the story intent in the prompt", async () => {
+  const { logger } = createLoggerMock();
+  const service = createLlmProvider("openai", createEnv(), logger as never) as unknown as {
+    generateDraft: (
+      text: string,
+      context?: { story?: { interaction: "reply" | "mention"; storyId: string | null; url: string | null } }
+    ) => Promise<{ intent: string }>;
+    client: {
+      chat: {
+        completions: {
+          create: (body: { messages: Array<{ role: string; content: string }> }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+
+  let messages: Array<{ role: string; content: string }> = [];
+  service.client.chat.completions.create = async (body) => {
+    messages = body.messages;
+    return {
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              intent: "story_engagement",
+              confidence: 0.8,
+              reply: "Thank you!",
+              needs_human_approval: false
+            })
+          }
+        }
+      ]
+    };
+  };
+
+  const draft = await service.generateDraft("so cute", {
+    story: { interaction: "reply", storyId: "story_1", url: "https://cdn.example.com/s.jpg" }
+  });
+
+  assert.equal(draft.intent, "story_engagement");
+  assert.match(messages[0].content, /story_engagement/);
+  assert.match(messages[1].content, /replied to our story \(https:\/\/cdn\.example\.com\/s\.jpg\)/);
+});
+
+function createHistory(texts: Array<[HistoryTurn["role"], string]>): HistoryTurn[] {
+  return texts.map(([role, text], index) => ({
+    role,
+    text,
+    sentAt: new Date(Date.UTC(2026, 0, 1, 12, index))
+  }));
+}
+
+test("OpenAI service sends thread history as prior chat turns before the incoming DM", async () => {
+  const { logger } = createLoggerMock();
+  const service = createLlmProvider("openai", createEnv(), logger as never) as unknown as {
+    generateDraft: (text: string, context?: { history?: HistoryTurn[] }) => Promise<{ intent: string }>;
+    client: {
+      chat: {
+        completions: {
+          create: (body: { messages: Array<{ role: string; content: string }> }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+
+  let messages: Array<{ role: string; content: string }> = [];
+  service.client.chat.completions.create = async (body) => {
+    messages = body.messages;
+    return {
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              intent: "pricing",
+              confidence: 0.85,
+              reply: "The blue one is $40.",
+              needs_human_approval: false
+            })
+          }
+        }
+      ]
+    };
+  };
+
+  await service.generateDraft("what about the blue one?", {
+    history: createHistory([
+      ["customer", "How much is the red hoodie?"],
+      ["business", "The red hoodie is $35."]
+    ])
+  });
+
+  assert.deepEqual(
+    messages.slice(1).map((message) => [message.role, message.content]),
+    [
+      ["user", "How much is the red hoodie?"],
+      ["assistant", "The red hoodie is $35."],
+      ["user", 'Incoming DM: "what about the blue one?"']
+    ]
+  );
+  assert.match(messages[0].content, /conversation so far/);
+});
+
+test("OpenAI service drops the oldest history turns that exceed the token budget", async () => {
+  const { logger } = createLoggerMock();
+  const service = createLlmProvider("openai", createEnv({ llmHistoryMaxTokens: 10 }), logger as never) as unknown as {
+    generateDraft: (text: string, context?: { history?: HistoryTurn[] }) => Promise<{ intent: string }>;
+    client: {
+      chat: {
+        completions: {
+          create: (body: { messages: Array<{ role: string; content: string }> }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+
+  let messages: Array<{ role: string; content: string }> = [];
+  service.client.chat.completions.create = async (body) => {
+    messages = body.messages;
+    return { choices: [{ message: { content: "{}" } }] };
+  };
+
+  await service.generateDraft("ok", {
+    history: createHistory([
+      ["customer", "This first message is long enough to blow the budget."],
+      ["business", "Order number?"],
+      ["customer", "#4821"]
+    ])
+  });
+
+  assert.deepEqual(
+    messages.slice(1, -1).map((message) => message.content),
+    ["Order number?", "#4821"]
+  );
+});
+
+test("fitHistoryToBudget clips the overflowing turn when clip_oldest is configured", () => {
+  const history = createHistory([
+    ["customer", "a".repeat(200)],
+    ["business", "b".repeat(40)]
+  ]);
+
+  assert.deepEqual(
+    fitHistoryToBudget(history, { maxTokens: 30, truncation: "drop_oldest" }).map((turn) => turn.text),
+    ["b".repeat(40)]
+  );
+
+  const clipped = fitHistoryToBudget(history, { maxTokens: 30, truncation: "clip_oldest" });
+  assert.equal(clipped.length, 2);
+  assert.equal(clipped[0].text, `…${"a".repeat(79)}`);
+  assert.equal(clipped[1].text, "b".repeat(40));
+  assert.deepEqual(fitHistoryToBudget(history, { maxTokens: 0, truncation: "clip_oldest" }), []);
+});
+
+function createAnthropicEnv(): Env {
+  return createEnv({
+    llmProvider: "anthropic",
+    openaiApiKey: "",
+    anthropicApiKey: "anthropic_key",
+    anthropicModel: "claude-test"
+  });
+}
+
+test("Anthropic service forces the draft tool and parses its input", async () => {
+  const originalFetch = globalThis.fetch;
+  const { logger, infoCalls } = createLoggerMock();
+  let capturedUrl = "";
+  let capturedHeaders: Record<string, string> = {};
+  const requestBodies: Array<{
+    model: string;
+    system: string;
+    messages: Array<{ role: string; content: string }>;
+    tool_choice: { type: string; name: string };
+    tools: Array<{ name: string; input_schema: { properties: { intent: { enum: string[] } } } }>;
+  }> = [];
+
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    capturedUrl = String(input);
+    capturedHeaders = init?.headers as Record<string, string>;
+    requestBodies.push(JSON.parse(String(init?.body)));
+    return new Response(
+      JSON.stringify({
+        content: [
+          { type: "text", text: "Drafting now." },
+          {
+            type: "tool_use",
+            name: "submit_draft",
+            input: {
+              intent: "shipping",
+              confidence: 0.88,
+              reply: "We ship to Canada in 5-7 days.",
+              needs_human_approval: false
+            }
+          }
+        ]
+      }),
+      { status: 200, headers: { "content-type": "application/json" } }
+    );
+  }) as typeof fetch;
+
+  try {
+    const service = createLlmProvider("anthropic", createAnthropicEnv(), logger as never);
+    const draft = await service.generateDraft("and to Canada?", {
+      history: createHistory([
+        ["business", "Thanks for following!"],
+        ["customer", "Do you ship abroad?"],
+        ["customer", "like the US"],
+        ["business", "Yes, we ship to the US."]
+      ])
+    });
+
+    assert.equal(draft.intent, "shipping");
+    assert.equal(draft.reply, "We ship to Canada in 5-7 days.");
+    assert.equal(infoCalls.length, 1);
+    assert.equal(capturedUrl, "https://api.anthropic.com/v1/messages");
+    assert.equal(capturedHeaders["x-api-key"], "anthropic_key");
+    const [capturedBody] = requestBodies;
+    assert.equal(capturedBody.model, "claude-test");
+    assert.match(capturedBody.system, /Instagram support assistant/);
+    assert.deepEqual(capturedBody.tool_choice, { type: "tool", name: "submit_draft" });
+    assert.ok(capturedBody.tools[0].input_schema.properties.intent.enum.includes("story_engagement"));
+    assert.deepEqual(capturedBody.messages, [
+      { role: "user", content: "Do you ship abroad?\nlike the US" },
+      { role: "assistant", content: "Yes, we ship to the US." },
+      { role: "user", content: 'Incoming DM: "and to Canada?"' }
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("Anthropic service falls back on API errors and malformed tool output", async () => {
+  const originalFetch = globalThis.fetch;
+  const { logger, errorCalls } = createLoggerMock();
+  const responses = [
+    new Response(JSON.stringify({ error: { type: "overloaded_error" } }), { status: 529 }),
+    new Response(
+      JSON.stringify({
+        content: [{ type: "tool_use", name: "submit_draft", input: { intent: "pricing", confidence: 2 } }]
+      }),
+      { status: 200 }
+    )
+  ];
+
+  globalThis.fetch = (async () => responses.shift() as Response) as typeof fetch;
+
+  try {
+    const service = createLlmProvider("anthropic", createAnthropicEnv(), logger as never);
+
+    for (let i = 0; i < 2; i += 1) {
+      const draft = await service.generateDraft("hello?");
+      assert.equal(draft.intent, "unknown");
+      assert.equal(draft.needs_human_approval, true);
+      assert.match(draft.reply, /team member will review this shortly/i);
+    }
+    assert.equal(errorCalls.length, 2);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("Anthropic service aborts at the configured provider timeout as a retryable LLM timeout", async () => {
+  const originalFetch = globalThis.fetch;
+  const { logger } = createLoggerMock();
+
+  // AbortSignal.timeout does not keep the process alive, so the pending fetch
+  // holds its own timer until the signal fires.
+  globalThis.fetch = ((_input: RequestInfo | URL, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      const signal = init?.signal;
+      const guard = setTimeout(() => reject(new Error("fetch was never aborted")), 5_000);
+      const abort = () => {
+        clearTimeout(guard);
+        reject(signal?.reason);
+      };
+      if (signal?.aborted) abort();
+      signal?.addEventListener("abort", abort);
+    })) as typeof fetch;
+
+  try {
+    const service = createLlmProvider(
+      "anthropic",
+      { ...createAnthropicEnv(), llmProviderTimeoutMs: 20 },
+      logger as never
+    );
+    const started = Date.now();
+    await assert.rejects(() => service.generateDraft("hello?"), LlmTimeoutError);
+    assert.ok(Date.now() - started < 5_000);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("local provider targets the configured base URL and drops JSON mode when the server rejects it", async () => {
+  const { logger } = createLoggerMock();
+  const env = createEnv({
+    llmProvider: "local",
+    openaiApiKey: "",
+    localLlmBaseUrl: "http://127.0.0.1:8000/v1",
+    localLlmModel: "qwen2.5-7b-instruct",
+    localLlmTimeoutMs: 5_000
+  });
+  const service = createLlmProvider("local", env, logger as never) as unknown as {
+    generateDraft: (text: string) => Promise<{ intent: string; reply: string }>;
+    client: {
+      baseURL: string;
+      timeout: number;
+      maxRetries: number;
+      chat: {
+        completions: {
+          create: (body: { model: string; response_format?: unknown }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+
+  assert.equal(service.client.baseURL, "http://127.0.0.1:8000/v1");
+  assert.equal(service.client.timeout, 5_000);
+  assert.equal(service.client.maxRetries, 0);
+
+  const requests: Array<{ model: string; response_format?: unknown }> = [];
+  service.client.chat.completions.create = async (body) => {
+    requests.push(body);
+    if (body.response_format) {
+      throw new OpenAI.BadRequestError(
+        400,
+        { message: "response_format not supported" },
+        undefined,
+        {}
+      );
+    }
+    return {
+      choices: [
+        {
+          message: {
+            content:
+              'Sure! Here is the draft:\n```json\n{"intent": "refund", "confidence": 0.7, "reply": "Sorry {again}! We can refund that.", "needs_human_approval": true}\n```'
+          }
+        }
+      ]
+    };
+  };
+
+  const first = await service.generateDraft("I want my money back");
+  const second = await service.generateDraft("Still waiting on that refund");
+
+  assert.equal(first.intent, "refund");
+  assert.equal(first.reply, "Sorry {again}! We can refund that.");
+  assert.equal(second.intent, "refund");
+  assert.deepEqual(
+    requests.map((request) => [request.model, Boolean(request.response_format)]),
+    [
+      ["qwen2.5-7b-instruct", true],
+      ["qwen2.5-7b-instruct", false],
+      ["qwen2.5-7b-instruct", false]
+    ]
+  );
+});
+
+test("local provider keeps JSON mode when the server rejects a request for another reason", async () => {
+  const { logger } = createLoggerMock();
+  const env = createEnv({
+    llmProvider: "local",
+    openaiApiKey: "",
+    localLlmBaseUrl: "http://127.0.0.1:8000/v1",
+    localLlmModel: "qwen2.5-7b-instruct"
+  });
+  const service = createLlmProvider("local", env, logger as never) as unknown as {
+    generateDraft: (text: string) => Promise<unknown>;
+    client: {
+      chat: {
+        completions: {
+          create: (body: { response_format?: unknown }) => Promise<{
+            choices: Array<{ message: { content: string } }>;
+          }>;
+        };
+      };
+    };
+  };
+
+  const requests: boolean[] = [];
+  service.client.chat.completions.create = async (body) => {
+    requests.push(Boolean(body.response_format));
+    throw new OpenAI.BadRequestError(
+      400,
+      { message: "This model's maximum context length is 4096 tokens" },
+      undefined,
+      {}
+    );
+  };
+
+  await service.generateDraft("I want my money back");
+  await service.generateDraft("Still waiting");
+  assert.deepEqual(requests, [true, true]);
+});
+
+test("extractJsonObject finds the first balanced object in noisy completions", () => {
+  assert.deepEqual(extractJsonObject('{"a": 1}'), { a: 1 });
+  assert.deepEqual(extractJsonObject('Result: {"a": "}{", "b": {"c": "\\"q"}} trailing {x}'), {
+    a: "}{",
+    b: { c: '"q' }
+  });
+  assert.throws(() => extractJsonObject("no json here"));
+});
+
+test("mock provider answers deterministically from its fixture and simulates failures", async () => {
+  const { logger, infoCalls, errorCalls } = createLoggerMock();
+  const dir = await mkdtemp(path.join(os.tmpdir(), "mock-llm-"));
+  const fixturePath = path.join(dir, "fixture.json");
+  await writeFile(
+    fixturePath,
+    JSON.stringify({
+      latencyMs: 0,
+      entries: [
+        {
+          pattern: "\\bship",
+          latencyMs: 30,
+          draft: { intent: "shipping", confidence: 0.9, reply: "Ships in 2 days.", needs_human_approval: false }
+        },
+        { pattern: "unsure", draft: { intent: "unknown", confidence: 0.2, reply: "Hmm?", needs_human_approval: true } },
+        { pattern: "boom", fail: "error" },
+        { pattern: "slow", fail: "timeout" }
+      ],
+      default: { intent: "general_question", confidence: 0.5, reply: "Hi!", needs_human_approval: true }
+    })
+  );
+
+  const service = createLlmProvider(
+    "mock",
+    createEnv({ llmProvider: "mock", openaiApiKey: "", mockLlmFixtures: fixturePath }),
+    logger as never
+  );
+
+  const startedAt = Date.now();
+  const shipping = await service.generateDraft("When will you SHIP it?");
+  assert.ok(Date.now() - startedAt >= 25);
+  assert.deepEqual(shipping, {
+    intent: "shipping",
+    confidence: 0.9,
+    reply: "Ships in 2 days.",
+    needs_human_approval: false,
+    provider: "mock"
+  });
+  assert.deepEqual(await service.generateDraft("When will you SHIP it?"), shipping);
+
+  const lowConfidence = await service.generateDraft("I'm unsure about this");
+  assert.equal(lowConfidence.confidence, 0.2);
+
+  assert.equal((await service.generateDraft("anything else")).reply, "Hi!");
+
+  const failed = await service.generateDraft("boom");
+  assert.equal(failed.intent, "unknown");
+  assert.equal(failed.provider, "fallback");
+  assert.match(failed.reply, /team member will review this shortly/i);
+  assert.equal(errorCalls.length, 1);
+
+  await assert.rejects(() => service.generateDraft("slow reply please"), LlmTimeoutError);
+  assert.equal(infoCalls.length, 4);
+});
+
+test("mock provider fixture validation rejects entries without a draft or fail mode", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "mock-llm-"));
+  const fixturePath = path.join(dir, "bad.json");
+  await writeFile(fixturePath, JSON.stringify({ entries: [{ pattern: "hi" }] }));
+
+  assert.throws(() => loadMockLlmFixture(fixturePath), /Invalid mock LLM fixture/);
+  assert.ok(loadMockLlmFixture("apps/server/fixtures/mock-llm.json").entries.length > 0);
+});
+
+function createChainMember(
+  name: string,
+  requestDraft: () => Promise<LlmDraft>,
+  options: { timeoutMs?: number; breaker?: CircuitBreaker } = {}
+) {
+  return {
+    provider: { name, requestDraft } as never,
+    timeoutMs: options.timeoutMs ?? 1_000,
+    breaker: options.breaker ?? new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 })
+  };
+}
+
+const SHIPPING_DRAFT: LlmDraft = {
+  intent: "shipping",
+  confidence: 0.9,
+  reply: "Ships in 2 days.",
+  needs_human_approval: false
+};
+
+test("failover chain serves from the next provider and skips one whose breaker is open", async () => {
+  const { logger, errorCalls } = createLoggerMock();
+  let primaryCalls = 0;
+  const service = new FailoverLlmService(
+    [
+      createChainMember(
+        "openai",
+        async () => {
+          primaryCalls += 1;
+          throw new Error("503 upstream");
+        },
+        { breaker: new CircuitBreaker({ failureThreshold: 2, cooldownMs: 60_000 }) }
+      ),
+      createChainMember("anthropic", async () => SHIPPING_DRAFT)
+    ],
+    logger as never
+  );
+
+  for (let i = 0; i < 3; i += 1) {
+    const draft = await service.generateDraft("when does it ship?");
+    assert.equal(draft.provider, "anthropic");
+    assert.equal(draft.intent, "shipping");
+  }
+
+  assert.equal(primaryCalls, 2);
+  assert.deepEqual(
+    errorCalls.map(([fields]) => (fields as { breaker: string }).breaker),
+    ["closed", "open"]
+  );
+});
+
+test("failover chain enforces per-provider timeouts and only throws when every provider timed out", async () => {
+  const { logger } = createLoggerMock();
+  const hang = () => new Promise<LlmDraft>(() => undefined);
+
+  const timedOut = new FailoverLlmService(
+    [createChainMember("local", hang, { timeoutMs: 20 }), createChainMember("openai", hang, { timeoutMs: 20 })],
+    logger as never
+  );
+  await assert.rejects(() => timedOut.generateDraft("hello?"), LlmTimeoutError);
+
+  const mixed = new FailoverLlmService(
+    [
+      createChainMember("local", hang, { timeoutMs: 20 }),
+      createChainMember("openai", async () => {
+        throw new Error("invalid api key");
+      })
+    ],
+    logger as never
+  );
+  const draft = await mixed.generateDraft("hello?");
+  assert.equal(draft.provider, "fallback");
+  assert.equal(draft.needs_human_approval, true);
+});
@@ -0,0 +1,311 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { MessageDirection, PrismaClient } from "@prisma/client";
+import { applyMessageEvent } from "../../apps/server/src/services/messageEvents";
+import { ParsedMessageEvent, ParsedMessageEventJob } from "../../apps/server/src/types/meta";
+
+type StoredMessage = {
+  id: string;
+  igMessageId: string;
+  threadId: string;
+  direction: MessageDirection;
+  text: string | null;
+  receivedAt: Date;
+  suggestedReply: string | null;
+  needsHumanApproval: boolean;
+  readAt: Date | null;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+};
+
+type StoredReaction = {
+  messageId: string;
+  senderIgId: string;
+  reaction: string | null;
+  emoji: string | null;
+};
+
+function createEventPrismaMock(seeded: Array<Partial<StoredMessage> & { igMessageId: string }>): {
+  prisma: PrismaClient;
+  messages: Map<string, StoredMessage>;
+  reactions: StoredReaction[];
+  edits: Array<{ messageId: string; previousText: string | null; text: string }>;
+  deliveryLogs: Array<{ messageId: string; status: string; error: string }>;
+} {
+  const messages = new Map<string, StoredMessage>();
+  const reactions: StoredReaction[] = [];
+  const edits: Array<{ messageId: string; previousText: string | null; text: string }> = [];
+  const deliveryLogs: Array<{ messageId: string; status: string; error: string }> = [];
+
+  seeded.forEach((seed, index) => {
+    messages.set(seed.igMessageId, {
+      id: seed.id ?? `message_${index + 1}`,
+      igMessageId: seed.igMessageId,
+      threadId: seed.threadId ?? "thread_db_1",
+      direction: seed.direction ?? MessageDirection.IN,
+      text: seed.text ?? null,
+      receivedAt: seed.receivedAt ?? new Date(1_000 * (index + 1)),
+      suggestedReply: seed.suggestedReply ?? null,
+      needsHumanApproval: seed.needsHumanApproval ?? false,
+      readAt: seed.readAt ?? null,
+      editedAt: null,
+      deletedAt: null
+    });
+  });
+
+  const byId = (id: string): StoredMessage => {
+    const found = [...messages.values()].find((message) => message.id === id);
+    if (!found) throw new Error(`Message not found: ${id}`);
+    return found;
+  };
+
+  const prisma = {
+    message: {
+      findUnique: async ({ where }: { where: { igMessageId: string } }) =>
+        messages.get(where.igMessageId) ?? null,
+      update: async ({
+        where,
+        data
+      }: {
+        where: { id: string };
+        data: Partial<StoredMessage> & {
+          edits?: { create: { previousText: string | null; text: string } };
+        };
+      }) => {
+        const message = byId(where.id);
+        const { edits: nestedEdit, ...fields } = data;
+        if (nestedEdit) {
+          const { previousText, text } = nestedEdit.create;
+          edits.push({ messageId: message.id, previousText, text });
+        }
+        Object.assign(message, fields);
+        return message;
+      },
+      updateMany: async ({
+        where,
+        data
+      }: {
+        where: {
+          threadId: string;
+          direction: MessageDirection;
+          readAt: null;
+          receivedAt: { lte: Date };
+        };
+        data: { readAt: Date };
+      }) => {
+        let count = 0;
+        for (const message of messages.values()) {
+          if (
+            message.threadId === where.threadId &&
+            message.direction === where.direction &&
+            message.readAt === null &&
+            message.receivedAt <= where.receivedAt.lte
+          ) {
+            message.readAt = data.readAt;
+            count += 1;
+          }
+        }
+        return { count };
+      }
+    },
+    thread: {
+      findUnique: async ({ where }: { where: { igThreadId: string } }) =>
+        where.igThreadId === "thread_1" ? { id: "thread_db_1", igThreadId: "thread_1" } : null
+    },
+    messageReaction: {
+      upsert: async ({
+        where,
+        update,
+        create
+      }: {
+        where: { messageId_senderIgId: { messageId: string; senderIgId: string } };
+        update: { reaction: string | null; emoji: string | null };
+        create: StoredReaction;
+      }) => {
+        const key = where.messageId_senderIgId;
+        const existing = reactions.find(
+          (reaction) => reaction.messageId === key.messageId && reaction.senderIgId === key.senderIgId
+        );
+        if (existing) {
+          Object.assign(existing, update);
+          return existing;
+        }
+        reactions.push({ ...create });
+        return create;
+      },
+      deleteMany: async ({ where }: { where: { messageId: string; senderIgId: string } }) => {
+        const before = reactions.length;
+        for (let i = reactions.length - 1; i >= 0; i -= 1) {
+          if (
+            reactions[i].messageId === where.messageId &&
+            reactions[i].senderIgId === where.senderIgId
+          ) {
+            reactions.splice(i, 1);
+          }
+        }
+        return { count: before - reactions.length };
+      }
+    },
+    deliveryLog: {
+      create: async ({ data }: { data: { messageId: string; status: string; error: string } }) => {
+        deliveryLogs.push(data);
+        return data;
+      },
+      findFirst: async ({
+        where
+      }: {
+        where: {
+          status: { in: string[] };
+          OR: [
+            { messageId: string },
+            { message: { threadId: string; direction: MessageDirection; receivedAt: { gte: Date } } }
+          ];
+        };
+      }) => {
+        const [own, reply] = where.OR;
+        const found = deliveryLogs.find((log) => {
+          if (!where.status.in.includes(log.status)) return false;
+          if (log.messageId === own.messageId) return true;
+          const message = byId(log.messageId);
+          return (
+            message.threadId === reply.message.threadId &&
+            message.direction === reply.message.direction &&
+            message.receivedAt >= reply.message.receivedAt.gte
+          );
+        });
+        return found ? { id: `log_${found.messageId}` } : null;
+      }
+    }
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, messages, reactions, edits, deliveryLogs };
+}
+
+function createLoggerMock(): { info: (...args: unknown[]) => void } {
+  return { info: () => undefined };
+}
+
+function createEventJob(event: ParsedMessageEvent, timestamp = 50_000): ParsedMessageEventJob {
+  return {
+    event,
+    senderId: "user_1",
+    timestamp,
+    threadId: "thread_1",
+    rawPayload: { object: "instagram", entry: [] }
+  };
+}
+
+test("reactions are stored against the target message and removed on unreact", async () => {
+  const db = createEventPrismaMock([{ igMessageId: "mid_out", direction: MessageDirection.OUT }]);
+  const logger = createLoggerMock() as never;
+
+  await applyMessageEvent(
+    db.prisma,
+    logger,
+    createEventJob({
+      type: "reaction",
+      messageId: "mid_out",
+      action: "react",
+      reaction: "love",
+      emoji: "❤️"
+    })
+  );
+  assert.deepEqual(db.reactions, [
+    { messageId: "message_1", senderIgId: "user_1", reaction: "love", emoji: "❤️" }
+  ]);
+
+  await applyMessageEvent(
+    db.prisma,
+    logger,
+    createEventJob({
+      type: "reaction",
+      messageId: "mid_out",
+      action: "unreact",
+      reaction: null,
+      emoji: null
+    })
+  );
+  assert.equal(db.reactions.length, 0);
+});
+
+test("read receipts mark outbound messages up to the read message", async () => {
+  const db = createEventPrismaMock([
+    { igMessageId: "mid_out_1", direction: MessageDirection.OUT, receivedAt: new Date(1_000) },
+    { igMessageId: "mid_in", direction: MessageDirection.IN, receivedAt: new Date(2_000) },
+    { igMessageId: "mid_out_2", direction: MessageDirection.OUT, receivedAt: new Date(3_000) },
+    { igMessageId: "mid_out_3", direction: MessageDirection.OUT, receivedAt: new Date(4_000) }
+  ]);
+
+  await applyMessageEvent(
+    db.prisma,
+    createLoggerMock() as never,
+    createEventJob({ type: "read", messageId: "mid_out_2" }, 5_000)
+  );
+
+  assert.deepEqual(db.messages.get("mid_out_1")?.readAt, new Date(5_000));
+  assert.deepEqual(db.messages.get("mid_out_2")?.readAt, new Date(5_000));
+  assert.equal(db.messages.get("mid_out_3")?.readAt, null);
+  assert.equal(db.messages.get("mid_in")?.readAt, null);
+});
+
+test("edits update the text and keep the previous version in history", async () => {
+  const db = createEventPrismaMock([{ igMessageId: "mid_in", text: "helo" }]);
+
+  await applyMessageEvent(
+    db.prisma,
+    createLoggerMock() as never,
+    createEventJob({ type: "edit", messageId: "mid_in", text: "hello" })
+  );
+
+  assert.equal(db.messages.get("mid_in")?.text, "hello");
+  assert.deepEqual(db.messages.get("mid_in")?.editedAt, new Date(50_000));
+  assert.deepEqual(db.edits, [{ messageId: "message_1", previousText: "helo", text: "hello" }]);
+});
+
+test("unsends mark the message deleted and cancel its pending draft", async () => {
+  const db = createEventPrismaMock([
+    {
+      igMessageId: "mid_in",
+      text: "where is my order",
+      suggestedReply: "Please share your order number.",
+      needsHumanApproval: true
+    }
+  ]);
+
+  await applyMessageEvent(
+    db.prisma,
+    createLoggerMock() as never,
+    createEventJob({ type: "unsend", messageId: "mid_in" })
+  );
+
+  const message = db.messages.get("mid_in");
+  assert.deepEqual(message?.deletedAt, new Date(50_000));
+  assert.equal(message?.suggestedReply, "Please share your order number.");
+  assert.equal(message?.needsHumanApproval, false);
+  assert.equal(db.deliveryLogs.length, 1);
+  assert.match(db.deliveryLogs[0].error, /pending draft cancelled/);
+});
+
+test("unsends leave a draft that was already answered alone", async () => {
+  const db = createEventPrismaMock([
+    {
+      igMessageId: "mid_in",
+      text: "where is my order",
+      suggestedReply: "Please share your order number.",
+      needsHumanApproval: true
+    },
+    { id: "message_out", igMessageId: "mid_out", direction: MessageDirection.OUT }
+  ]);
+  db.deliveryLogs.push({ messageId: "message_out", status: "SENT_MANUAL", error: "" });
+
+  await applyMessageEvent(
+    db.prisma,
+    createLoggerMock() as never,
+    createEventJob({ type: "unsend", messageId: "mid_in" })
+  );
+
+  const message = db.messages.get("mid_in");
+  assert.deepEqual(message?.deletedAt, new Date(50_000));
+  assert.equal(message?.suggestedReply, "Please share your order number.");
+  assert.equal(db.deliveryLogs.length, 1);
+});
@@ -1,12 +1,13 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { ContactSegment, PrismaClient, ReplyPolicy } from "@prisma/client";
+import { CommentReplyMode, ContactSegment, PrismaClient, ReplyPolicy } from "@prisma/client";
 import {
   CONTACT_SEGMENTS,
   ensureAllPolicies,
   ensurePolicy,
   getDefaultPolicy,
-  isContactSegment
+  isContactSegment,
+  resolveTemplate
 } from "../../apps/server/src/services/policy";
 
 function createPolicyPrismaMock(
@@ -25,6 +26,12 @@ function createPolicyPrismaMock(
       autoSend: value.autoSend ?? false,
       requireHumanApproval: value.requireHumanApproval ?? true,
       template: value.template ?? null,
+      templateVariants: value.templateVariants ?? {},
+      mediaTemplate: value.mediaTemplate ?? null,
+      storyAutoSend: value.storyAutoSend ?? false,
+      storyTemplate: value.storyTemplate ?? null,
+      commentReplyMode: value.commentReplyMode ?? CommentReplyMode.PRIVATE,
+      approvalIntents: value.approvalIntents ?? [],
       createdAt: now,
       updatedAt: now
     });
@@ -42,6 +49,11 @@ function createPolicyPrismaMock(
           autoSend: boolean;
           requireHumanApproval: boolean;
           template: string | null;
+          mediaTemplate: string | null;
+          storyAutoSend: boolean;
+          storyTemplate: string | null;
+          commentReplyMode: CommentReplyMode;
+          approvalIntents: string[];
         };
       }): Promise<ReplyPolicy> => {
         const existing = store.get(where.segment);
@@ -56,6 +68,12 @@ function createPolicyPrismaMock(
           autoSend: create.autoSend,
           requireHumanApproval: create.requireHumanApproval,
           template: create.template,
+          templateVariants: {},
+          mediaTemplate: create.mediaTemplate,
+          storyAutoSend: create.storyAutoSend,
+          storyTemplate: create.storyTemplate,
+          commentReplyMode: create.commentReplyMode,
+          approvalIntents: create.approvalIntents,
           createdAt: now,
           updatedAt: now
         };
@@ -120,3 +138,15 @@ test("ensureAllPolicies returns all segments in fixed display order", async () =
   assert.equal(stranger.requireHumanApproval, true);
   assert.equal(stranger.template, "Custom stranger policy");
 });
+
+test("resolveTemplate prefers the detected language's variant over the segment template", async () => {
+  const { prisma } = createPolicyPrismaMock({
+    KNOWN: { template: "Back soon!", templateVariants: { es: "¡Volvemos pronto!", pt: "  " } }
+  });
+  const policy = await ensurePolicy(prisma, ContactSegment.KNOWN);
+
+  assert.equal(resolveTemplate(policy, "es"), "¡Volvemos pronto!");
+  assert.equal(resolveTemplate(policy, "pt"), "Back soon!");
+  assert.equal(resolveTemplate(policy, null), "Back soon!");
+  assert.equal(resolveTemplate({ ...policy, template: null }, "en"), undefined);
+});
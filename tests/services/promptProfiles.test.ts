@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { ContactSegment, PrismaClient, PromptProfile } from "@prisma/client";
+import { applyVoice, resolvePromptProfile } from "../../apps/server/src/services/promptProfiles";
+import { LlmDraft, VoiceProfile } from "../../apps/server/src/types/llm";
+
+const draft: LlmDraft = {
+  intent: "shipping",
+  confidence: 0.9,
+  reply: "Great question 😊👍🏽 it ships today!",
+  needs_human_approval: false
+};
+
+function voice(overrides: Partial<VoiceProfile> = {}): VoiceProfile {
+  return {
+    persona: "You are Acme's assistant.",
+    tone: null,
+    bannedPhrases: [],
+    signOff: null,
+    emojiPolicy: "FREE",
+    ...overrides
+  };
+}
+
+test("applyVoice strips emoji, appends the sign-off once, and flags banned phrases", () => {
+  assert.equal(applyVoice(draft, null), draft);
+  assert.deepEqual(applyVoice(draft, voice()), draft);
+
+  const formal = applyVoice(draft, voice({ emojiPolicy: "NONE", signOff: "- Team Acme" }));
+  assert.equal(formal.reply, "Great question it ships today!\n- Team Acme");
+  assert.equal(applyVoice(formal, voice({ signOff: "- Team Acme" })).reply, formal.reply);
+
+  const flagged = applyVoice(draft, voice({ bannedPhrases: ["  ", "GREAT QUESTION"] }));
+  assert.equal(flagged.needs_human_approval, true);
+  assert.equal(flagged.reply, draft.reply);
+});
+
+test("resolvePromptProfile prefers the segment's latest version over the default", async () => {
+  const profile = (id: string, segment: ContactSegment | null, version: number): PromptProfile => ({
+    id,
+    segment,
+    version,
+    persona: id,
+    tone: null,
+    bannedPhrases: [],
+    signOff: null,
+    emojiPolicy: "SPARING",
+    createdAt: new Date()
+  });
+  const profiles = [
+    profile("default_v2", null, 2),
+    profile("vip_v3", ContactSegment.VIP, 3),
+    profile("default_v1", null, 1),
+    profile("vip_v1", ContactSegment.VIP, 1)
+  ];
+  const prisma = {
+    promptProfile: {
+      findMany: async ({ where }: { where: { OR: Array<{ segment: ContactSegment | null }> } }) =>
+        profiles.filter((entry) => where.OR.some((clause) => clause.segment === entry.segment))
+    }
+  } as unknown as PrismaClient;
+
+  assert.equal((await resolvePromptProfile(prisma, ContactSegment.VIP))?.id, "vip_v3");
+  assert.equal((await resolvePromptProfile(prisma, ContactSegment.KNOWN))?.id, "default_v2");
+  profiles.length = 0;
+  assert.equal(await resolvePromptProfile(prisma, ContactSegment.KNOWN), null);
+});
@@ -1,43 +1,397 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { KeywordRulesService } from "../../apps/server/src/services/rules";
+import {
+  CommentReplyMode,
+  ContactSegment,
+  IntentPolicy,
+  PrismaClient,
+  ReplyPolicy,
+  ReplyRule,
+  RuleMatchType
+} from "@prisma/client";
+import {
+  compileKeyword,
+  DEFAULT_KEYWORD_RULES,
+  editDistance,
+  foldText,
+  KeywordRule,
+  KeywordRulesService,
+  PrismaRulesService,
+  RuleMatcher,
+  seedDefaultReplyRules,
+  testReplyRules,
+  toKeywordRule
+} from "../../apps/server/src/services/rules";
+import { detectLanguage } from "../../apps/server/src/services/language";
 
-test("rules classify pricing requests", () => {
+test("rules classify pricing requests", async () => {
   const rules = new KeywordRulesService();
-  const draft = rules.generateDraft("How much does this cost?");
+  const draft = await rules.generateDraft(
+    "How much does this cost?",
+    ContactSegment.STRANGER,
+    null
+  );
 
   assert.ok(draft);
   assert.equal(draft.intent, "pricing");
   assert.equal(draft.needs_human_approval, false);
 });
 
-test("rules classify refund requests", () => {
+test("rules classify refund requests", async () => {
   const rules = new KeywordRulesService();
-  const draft = rules.generateDraft("I need a refund for my purchase");
+  const draft = await rules.generateDraft(
+    "I need a refund for my purchase",
+    ContactSegment.STRANGER,
+    null
+  );
 
   assert.ok(draft);
   assert.equal(draft.intent, "refund");
 });
 
-test("rules classify shipping requests", () => {
+test("rules classify shipping requests", async () => {
   const rules = new KeywordRulesService();
-  const draft = rules.generateDraft("Can you share shipping updates?");
+  const draft = await rules.generateDraft(
+    "Can you share shipping updates?",
+    ContactSegment.STRANGER,
+    null
+  );
 
   assert.ok(draft);
   assert.equal(draft.intent, "shipping");
 });
 
-test("rules classify order support requests", () => {
+test("rules classify order support requests", async () => {
   const rules = new KeywordRulesService();
-  const draft = rules.generateDraft("My order invoice has an issue");
+  const draft = await rules.generateDraft(
+    "My order invoice has an issue",
+    ContactSegment.STRANGER,
+    null
+  );
 
   assert.ok(draft);
   assert.equal(draft.intent, "order_support");
 });
 
-test("rules return null for unknown topics", () => {
+test("rules return null for unknown topics", async () => {
   const rules = new KeywordRulesService();
-  const draft = rules.generateDraft("Nice weather today.");
+  const draft = await rules.generateDraft("Nice weather today.", ContactSegment.STRANGER, null);
 
   assert.equal(draft, null);
 });
+
+// Regression corpus for the default rules: each message and the intent it must
+// resolve to, or null when no rule may answer it.
+const DEFAULT_RULE_CORPUS: Array<[string, string | null]> = [
+  ["What's the price?", "pricing"],
+  ["PRICES please", "pricing"],
+  ["how much for two?", "pricing"],
+  ["Does shipping cost extra?", "pricing"],
+  ["This is priceless", null],
+  ["I know how to be much more patient", null],
+  ["I don't want a refund, I love it", null],
+  ["I do not want a refund", null],
+  ["I don't want a refund, where is my tracking number?", "shipping"],
+  ["I didn't get my refund yet", "refund"],
+  ["No refund please, I'll keep it", null],
+  ["I never asked for a refund", null],
+  ["I never got my refund", "refund"],
+  ["I have not received my order", "order_support"],
+  ["Still no tracking number after two weeks", "shipping"],
+  ["No he recibido mi pedido", "order_support"],
+  ["Não recebi meu pedido", "order_support"],
+  ["No quiero un reembolso", null],
+  ["Não quero reembolso", null],
+  ["Don't worry, I'll order again", "order_support"],
+  ["Not sure. What's the price?", "pricing"],
+  ["refund😡😡", "refund"],
+  ["Can I get a refnud?", "refund"],
+  ["Where is my oredr", "order_support"],
+  ["Any shiping to Spain?", "shipping"],
+  ["any update on the delivry", "shipping"],
+  ["Where is my ordr", null],
+  ["I ordered a hoodie last week", "order_support"],
+  ["Do you sell across the border?", null],
+  ["My older sister loves your hoodies", null],
+  ["Amazon Prime?", null],
+  ["Happy pride month!", null],
+  ["Is this the prince hoodie?", null],
+  ["Not the price, just curious", null],
+  ["Crème brûlée pricé?", "pricing"],
+  ["🔥🔥🔥", null],
+  ["", null]
+];
+
+test("default rules resolve the regression corpus", async () => {
+  const rules = new KeywordRulesService();
+
+  for (const [text, intent] of DEFAULT_RULE_CORPUS) {
+    const draft = await rules.generateDraft(text, ContactSegment.STRANGER, detectLanguage(text));
+    assert.equal(draft?.intent ?? null, intent, text);
+  }
+});
+
+test("text folding keeps offsets into the original message", () => {
+  const folded = foldText("Ça coûte combien? Don't ＳＨＩＰ");
+
+  assert.equal(folded.folded, "ca coute combien? don't ship");
+  assert.deepEqual(
+    folded.tokens.map((token) => token.value),
+    ["ca", "coute", "combien", "dont", "ship"]
+  );
+  assert.equal(folded.offsets[folded.folded.indexOf("ship")], 24);
+  assert.equal(editDistance("shipping", "shiping"), 1);
+  assert.equal(editDistance("refund", "refnud"), 1);
+  assert.equal(editDistance("price", "priceless"), 4);
+});
+
+test("matched terms and emoji keywords map back to the original text", () => {
+  const matcher = new RuleMatcher([
+    createKeywordRule({ name: "Envíos", keywords: ["envio"], intent: "shipping" }),
+    createKeywordRule({
+      name: "Hype",
+      matchType: RuleMatchType.WHOLE_WORD,
+      keywords: ["🔥"],
+      intent: "story_engagement"
+    })
+  ]);
+
+  assert.deepEqual(matcher.match("¿Hacen ENVÍOS?", ContactSegment.KNOWN, null)?.match, {
+    ruleId: "rule_1",
+    ruleName: "Envíos",
+    keyword: "envio",
+    term: "ENVÍOS",
+    index: 7,
+    language: null
+  });
+  assert.equal(matcher.match("love it🔥", ContactSegment.KNOWN, null)?.match.term, "🔥");
+  assert.equal(matcher.match("envios", ContactSegment.KNOWN, null)?.intent, "shipping");
+});
+
+function createRule(overrides: Partial<ReplyRule> = {}): ReplyRule {
+  return {
+    id: "rule_1",
+    name: "Wholesale",
+    matchType: RuleMatchType.CONTAINS,
+    keywords: ["wholesale", "bulk"],
+    intent: "wholesale",
+    confidence: 0.9,
+    reply: "Thanks! Our wholesale team will send the catalog.",
+    priority: 0,
+    enabled: true,
+    segments: [],
+    variants: {},
+    createdAt: new Date("2026-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    ...overrides
+  };
+}
+
+function createKeywordRule(overrides: Partial<ReplyRule> = {}): KeywordRule & { id: string } {
+  return toKeywordRule(createRule(overrides));
+}
+
+test("rules accept custom keyword rules mapped to custom intents", async () => {
+  const rules = new KeywordRulesService([createKeywordRule()]);
+  const draft = await rules.generateDraft(
+    "Do you offer BULK pricing?",
+    ContactSegment.STRANGER,
+    null
+  );
+
+  assert.ok(draft);
+  assert.equal(draft.intent, "wholesale");
+  assert.equal(
+    await rules.generateDraft("How much does this cost?", ContactSegment.STRANGER, null),
+    null
+  );
+});
+
+test("rule matcher honors match type, priority, and segment scope", () => {
+  const matcher = new RuleMatcher([
+    createKeywordRule({
+      name: "Ship word",
+      matchType: RuleMatchType.WHOLE_WORD,
+      keywords: ["ship"],
+      intent: "shipping"
+    }),
+    createKeywordRule({
+      name: "Order number",
+      matchType: RuleMatchType.REGEX,
+      keywords: ["#\\d{4,}", "[unclosed"],
+      intent: "order_support",
+      priority: 5
+    }),
+    createKeywordRule({
+      name: "VIP",
+      keywords: ["ship"],
+      intent: "vip_care",
+      priority: 10,
+      segments: [ContactSegment.VIP]
+    })
+  ]);
+
+  const match = (text: string, segment: ContactSegment) => matcher.match(text, segment, null);
+
+  assert.equal(match("Do you ship to Canada?", ContactSegment.STRANGER)?.intent, "shipping");
+  assert.equal(match("Is my shipment late?", ContactSegment.STRANGER), null);
+  assert.equal(match("Do you ship to Canada?", ContactSegment.VIP)?.intent, "vip_care");
+  assert.equal(
+    match("Where is #4821? ship it", ContactSegment.STRANGER)?.intent,
+    "order_support"
+  );
+  assert.throws(() => compileKeyword(RuleMatchType.REGEX, "[unclosed"), SyntaxError);
+});
+
+test("rule matches explain the rule, keyword, matched term, and position", () => {
+  const matcher = new RuleMatcher([
+    createKeywordRule({ matchType: RuleMatchType.REGEX, keywords: ["bulk", "\\d+ units"] })
+  ]);
+
+  assert.deepEqual(matcher.match("Can I get 250 Units?", ContactSegment.KNOWN, null)?.match, {
+    ruleId: "rule_1",
+    ruleName: "Wholesale",
+    keyword: "\\d+ units",
+    term: "250 Units",
+    index: 10,
+    language: null
+  });
+  assert.equal(
+    new RuleMatcher(DEFAULT_KEYWORD_RULES).match("what's the price", ContactSegment.KNOWN, null)
+      ?.match.ruleId,
+    null
+  );
+});
+
+function createPolicyMock(
+  policy: Partial<ReplyPolicy>,
+  intentPolicies: IntentPolicy[] = []
+): PrismaClient {
+  return {
+    replyPolicy: {
+      upsert: async ({ where }: { where: { segment: ContactSegment } }): Promise<ReplyPolicy> => ({
+        id: "policy_1",
+        segment: where.segment,
+        autoSend: true,
+        requireHumanApproval: false,
+        template: null,
+        templateVariants: {},
+        mediaTemplate: null,
+        storyAutoSend: true,
+        storyTemplate: null,
+        commentReplyMode: CommentReplyMode.PRIVATE,
+        approvalIntents: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...policy
+      })
+    },
+    intentPolicy: {
+      findUnique: async ({
+        where
+      }: {
+        where: { segment_intent: { segment: ContactSegment; intent: string } };
+      }) =>
+        intentPolicies.find(
+          (row) =>
+            row.segment === where.segment_intent.segment &&
+            row.intent === where.segment_intent.intent
+        ) ?? null
+    }
+  } as unknown as PrismaClient;
+}
+
+test("rule sandbox reports the path, policy, and send decision without sending", async () => {
+  const rules = new KeywordRulesService([createKeywordRule()]);
+  const override: IntentPolicy = {
+    id: "intent_policy_1",
+    segment: ContactSegment.KNOWN,
+    intent: "wholesale",
+    autoSend: null,
+    requireHumanApproval: true,
+    template: "A wholesale rep will follow up.",
+    minConfidence: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  const business = {
+    businessName: "Acme",
+    businessHours: "",
+    businessTimezone: "UTC",
+    orderLookupUrl: ""
+  };
+
+  const ruled = await testReplyRules(createPolicyMock({}, [override]), rules, business, {
+    text: "bulk order please",
+    segment: ContactSegment.KNOWN
+  });
+  assert.equal(ruled.path, "rule");
+  assert.equal(ruled.match?.term, "bulk");
+  assert.equal(ruled.intentPolicy?.id, "intent_policy_1");
+  assert.equal(ruled.reply, "A wholesale rep will follow up.");
+  assert.equal(ruled.wouldSend, false);
+  assert.match(ruled.skipReason ?? "", /human approval required for intent wholesale/);
+
+  const templated = await testReplyRules(
+    createPolicyMock({ template: `{{business.name}} is away until {{business.hours | "Monday"}}.` }),
+    rules,
+    business,
+    { text: "bulk order please", segment: ContactSegment.KNOWN }
+  );
+  assert.equal(templated.path, "template");
+  assert.equal(templated.match, null);
+  assert.equal(templated.reply, "Acme is away until Monday.");
+  assert.equal(templated.wouldSend, true);
+
+  const unmatched = await testReplyRules(createPolicyMock({}), rules, business, {
+    text: "Nice weather today.",
+    segment: ContactSegment.KNOWN
+  });
+  assert.equal(unmatched.path, "llm");
+  assert.equal(unmatched.reply, null);
+  assert.equal(unmatched.wouldSend, null);
+});
+
+test("Prisma rules service recompiles only when rules change and seeds an empty table", async () => {
+  let rows = [createRule()];
+  let findManyCalls = 0;
+  const created: unknown[] = [];
+  const prisma = {
+    replyRule: {
+      aggregate: async () => ({
+        _count: { _all: rows.length },
+        _max: {
+          updatedAt: rows.reduce<Date | null>(
+            (latest, row) => (!latest || row.updatedAt > latest ? row.updatedAt : latest),
+            null
+          )
+        }
+      }),
+      findMany: async ({ where }: { where: { enabled: boolean } }) => {
+        findManyCalls += 1;
+        return rows.filter((row) => row.enabled === where.enabled);
+      },
+      count: async () => rows.length,
+      createMany: async ({ data }: { data: unknown[] }) => {
+        created.push(...data);
+        return { count: data.length };
+      }
+    }
+  } as unknown as PrismaClient;
+  const rules = new PrismaRulesService(prisma);
+
+  const draft = await rules.generateDraft("bulk order", ContactSegment.KNOWN, null);
+  assert.equal(draft?.intent, "wholesale");
+  await rules.generateDraft("bulk order", ContactSegment.KNOWN, null);
+  assert.equal(findManyCalls, 1);
+
+  rows = [createRule({ enabled: false, updatedAt: new Date("2026-02-01T00:00:00.000Z") })];
+  assert.equal(await rules.generateDraft("bulk order", ContactSegment.KNOWN, null), null);
+  assert.equal(findManyCalls, 2);
+
+  assert.equal(await seedDefaultReplyRules(prisma), 0);
+  rows = [];
+  assert.equal(await seedDefaultReplyRules(prisma), DEFAULT_KEYWORD_RULES.length);
+  assert.equal(created.length, DEFAULT_KEYWORD_RULES.length);
+});
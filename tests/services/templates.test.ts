@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildTemplateContext,
+  findTemplateError,
+  hoursForToday,
+  renderDraftReply,
+  renderTemplate,
+  TemplateContext,
+  validateTemplate
+} from "../../apps/server/src/services/templates";
+
+const BUSINESS = {
+  businessName: "Acme",
+  businessHours: "mon-fri 9:00-18:00; sat 10:00-14:00",
+  businessTimezone: "UTC",
+  orderLookupUrl: "https://acme.test/orders"
+};
+
+// 2026-10-19 is a Monday.
+const MONDAY_NOON = new Date("2026-10-19T12:00:00Z");
+const SUNDAY_NOON = new Date("2026-10-18T12:00:00Z");
+
+function createContext(overrides: Partial<TemplateContext> = {}): TemplateContext {
+  return {
+    ...buildTemplateContext(BUSINESS, {
+      contactName: "Maya",
+      segment: "VIP",
+      intent: "order_support",
+      language: "en",
+      now: MONDAY_NOON
+    }),
+    ...overrides
+  };
+}
+
+test("renderTemplate fills variables and falls back to defaults", () => {
+  assert.equal(
+    renderTemplate("Hi {{contact.name}}, track it at {{ order.lookupUrl }}.", createContext()),
+    "Hi Maya, track it at https://acme.test/orders."
+  );
+  assert.equal(
+    renderTemplate(`Hi {{contact.name | "there"}}!`, createContext({ "contact.name": null })),
+    "Hi there!"
+  );
+  assert.equal(
+    renderTemplate("Hi {{contact.name | 'friend'}}!", createContext({ "contact.name": "  " })),
+    "Hi friend!"
+  );
+  assert.equal(renderTemplate("Hi {{contact.name}} !", createContext({ "contact.name": null })), "Hi !");
+});
+
+test("renderTemplate picks conditional branches case-insensitively and nests", () => {
+  const template =
+    `{{#if language == "es"}}Hola{{else}}Hi{{/if}} {{contact.name}}. ` +
+    `{{#if segment == "vip"}}{{#if intent != "refund"}}Priority line: {{order.lookupUrl}}{{/if}}{{/if}}`;
+
+  assert.equal(
+    renderTemplate(template, createContext()),
+    "Hi Maya. Priority line: https://acme.test/orders"
+  );
+  assert.equal(
+    renderTemplate(template, createContext({ language: "es", segment: "STRANGER" })),
+    "Hola Maya."
+  );
+  assert.equal(
+    renderTemplate(template, createContext({ intent: "refund" })),
+    "Hi Maya."
+  );
+  assert.equal(
+    renderTemplate(
+      "{{#if business.hours}}Open {{business.hours}}{{else}}Closed today{{/if}}",
+      createContext({ "business.hours": null })
+    ),
+    "Closed today"
+  );
+});
+
+test("validateTemplate reports unknown variables and unbalanced blocks", () => {
+  assert.equal(validateTemplate("Hi {{contact.name}}"), null);
+  assert.equal(validateTemplate("No tags at all"), null);
+  assert.equal(validateTemplate("{{contact.email}}"), "Unknown variable contact.email");
+  assert.equal(validateTemplate("{{#if tier == \"gold\"}}x{{/if}}"), "Unknown variable tier");
+  assert.equal(validateTemplate("{{#if segment}}open"), "Unclosed {{#if}} block");
+  assert.equal(validateTemplate("done{{/if}}"), "{{/if}} without a matching {{#if}}");
+  assert.equal(validateTemplate("{{else}}"), "{{else}} outside an {{#if}} block");
+  assert.equal(validateTemplate("Hi {{contact.name"), "Unclosed {{");
+  assert.equal(validateTemplate("{{#if segment > 1}}x{{/if}}"), "Invalid condition in {{#if segment > 1}}");
+  assert.equal(validateTemplate("{{constructor.constructor('x')()}}"), "Invalid tag {{constructor.constructor('x')()}}");
+});
+
+test("findTemplateError names the first broken field", () => {
+  assert.equal(findTemplateError({ template: "Hi", storyTemplate: null }), null);
+  assert.equal(
+    findTemplateError({ template: "Hi", "template (es)": "{{nombre}}" }),
+    "Invalid template (es): Unknown variable nombre"
+  );
+});
+
+test("renderTemplate sends a broken stored template unchanged", () => {
+  assert.equal(renderTemplate("Hi {{contact.email}}", createContext()), "Hi {{contact.email}}");
+});
+
+test("hoursForToday reads a weekly schedule in the business time zone", () => {
+  assert.equal(hoursForToday(BUSINESS.businessHours, "UTC", MONDAY_NOON), "9:00-18:00");
+  assert.equal(hoursForToday(BUSINESS.businessHours, "UTC", SUNDAY_NOON), "");
+  // Monday 02:00 UTC is still Sunday in Los Angeles.
+  assert.equal(
+    hoursForToday(BUSINESS.businessHours, "America/Los_Angeles", new Date("2026-10-19T02:00:00Z")),
+    ""
+  );
+  assert.equal(hoursForToday("fri-mon 12:00-20:00", "UTC", SUNDAY_NOON), "12:00-20:00");
+  assert.equal(hoursForToday("Weekdays 9 to 5", "UTC", SUNDAY_NOON), "Weekdays 9 to 5");
+  assert.equal(hoursForToday("", "UTC", SUNDAY_NOON), "");
+});
+
+test("renderDraftReply holds a draft whose template renders to nothing", () => {
+  const draft = {
+    intent: "general_question",
+    confidence: 0.99,
+    reply: "{{#if language == \"es\"}}Hola{{/if}}",
+    needs_human_approval: false
+  };
+  const input = { contactName: null, segment: "STRANGER", now: MONDAY_NOON };
+
+  assert.deepEqual(renderDraftReply(draft, BUSINESS, { ...input, language: "es" }), {
+    ...draft,
+    reply: "Hola"
+  });
+  assert.deepEqual(renderDraftReply(draft, BUSINESS, { ...input, language: "en" }), {
+    ...draft,
+    reply: "",
+    needs_human_approval: true
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { CircuitBreaker } from "../../apps/server/src/utils/circuitBreaker";
+
+function createBreaker() {
+  let now = 0;
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1_000, now: () => now });
+  return { breaker, advance: (ms: number) => (now += ms) };
+}
+
+test("opens after consecutive failures and resets the count on success", () => {
+  const { breaker } = createBreaker();
+
+  breaker.recordFailure();
+  breaker.recordSuccess();
+  breaker.recordFailure();
+  assert.equal(breaker.state, "closed");
+  assert.equal(breaker.allowRequest(), true);
+
+  breaker.recordFailure();
+  assert.equal(breaker.state, "open");
+  assert.equal(breaker.allowRequest(), false);
+});
+
+test("allows a single half-open trial after the cooldown", () => {
+  const { breaker, advance } = createBreaker();
+  breaker.recordFailure();
+  breaker.recordFailure();
+
+  advance(999);
+  assert.equal(breaker.allowRequest(), false);
+
+  advance(1);
+  assert.equal(breaker.state, "half_open");
+  assert.equal(breaker.allowRequest(), true);
+  assert.equal(breaker.allowRequest(), false);
+
+  breaker.recordFailure();
+  assert.equal(breaker.state, "open");
+
+  advance(1_000);
+  assert.equal(breaker.allowRequest(), true);
+  breaker.recordSuccess();
+  assert.equal(breaker.state, "closed");
+  assert.equal(breaker.allowRequest(), true);
+});